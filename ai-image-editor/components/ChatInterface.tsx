@@ -1,28 +1,84 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Send, Upload, Camera, Download, Trash2, Sparkles, Image as ImageIcon, MessageSquare, Bot, User, Plus, Eye, EyeOff } from 'lucide-react';
+import { Send, Upload, Camera, Download, Trash2, Sparkles, Image as ImageIcon, MessageSquare, Bot, User, Plus, Eye, EyeOff, Brain, Ban, GitBranch, X, Paintbrush, RotateCcw } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useAuth } from '@/contexts/AuthContext';
-import { collection, addDoc, serverTimestamp, query, where, onSnapshot, orderBy } from 'firebase/firestore';
+import { collection, addDoc, serverTimestamp, query, where, onSnapshot, orderBy, getDocs, documentId, QueryDocumentSnapshot, DocumentData } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { db, storage } from '@/lib/firebase';
 import { motion, AnimatePresence } from 'framer-motion';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { MemoryManagementService } from '@/lib/services/MemoryManagementService';
-import { Message as MemoryMessage, ConversationMetadata } from '@/lib/types/memory';
+import { readEventStream } from '@/lib/event-stream';
+import { MemoryReference } from '@/lib/types/memory';
+import { migrateLocalImages } from '@/lib/local-image-migration';
+import ImageVersionTree, { ImageVersion } from './ImageVersionTree';
+import MaskEditor, { MaskedEdit } from './MaskEditor';
 
 interface Message {
   id: string;
   text?: string;
   images?: string[];
   generatedImage?: string;
+  generatedImagePath?: string; // Cloud Storage object behind generatedImage
+  imagePrompt?: string; // prompt that produced generatedImage
+  parentImageId?: string; // message whose image this one was edited from
+  rootImageId?: string; // first image of the edit chain; unset on the first image itself
   originalImages?: string[]; // Store original uploaded images for context
   isUser: boolean;
   timestamp: any;
   isLoading?: boolean;
   conversationType?: 'text' | 'image'; // Track what type of conversation this message belongs to
+  memoryReferences?: MemoryReference[]; // memories the reply was given
+}
+
+// Firestore's `in` filters take at most 30 values
+const IN_QUERY_LIMIT = 30;
+
+const toMessage = (doc: QueryDocumentSnapshot<DocumentData>): Message => {
+  const data = doc.data();
+  const messageData = {
+    id: doc.id,
+    ...data,
+    timestamp: data.timestamp?.toDate() || new Date()
+  } as Message;
+
+  // Handle local storage references for generated images
+  if (messageData.generatedImage && messageData.generatedImage.startsWith('local:')) {
+    const imageKey = messageData.generatedImage.replace('local:', '');
+    const storedImage = localStorage.getItem(imageKey);
+    if (storedImage) {
+      messageData.generatedImage = storedImage;
+    }
+  }
+  return messageData;
+};
+
+const byTimestamp = (a: Message, b: Message) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+const MEMORY_TYPE_LABELS: Record<MemoryReference['type'], string> = {
+  semantic: 'Known fact',
+  episodic: 'Past conversation',
+  shortTerm: 'This conversation'
+};
+
+// Payloads of the generation stream's closing events (see memoryEnhancedGenerateStream)
+interface GenerationStreamDone {
+  success: boolean;
+  text: string;
+  model: string;
+  modelUsed: string;
+  provider: string;
+  isImageGeneration: boolean;
+  processingTimeMs: number;
+  memoryReferences?: MemoryReference[];
+  conversationId: string;
+}
+
+interface GenerationStreamError {
+  error: string;
+  errorType?: string;
 }
 
 interface ChatInterfaceProps {
@@ -39,12 +95,17 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
   const [dragActive, setDragActive] = useState(false);
   const [activeTab, setActiveTab] = useState<'chat' | 'photo'>('chat');
   const [showOriginals, setShowOriginals] = useState<Record<string, boolean>>({});
+  const [showMemories, setShowMemories] = useState<Record<string, boolean>>({});
+  const [excludedMemories, setExcludedMemories] = useState<Record<string, boolean>>({});
+  const [showVersions, setShowVersions] = useState<Record<string, boolean>>({});
+  const [chainImages, setChainImages] = useState<Message[]>([]); // versions of this conversation's images, wherever they are
+  const [editSource, setEditSource] = useState<ImageVersion | null>(null); // image the next edit branches from
+  const [maskedEdit, setMaskedEdit] = useState<MaskedEdit | null>(null); // limits the next edit to a painted area
+  const [maskSourceUrl, setMaskSourceUrl] = useState<string | null>(null); // set while the mask editor is open
+  const [resettingContext, setResettingContext] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  
-  // Memory management service
-  const memoryService = MemoryManagementService.getInstance();
 
   // Auto-resize textarea
   useEffect(() => {
@@ -59,6 +120,28 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Move images older versions kept in localStorage to Cloud Storage, once per sign-in
+  useEffect(() => {
+    if (!user) return;
+    migrateLocalImages(user).then(({ migrated }) => {
+      if (migrated > 0) {
+        console.log(`🖼️ Moved ${migrated} locally stored image(s) to cloud storage`);
+      }
+    });
+  }, [user]);
+
+  // A branch source only makes sense within its own conversation
+  useEffect(() => {
+    setEditSource(null);
+  }, [conversationId]);
+
+  // A mask is drawn over one particular image; a different source image needs a new one
+  const editSourceId = editSource?.id;
+  const firstUpload = uploadedImages[0];
+  useEffect(() => {
+    setMaskedEdit(null);
+  }, [editSourceId, firstUpload]);
+
   // Load messages for current conversation and tab mode
   useEffect(() => {
     if (!user) return;
@@ -88,28 +171,7 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
 
     const unsubscribe = onSnapshot(q, 
       (snapshot) => {
-        const newMessages: Message[] = [];
-        snapshot.forEach((doc) => {
-          const data = doc.data();
-          const messageData = {
-            id: doc.id,
-            ...data,
-            timestamp: data.timestamp?.toDate() || new Date()
-          } as Message;
-          
-          // Handle local storage references for generated images
-          if (messageData.generatedImage && messageData.generatedImage.startsWith('local:')) {
-            const imageKey = messageData.generatedImage.replace('local:', '');
-            const storedImage = localStorage.getItem(imageKey);
-            if (storedImage) {
-              messageData.generatedImage = storedImage;
-            }
-          }
-          
-          newMessages.push(messageData);
-        });
-        newMessages.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-        setMessages(newMessages);
+        setMessages(snapshot.docs.map(toMessage).sort(byTimestamp));
       },
       (error) => {
         console.error('Error loading messages:', error);
@@ -120,28 +182,7 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
           where('conversationId', '==', conversationId)
         );
         onSnapshot(fallbackQ, (snapshot) => {
-          const newMessages: Message[] = [];
-          snapshot.forEach((doc) => {
-            const data = doc.data();
-            const messageData = {
-              id: doc.id,
-              ...data,
-              timestamp: data.timestamp?.toDate() || new Date()
-            } as Message;
-            
-            // Handle local storage references for generated images
-            if (messageData.generatedImage && messageData.generatedImage.startsWith('local:')) {
-              const imageKey = messageData.generatedImage.replace('local:', '');
-              const storedImage = localStorage.getItem(imageKey);
-              if (storedImage) {
-                messageData.generatedImage = storedImage;
-              }
-            }
-            
-            newMessages.push(messageData);
-          });
-          newMessages.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-          setMessages(newMessages);
+          setMessages(snapshot.docs.map(toMessage).sort(byTimestamp));
         });
       }
     );
@@ -149,57 +190,38 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
     return () => unsubscribe();
   }, [user, conversationId, activeTab]);
 
-  // Finalize conversation when switching conversations or unmounting
+  // An edit chain can continue in other conversations, so every chain shown here is loaded by its root
+  const chainRootsKey = Array.from(new Set(messages
+    .filter(m => !m.isLoading && m.generatedImage)
+    .map(m => m.rootImageId || m.id))).sort().join(',');
+
   useEffect(() => {
-    const finalizeCurrentConversation = async () => {
-      if (!user || !conversationId || messages.length === 0) return;
-      
-      try {
-        const memoryMessages: MemoryMessage[] = messages.map(msg => ({
-          id: msg.id,
-          conversationId: conversationId,
-          userId: user.uid,
-          content: msg.text || (msg.generatedImage ? 'Generated image' : ''),
-          role: msg.isUser ? 'user' : 'assistant',
-          timestamp: new Date(msg.timestamp),
-          metadata: {
-            hasImages: (msg.images?.length || 0) > 0,
-            imageUrls: msg.images,
-            isImageGeneration: !!msg.generatedImage,
-            imageUrl: msg.generatedImage
-          }
-        }));
-
-        const conversationMetadata: ConversationMetadata = {
-          conversationId: conversationId,
-          userId: user.uid,
-          title: messages[0]?.text?.length > 50 
-            ? messages[0].text.substring(0, 50) + '...' 
-            : messages[0]?.text || 'Untitled Conversation',
-          messageCount: messages.length,
-          lastActivity: new Date(),
-          tags: [activeTab, messages.some(m => m.generatedImage) ? 'image-generation' : 'text-chat'],
-          satisfactionRating: undefined
-        };
+    if (!user || !chainRootsKey) {
+      setChainImages([]);
+      return;
+    }
 
-        await memoryService.finalizeConversation(
-          conversationId,
-          user.uid,
-          memoryMessages,
-          conversationMetadata
-        );
-      } catch (error) {
-        console.warn('Failed to finalize conversation:', error);
-      }
-    };
+    const rootIds = chainRootsKey.split(',');
+    const lookups: Promise<Message[]>[] = [];
+    for (let start = 0; start < rootIds.length; start += IN_QUERY_LIMIT) {
+      const ids = rootIds.slice(start, start + IN_QUERY_LIMIT);
+      const ownMessages = query(collection(db, 'messages'), where('userId', '==', user.uid));
+      lookups.push(
+        getDocs(query(ownMessages, where('rootImageId', 'in', ids))).then(snapshot => snapshot.docs.map(toMessage)),
+        getDocs(query(ownMessages, where(documentId(), 'in', ids))).then(snapshot => snapshot.docs.map(toMessage))
+      );
+    }
 
-    // Cleanup function to finalize conversation
+    let cancelled = false;
+    Promise.all(lookups)
+      .then(results => {
+        if (!cancelled) setChainImages(results.flat());
+      })
+      .catch(error => console.error('Error loading image versions:', error));
     return () => {
-      if (conversationId && messages.length > 0) {
-        finalizeCurrentConversation();
-      }
+      cancelled = true;
     };
-  }, [conversationId, user, messages.length]); // Only run when conversation changes
+  }, [user, chainRootsKey]);
 
   // Handle tab switching - clear incompatible conversations
   useEffect(() => {
@@ -223,9 +245,9 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
     return getDownloadURL(snapshot.ref);
   };
 
-  const showUpgradePrompt = (currentPlan: any) => {
-    const nextResetTime = new Date();
-    nextResetTime.setHours(24, 0, 0, 0); // Next midnight
+  const showUpgradePrompt = (currentPlan: any, resetAt?: string) => {
+    const nextResetTime = resetAt ? new Date(resetAt) : new Date();
+    if (!resetAt) nextResetTime.setHours(24, 0, 0, 0); // Next midnight
     const timeUntilReset = Math.ceil((nextResetTime.getTime() - Date.now()) / (1000 * 60 * 60)); // Hours until reset
     
     toast((t) => (
@@ -271,18 +293,64 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
     });
   };
 
+  // Render streamed deltas into the pending message and resolve with the final `done` payload
+  const readGenerationStream = async (response: Response, messageId: string): Promise<GenerationStreamDone> => {
+    let streamedText = '';
+    // Assigned from the event callback, which control-flow narrowing can't see
+    let finalResult = null as GenerationStreamDone | null;
+    let streamError = null as GenerationStreamError | null;
+
+    await readEventStream(response, ({ event, data }) => {
+      let payload;
+      try {
+        payload = JSON.parse(data);
+      } catch {
+        // One garbled frame shouldn't cost the whole reply; a missing `done` is still reported below
+        console.warn(`Skipping malformed ${event} event from the generation stream`);
+        return;
+      }
+      if (event === 'delta') {
+        streamedText += payload.text || '';
+        const partialText = streamedText;
+        setMessages(prev => prev.map(msg =>
+          msg.id === messageId ? { ...msg, isLoading: false, text: partialText } : msg
+        ));
+      } else if (event === 'done') {
+        finalResult = payload;
+      } else if (event === 'error') {
+        streamError = payload;
+      }
+    });
+
+    if (streamError || !finalResult) {
+      throw Object.assign(new Error(streamError?.error || 'Response stream ended unexpectedly'), {
+        response: { data: streamError || {} }
+      });
+    }
+
+    return finalResult;
+  };
+
   const handleSend = async () => {
-    if (!input.trim() && uploadedImages.length === 0) return;
+    const removesObject = maskedEdit?.operation === 'object_removal';
+    if (!input.trim() && uploadedImages.length === 0 && !removesObject) return;
+    if (editSource && !input.trim() && !removesObject) {
+      toast.error('Describe the edit to make to this version');
+      return;
+    }
     if (!user) {
       toast.error('Please sign in to continue');
       return;
     }
 
-    const userMessage = input.trim();
+    const userMessage = input.trim() || (removesObject ? 'Remove the marked object' : '');
     const images = [...uploadedImages];
+    const parentImage = editSource;
+    const mask = maskedEdit;
+    const editMode = parentImage || mask ? 'photo' : activeTab;
     
     // Create conversation type based on current tab and whether images are uploaded
-    const conversationType: 'text' | 'image' = activeTab === 'photo' || images.length > 0 ? 'image' : 'text';
+    const conversationType: 'text' | 'image' = editMode === 'photo' || images.length > 0 ? 'image' : 'text';
     
     // Generate conversation ID with type prefix for better organization
     const currentConvId = conversationId || `${conversationType}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -291,6 +359,8 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
     setInput('');
     setUploadedImages([]);
     setAutoAddedImages([]);
+    setEditSource(null);
+    setMaskedEdit(null);
     setIsGenerating(true);
 
     // Add user message immediately to UI
@@ -315,7 +385,9 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
       isUser: false,
       timestamp: new Date(),
       isLoading: true,
-      images: images.length > 0 ? images.map(img => URL.createObjectURL(img)) : undefined,
+      images: images.length > 0
+        ? images.map(img => URL.createObjectURL(img))
+        : (parentImage ? [parentImage.imageUrl] : undefined),
     };
     setMessages(prev => [...prev, loadingMsg]);
 
@@ -338,42 +410,6 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
         timestamp: serverTimestamp(),
       });
 
-      // Check usage limits before making API call
-      try {
-        const token = await user.getIdToken();
-        const usageResponse = await fetch('/api/subscription/usage', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
-
-        if (usageResponse.ok) {
-          const usageData = await usageResponse.json();
-          if (usageData.today.remaining <= 0) {
-            // User has exceeded daily limit
-            setIsGenerating(false);
-            setMessages(prev => prev.filter(msg => msg.id !== loadingId));
-            
-            toast.error('Daily usage limit exceeded!', {
-              duration: 6000,
-              position: 'top-center',
-              style: {
-                background: '#1f2937',
-                color: '#ffffff',
-                borderRadius: '8px',
-                border: '1px solid #374151',
-              },
-            });
-            
-            // Show upgrade prompt
-            showUpgradePrompt(usageData.plan);
-            return;
-          }
-        }
-      } catch (error) {
-        console.warn('Failed to check usage limits, proceeding with request:', error);
-      }
-
       // Call API - use JSON for text-only, FormData for file uploads
       let requestBody: FormData | string;
       let requestHeaders: HeadersInit = {};
@@ -382,7 +418,12 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
         // Use FormData for file uploads
         const formData = new FormData();
         if (userMessage) formData.append('prompt', userMessage);
-        formData.append('mode', activeTab);
+        formData.append('mode', editMode);
+        if (parentImage) formData.append('parentImageId', parentImage.id);
+        if (mask) {
+          formData.append('mask', await (await fetch(mask.mask)).blob(), 'mask.png');
+          formData.append('maskOperation', mask.operation);
+        }
         // Ensure conversation continuity across turns
         formData.append('conversationId', currentConvId);
         images.forEach((image, index) => {
@@ -391,52 +432,15 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
         requestBody = formData;
         // Let browser set Content-Type for FormData
       } else {
-        // Use JSON for text-only requests with memory context
-        let memoryContext = null;
-        
-        if (activeTab === 'chat' && user && conversationId) {
-          try {
-            // Generate comprehensive conversation context using memory management
-            memoryContext = await memoryService.generateConversationContext(
-              conversationId,
-              user.uid,
-              userMessage,
-              8000 // Max tokens for context
-            );
-            
-            console.log('Generated memory context with', memoryContext.totalTokenCount, 'tokens');
-          } catch (error) {
-            console.warn('Failed to generate memory context, falling back to basic history:', error);
-            
-            // Fallback to basic conversation history
-            memoryContext = {
-              shortTermMemory: {
-                messages: messages
-                  .filter(msg => !msg.isLoading)
-                  .map(msg => ({
-                    id: msg.id,
-                    content: msg.text || '',
-                    role: msg.isUser ? 'user' : 'assistant',
-                    timestamp: new Date(msg.timestamp)
-                  }))
-              },
-              relevantSemanticMemories: [],
-              relevantEpisodicMemories: [],
-              recommendedModel: 'gemini-2.0-flash-exp'
-            };
-          }
-        }
-        
+        // Use JSON for text-only requests; memory context is assembled server-side
+        // A branch source is loaded by the server from Cloud Storage, so nothing is re-uploaded
         requestBody = JSON.stringify({
           prompt: userMessage || '',
-          mode: activeTab,
+          mode: editMode,
           conversationId: currentConvId,
-          memoryContext: memoryContext,
-          // Keep legacy support for backward compatibility
-          conversationHistory: memoryContext?.shortTermMemory?.messages?.map(msg => ({
-            role: msg.role === 'user' ? 'user' : 'model',
-            parts: [{ text: msg.content || '' }]
-          })) || []
+          parentImageId: parentImage?.id,
+          mask: mask?.mask,
+          maskOperation: mask?.operation
         });
         requestHeaders = {
           'Content-Type': 'application/json'
@@ -450,22 +454,30 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
         'Authorization': `Bearer ${token}`
       };
 
-      const response = await fetch('/api/generate-image-v2', {
+      // Text-only chat turns stream their reply; uploads and photo mode use the buffered route
+      const useStreaming = images.length === 0 && editMode === 'chat';
+      const response = await fetch(useStreaming ? '/api/generate-image-v2/stream' : '/api/generate-image-v2', {
         method: 'POST',
         headers: requestHeaders,
         body: requestBody,
       });
 
-      // Check if we got HTML instead of JSON (API route not working)
       const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        console.warn('Got non-JSON response from API, response:', response.status, response.statusText);
-        const responseText = await response.text();
-        console.warn('Response body:', responseText.substring(0, 500));
-        throw new Error(`API endpoint returned ${response.status}: ${response.statusText}. Check Firebase Functions deployment.`);
-      }
+      let result;
+
+      if (response.ok && contentType?.includes('text/event-stream')) {
+        result = await readGenerationStream(response, loadingId);
+      } else {
+        // Check if we got HTML instead of JSON (API route not working)
+        if (!contentType || !contentType.includes('application/json')) {
+          console.warn('Got non-JSON response from API, response:', response.status, response.statusText);
+          const responseText = await response.text();
+          console.warn('Response body:', responseText.substring(0, 500));
+          throw new Error(`API endpoint returned ${response.status}: ${response.statusText}. Check Firebase Functions deployment.`);
+        }
 
-      const result = await response.json();
+        result = await response.json();
+      }
       
       if (!response.ok) {
         // Handle usage limit errors specifically
@@ -485,7 +497,7 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
             },
           });
           
-          showUpgradePrompt(result.plan);
+          showUpgradePrompt(result.plan, result.resetAt);
           return;
         }
         
@@ -520,13 +532,28 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
         timestamp: serverTimestamp(),
         modelUsed: result.model || result.modelUsed || 'unknown',
       };
+      if (Array.isArray(result.memoryReferences) && result.memoryReferences.length > 0) {
+        aiMessageData.memoryReferences = result.memoryReferences;
+      }
 
       if (result.isImageGeneration) {
         // Don't save data URLs to Firestore (too large)
-        // Instead, save a placeholder or external URL
+        // The server normally stores the image in Cloud Storage and returns its URL; a data URL
+        // only comes back when that failed, and is then kept in this browser's local storage
+        if (result.imageStoragePath) {
+          aiMessageData.generatedImagePath = result.imageStoragePath;
+        }
+        // Version history: the prompt behind this image and the image it was edited from
+        aiMessageData.imagePrompt = userMessage;
+        if (result.operationType) {
+          aiMessageData.operationType = result.operationType;
+        }
+        if (result.parentImageId) {
+          aiMessageData.parentImageId = result.parentImageId;
+          aiMessageData.rootImageId = result.rootImageId;
+        }
         if (result.imageUrl.startsWith('data:')) {
           try {
-            // For data URLs, we'll store them in browser's local storage or session
             const imageKey = `generated_${currentConvId}_${Date.now()}`;
             
             // Clean up old entries first to free space
@@ -551,62 +578,15 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
         if (images.length > 0) {
           aiMessageData.originalImages = uploadedUrls;
         }
-        // Don't save reasoning text, just the image
+        // Keep any caption the model returned alongside the image
+        if (result.text) {
+          aiMessageData.text = result.text;
+        }
       } else {
         aiMessageData.text = result.text;
       }
 
-      await addDoc(collection(db, 'messages'), aiMessageData);
-
-      // Process messages through memory management system
-      try {
-        if (user) {
-          // Create memory messages from the conversation
-          const userMemoryMessage: MemoryMessage = {
-            id: tempId,
-            conversationId: currentConvId,
-            userId: user.uid,
-            content: userMessage,
-            role: 'user',
-            timestamp: new Date(),
-            metadata: {
-              hasImages: images.length > 0,
-              imageUrls: uploadedUrls
-            }
-          };
-          
-          const aiMemoryMessage: MemoryMessage = {
-            id: `ai_${Date.now()}`,
-            conversationId: currentConvId,
-            userId: user.uid,
-            content: result.text || 'Generated image',
-            role: 'assistant',
-            timestamp: new Date(),
-            metadata: {
-              isImageGeneration: result.isImageGeneration,
-              imageUrl: result.isImageGeneration ? result.imageUrl : undefined,
-              modelUsed: result.model || result.modelUsed || 'unknown'
-            }
-          };
-
-          const conversationMetadata: ConversationMetadata = {
-            conversationId: currentConvId,
-            userId: user.uid,
-            title: userMessage.length > 50 ? userMessage.substring(0, 50) + '...' : userMessage,
-            messageCount: messages.length + 2, // +2 for user and AI messages
-            lastActivity: new Date(),
-            tags: [conversationType, activeTab],
-            satisfactionRating: undefined // Will be set later if user provides feedback
-          };
-
-          // Process both messages through memory system
-          await memoryService.processMessage(userMemoryMessage, conversationMetadata);
-          await memoryService.processMessage(aiMemoryMessage, conversationMetadata);
-        }
-      } catch (memoryError) {
-        console.warn('Failed to process messages through memory system:', memoryError);
-        // Continue with UI updates even if memory processing fails
-      }
+      const aiMessageRef = await addDoc(collection(db, 'messages'), aiMessageData);
 
       // Transform loading message to show result with morphing animation
       let displayImageUrl = undefined;
@@ -628,13 +608,24 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
               isLoading: false,
               generatedImage: displayImageUrl,
               originalImages: result.isImageGeneration && images.length > 0 ? uploadedUrls : undefined,
-              text: result.isImageGeneration ? undefined : result.text
+              text: result.text || undefined,
+              memoryReferences: aiMessageData.memoryReferences
             }
           : msg
       ));
 
-      // Auto-add generated image to next message context if it's an image generation
-      if (result.isImageGeneration && result.imageUrl) {
+      // Continue editing from the new image: branch from it when the server stored it, otherwise
+      // fall back to adding it to the next message as an upload
+      if (result.isImageGeneration && result.imageStoragePath) {
+        setEditSource({
+          id: aiMessageRef.id,
+          imageUrl: result.imageUrl,
+          prompt: userMessage,
+          parentImageId: result.parentImageId,
+          canBranch: true
+        });
+        setActiveTab('photo');
+      } else if (result.isImageGeneration && result.imageUrl) {
         try {
           const response = await fetch(result.imageUrl);
           const blob = await response.blob();
@@ -664,6 +655,9 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
         toast.error('🔒 ' + (error.response.data.error || 'Safety violation detected'));
       } else if (error.response?.data?.errorType === 'PROCESSING_ERROR') {
         toast.error('❌ ' + (error.response.data.error || 'Unable to process request'));
+      } else if (error.response?.data?.errorType === 'PROVIDER_RATE_LIMITED') {
+        const retryAfterSeconds = Math.ceil((error.response.data.retryAfterMs || 0) / 1000);
+        toast.error(`⏳ The model is busy, try again in ${retryAfterSeconds}s`);
       } else {
         toast.error(error.message || 'Failed to send message');
       }
@@ -677,6 +671,58 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
     }
   };
 
+  // Keep a memory out of future prompts; it stays visible and searchable in memory settings
+  const excludeMemory = async (reference: MemoryReference) => {
+    if (!user || reference.type === 'shortTerm') return;
+    const key = `${reference.type}/${reference.id}`;
+
+    try {
+      setExcludedMemories(prev => ({ ...prev, [key]: true }));
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/memory/${key}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ excludeFromContext: true }),
+      });
+      if (!response.ok) {
+        throw new Error(await response.text() || 'Request failed');
+      }
+      toast.success("This memory won't be used again");
+    } catch (error) {
+      console.error('Failed to exclude memory:', error);
+      setExcludedMemories(prev => ({ ...prev, [key]: false }));
+      toast.error('Failed to update memory');
+    }
+  };
+
+  // Replies stop drawing on this conversation's earlier turns; saved facts and summaries are kept
+  const resetContext = async () => {
+    if (!user || !conversationId || resettingContext) return;
+
+    try {
+      setResettingContext(true);
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/memory/conversations/${encodeURIComponent(conversationId)}/context`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      if (!response.ok) {
+        throw new Error(await response.text() || 'Request failed');
+      }
+      toast.success('Context reset: replies will no longer draw on earlier messages here');
+    } catch (error) {
+      console.error('Failed to reset conversation context:', error);
+      toast.error('Failed to reset context');
+    } finally {
+      setResettingContext(false);
+    }
+  };
+
   const handleFileSelect = (files: FileList | null) => {
     if (!files) return;
     
@@ -784,6 +830,59 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
     }));
   };
 
+  // The server applies a mask to the first source image: the branch source, else the first upload
+  const openMaskEditor = () => {
+    if (editSource) {
+      setMaskSourceUrl(editSource.imageUrl);
+    } else if (uploadedImages.length > 0) {
+      setMaskSourceUrl(URL.createObjectURL(uploadedImages[0]));
+    }
+  };
+
+  const closeMaskEditor = () => {
+    if (maskSourceUrl?.startsWith('blob:')) URL.revokeObjectURL(maskSourceUrl);
+    setMaskSourceUrl(null);
+  };
+
+  const toImageVersion = (message: Message): ImageVersion => ({
+    id: message.id,
+    imageUrl: message.generatedImage!,
+    prompt: message.imagePrompt,
+    parentImageId: message.parentImageId,
+    canBranch: !!message.generatedImagePath
+  });
+
+  // Every saved version in the edit chain the message's image belongs to, oldest first
+  const versionsOf = (message: Message): ImageVersion[] => {
+    const rootId = message.rootImageId || message.id;
+    // Messages on screen are the freshest copy of any version both lists hold
+    const chain = new Map<string, Message>();
+    [...chainImages, ...messages]
+      .filter(m => !m.isLoading && m.generatedImage && (m.rootImageId || m.id) === rootId)
+      .forEach(m => chain.set(m.id, m));
+    return Array.from(chain.values()).sort(byTimestamp).map(toImageVersion);
+  };
+
+  // The next edit starts from this version; images that aren't in the cloud are re-uploaded instead
+  const branchFrom = (version: ImageVersion) => {
+    if (!version.canBranch) {
+      addImageToUpload(version.imageUrl);
+      return;
+    }
+    setEditSource(version);
+    setActiveTab('photo');
+    textareaRef.current?.focus();
+  };
+
+  const jumpToVersion = (id: string) => {
+    const element = document.getElementById(`message-${id}`);
+    if (!element) {
+      toast('This version is in another conversation');
+      return;
+    }
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
   const addImageToUpload = async (imageUrl: string) => {
     if (uploadedImages.length >= 2) {
       toast.error('Maximum 2 images allowed');
@@ -891,6 +990,17 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
                 <span className="xs:hidden">Photo</span>
               </div>
             </button>
+            {conversationId && messages.length > 0 && (
+              <button
+                onClick={resetContext}
+                disabled={resettingContext}
+                className="ml-auto flex items-center gap-1 px-3 py-2 rounded-lg text-xs text-gray-400 hover:text-white hover:bg-gray-800 transition-colors disabled:opacity-50"
+                title="Forget this conversation's earlier messages in future replies; saved memories are kept"
+              >
+                <RotateCcw size={14} />
+                <span className="hidden sm:inline">Reset context</span>
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -921,6 +1031,7 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
           {messages.map((message) => (
             <motion.div
               key={message.id}
+              id={`message-${message.id}`}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
@@ -1164,7 +1275,7 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
                                 </button>
                               )}
                               <button
-                                onClick={() => addImageToUpload(message.generatedImage!)}
+                                onClick={() => branchFrom(toImageVersion(message))}
                                 className="p-2 bg-blue-500 bg-opacity-80 hover:bg-blue-500 text-white rounded-lg opacity-0 group-hover:opacity-100 transition-all"
                                 title="Use this image for editing"
                               >
@@ -1185,6 +1296,28 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
                               </button>
                             </div>
                           </div>
+
+                          {/* Version history of this image's edit chain */}
+                          {!message.isLoading && versionsOf(message).length > 1 && (
+                            <div className="mt-2">
+                              <button
+                                onClick={() => setShowVersions(prev => ({ ...prev, [message.id]: !prev[message.id] }))}
+                                className="flex items-center gap-1.5 px-2.5 py-1 mb-2 text-xs text-gray-300 bg-gray-800 border border-gray-700 rounded-full hover:bg-gray-700 transition-colors"
+                                title={showVersions[message.id] ? 'Hide the versions of this image' : 'Show the versions of this image'}
+                              >
+                                <GitBranch size={12} className="text-purple-400" />
+                                Versions ({versionsOf(message).length})
+                              </button>
+                              {showVersions[message.id] && (
+                                <ImageVersionTree
+                                  versions={versionsOf(message)}
+                                  currentId={message.id}
+                                  onJump={jumpToVersion}
+                                  onBranch={branchFrom}
+                                />
+                              )}
+                            </div>
+                          )}
                         </div>
                         
                       )}
@@ -1228,6 +1361,51 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
                     </>
                   )}
                 </div>
+
+                {/* Memories the reply was given */}
+                {!message.isUser && !message.isLoading && message.memoryReferences && message.memoryReferences.length > 0 && (
+                  <div className="mt-2">
+                    <button
+                      onClick={() => setShowMemories(prev => ({ ...prev, [message.id]: !prev[message.id] }))}
+                      className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-gray-300 bg-gray-800 border border-gray-700 rounded-full hover:bg-gray-700 transition-colors"
+                      title={showMemories[message.id] ? 'Hide the memories used for this reply' : 'Show the memories used for this reply'}
+                    >
+                      <Brain size={12} className="text-purple-400" />
+                      Used memories ({message.memoryReferences.length})
+                    </button>
+                    {showMemories[message.id] && (
+                      <ul className="mt-2 space-y-1.5 p-3 bg-gray-800 bg-opacity-50 rounded-lg border border-gray-700">
+                        {message.memoryReferences.map(reference => {
+                          const key = `${reference.type}/${reference.id}`;
+                          return (
+                            <li key={key} className="flex items-start gap-2 text-xs">
+                              <span className="flex-shrink-0 px-1.5 py-0.5 rounded bg-gray-700 text-gray-400">
+                                {MEMORY_TYPE_LABELS[reference.type]}
+                              </span>
+                              <span className={`flex-1 ${excludedMemories[key] ? 'text-gray-500 line-through' : 'text-gray-300'}`}>
+                                {reference.preview}
+                              </span>
+                              {reference.type !== 'shortTerm' && (
+                                excludedMemories[key] ? (
+                                  <span className="flex-shrink-0 text-gray-500">Won&apos;t be used</span>
+                                ) : (
+                                  <button
+                                    onClick={() => excludeMemory(reference)}
+                                    className="flex-shrink-0 flex items-center gap-1 text-gray-400 hover:text-red-400 transition-colors"
+                                    title="Don't use this memory in future replies"
+                                  >
+                                    <Ban size={12} />
+                                    Don&apos;t use again
+                                  </button>
+                                )
+                              )}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* User Avatar */}
@@ -1264,6 +1442,34 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
             </div>
           </div>
         </div>
+        {/* Version the next edit branches from */}
+        {editSource && (
+          <div className="px-2 sm:px-4 pt-4">
+            <div className="flex items-center gap-3 p-2 bg-purple-500/10 border border-purple-500/30 rounded-lg">
+              <img
+                src={editSource.imageUrl}
+                alt="Editing"
+                className="w-12 h-12 object-cover rounded-lg cursor-pointer"
+                onClick={() => jumpToVersion(editSource.id)}
+              />
+              <div className="flex-1 min-w-0 text-xs">
+                <div className="flex items-center gap-1.5 text-purple-300">
+                  <GitBranch size={12} />
+                  <span>Editing from this version</span>
+                </div>
+                {editSource.prompt && <p className="text-gray-400 truncate">{editSource.prompt}</p>}
+              </div>
+              <button
+                onClick={() => setEditSource(null)}
+                className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors"
+                title="Don't edit from this version"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Image Preview */}
         {uploadedImages.length > 0 && (
           <div className="px-2 sm:px-4 pt-4">
@@ -1330,6 +1536,28 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
                 <ImageIcon size={18} className="sm:w-5 sm:h-5" />
               </button>
 
+              {/* Mask Button: paint the part of the source image to change */}
+              {(editSource || uploadedImages.length > 0) && (
+                <button
+                  onClick={openMaskEditor}
+                  className={`p-2 rounded-lg transition-colors flex-shrink-0 ${
+                    maskedEdit ? 'text-purple-400 bg-purple-500/20' : 'text-gray-400 hover:text-purple-400 hover:bg-gray-700'
+                  }`}
+                  title={maskedEdit ? 'Edit the mask' : 'Paint a mask to change only part of the image'}
+                >
+                  <Paintbrush size={18} className="sm:w-5 sm:h-5" />
+                </button>
+              )}
+              {maskedEdit && (
+                <button
+                  onClick={() => setMaskedEdit(null)}
+                  className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-lg transition-colors flex-shrink-0"
+                  title={`Remove the mask (${maskedEdit.operation === 'object_removal' ? 'remove object' : 'replace with prompt'})`}
+                >
+                  <X size={16} />
+                </button>
+              )}
+
               {/* Text Input */}
               <textarea
                 ref={textareaRef}
@@ -1352,7 +1580,7 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
               <button
                 data-testid="send-button"
                 onClick={handleSend}
-                disabled={isGenerating || (!input.trim() && uploadedImages.length === 0)}
+                disabled={isGenerating || (!input.trim() && uploadedImages.length === 0 && maskedEdit?.operation !== 'object_removal')}
                 className="p-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
               >
                 {isGenerating ? (
@@ -1375,6 +1603,19 @@ export default function ChatInterface({ conversationId }: ChatInterfaceProps) {
         className="hidden"
         onChange={(e) => handleFileSelect(e.target.files)}
       />
+
+      {/* Mask painting for inpainting and object removal */}
+      {maskSourceUrl && (
+        <MaskEditor
+          imageUrl={maskSourceUrl}
+          initial={maskedEdit}
+          onApply={(edit) => {
+            setMaskedEdit(edit);
+            closeMaskEditor();
+          }}
+          onCancel={closeMaskEditor}
+        />
+      )}
     </div>
   );
 }
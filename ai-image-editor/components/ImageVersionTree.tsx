@@ -0,0 +1,62 @@
+'use client';
+
+import { CornerDownRight, GitBranch } from 'lucide-react';
+
+export interface ImageVersion {
+  id: string; // id of the message showing the image
+  imageUrl: string;
+  prompt?: string;
+  parentImageId?: string;
+  canBranch: boolean; // stored in the cloud, so it can be edited without a re-upload
+}
+
+interface ImageVersionTreeProps {
+  versions: ImageVersion[]; // every version sharing one root, oldest first
+  currentId: string;
+  onJump: (id: string) => void;
+  onBranch: (version: ImageVersion) => void;
+}
+
+export default function ImageVersionTree({ versions, currentId, onJump, onBranch }: ImageVersionTreeProps) {
+  const ids = new Set(versions.map(version => version.id));
+  // A version whose parent isn't here (e.g. deleted) is shown as a root
+  const childrenOf = (parentId?: string) => versions.filter(version =>
+    parentId ? version.parentImageId === parentId : !version.parentImageId || !ids.has(version.parentImageId)
+  );
+
+  const renderNode = (version: ImageVersion, depth: number) => (
+    <li key={version.id}>
+      <div
+        className={`flex items-center gap-2 p-1.5 rounded-lg ${version.id === currentId ? 'bg-purple-500/20 border border-purple-500/40' : 'hover:bg-gray-700/50 border border-transparent'}`}
+        style={{ marginLeft: depth * 16 }}
+      >
+        {depth > 0 && <CornerDownRight size={12} className="text-gray-500 flex-shrink-0" />}
+        <button onClick={() => onJump(version.id)} className="flex items-center gap-2 flex-1 min-w-0 text-left" title="Show this version">
+          <img src={version.imageUrl} alt="Version" className="w-10 h-10 object-cover rounded flex-shrink-0" />
+          <span className="text-xs text-gray-300 truncate">{version.prompt || 'Untitled edit'}</span>
+        </button>
+        {version.canBranch && (
+          <button
+            onClick={() => onBranch(version)}
+            className="flex-shrink-0 flex items-center gap-1 px-2 py-1 text-xs text-gray-400 hover:text-purple-300 hover:bg-gray-700 rounded transition-colors"
+            title="Start a new edit from this version"
+          >
+            <GitBranch size={12} />
+            Branch
+          </button>
+        )}
+      </div>
+      {childrenOf(version.id).length > 0 && (
+        <ul className="mt-1 space-y-1">
+          {childrenOf(version.id).map(child => renderNode(child, depth + 1))}
+        </ul>
+      )}
+    </li>
+  );
+
+  return (
+    <ul className="space-y-1 p-2 bg-gray-800 bg-opacity-50 rounded-lg border border-gray-700">
+      {childrenOf().map(root => renderNode(root, 0))}
+    </ul>
+  );
+}
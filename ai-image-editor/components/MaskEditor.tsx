@@ -0,0 +1,179 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Paintbrush, Eraser, X } from 'lucide-react';
+
+export type MaskOperation = 'inpainting' | 'object_removal';
+
+export interface MaskedEdit {
+  mask: string; // PNG data URL at the image's natural size: white where the edit applies
+  operation: MaskOperation;
+}
+
+interface MaskEditorProps {
+  imageUrl: string;
+  initial?: MaskedEdit | null;
+  onApply: (edit: MaskedEdit) => void;
+  onCancel: () => void;
+}
+
+export default function MaskEditor({ imageUrl, initial, onApply, onCancel }: MaskEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [brushSize, setBrushSize] = useState(40);
+  const [erasing, setErasing] = useState(false);
+  const [operation, setOperation] = useState<MaskOperation>(initial?.operation || 'inpainting');
+  const [hasStrokes, setHasStrokes] = useState(!!initial);
+
+  // The canvas matches the image's natural size so the mask lines up pixel for pixel
+  const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = event.currentTarget.naturalWidth;
+    canvas.height = event.currentTarget.naturalHeight;
+
+    if (initial) {
+      // Strokes are kept white on transparent; the saved mask's black background is dropped
+      const previous = new Image();
+      previous.onload = () => {
+        const context = canvas.getContext('2d');
+        if (!context) return;
+        context.drawImage(previous, 0, 0, canvas.width, canvas.height);
+        const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+        for (let i = 0; i < pixels.data.length; i += 4) {
+          if (pixels.data[i] < 128) pixels.data[i + 3] = 0;
+        }
+        context.putImageData(pixels, 0, 0);
+      };
+      previous.src = initial.mask;
+    }
+  };
+
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (canvas.height / rect.height)
+    };
+  };
+
+  const paintTo = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const context = canvas.getContext('2d');
+    if (!context || !lastPoint.current) return;
+
+    const point = toCanvasPoint(event);
+    // Brush size is in screen pixels, whatever the image's resolution
+    const scale = canvas.width / canvas.getBoundingClientRect().width;
+    context.globalCompositeOperation = erasing ? 'destination-out' : 'source-over';
+    context.strokeStyle = '#ffffff';
+    context.lineWidth = brushSize * scale;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(lastPoint.current.x, lastPoint.current.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPoint.current = point;
+    if (!erasing) setHasStrokes(true);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPoint.current = toCanvasPoint(event);
+    paintTo(event);
+  };
+
+  const handlePointerUp = () => {
+    lastPoint.current = null;
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasStrokes(false);
+  };
+
+  const applyMask = () => {
+    const strokes = canvasRef.current;
+    if (!strokes) return;
+    const mask = document.createElement('canvas');
+    mask.width = strokes.width;
+    mask.height = strokes.height;
+    const context = mask.getContext('2d');
+    if (!context) return;
+    context.fillStyle = '#000000';
+    context.fillRect(0, 0, mask.width, mask.height);
+    context.drawImage(strokes, 0, 0);
+    onApply({ mask: mask.toDataURL('image/png'), operation });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-80 p-4">
+      <div className="w-full max-w-3xl bg-gray-900 border border-gray-700 rounded-2xl p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-white font-medium">Paint the area to change</h3>
+          <button onClick={onCancel} className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="relative mx-auto w-fit max-h-[60vh]">
+          <img src={imageUrl} alt="Image to mask" onLoad={handleImageLoad} className="max-h-[60vh] max-w-full rounded-lg select-none" draggable={false} />
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={paintTo}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+            className="absolute inset-0 w-full h-full opacity-60 cursor-crosshair touch-none rounded-lg"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <div className="flex rounded-lg border border-gray-700 overflow-hidden">
+            <button
+              onClick={() => setErasing(false)}
+              className={`flex items-center gap-1 px-3 py-1.5 ${!erasing ? 'bg-purple-600 text-white' : 'text-gray-300 hover:bg-gray-800'}`}
+            >
+              <Paintbrush size={14} /> Paint
+            </button>
+            <button
+              onClick={() => setErasing(true)}
+              className={`flex items-center gap-1 px-3 py-1.5 ${erasing ? 'bg-purple-600 text-white' : 'text-gray-300 hover:bg-gray-800'}`}
+            >
+              <Eraser size={14} /> Erase
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-gray-400">
+            Brush
+            <input type="range" min={5} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} />
+          </label>
+          <select
+            value={operation}
+            onChange={(e) => setOperation(e.target.value as MaskOperation)}
+            className="px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-gray-200"
+          >
+            <option value="inpainting">Replace with prompt</option>
+            <option value="object_removal">Remove object</option>
+          </select>
+          <button onClick={clearMask} className="px-3 py-1.5 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors">
+            Clear
+          </button>
+          <div className="flex-1" />
+          <button onClick={onCancel} className="px-3 py-1.5 text-gray-300 hover:bg-gray-800 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={applyMask}
+            disabled={!hasStrokes}
+            className="px-4 py-1.5 bg-purple-600 hover:bg-purple-500 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            Use mask
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
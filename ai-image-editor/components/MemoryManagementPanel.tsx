@@ -1,9 +1,12 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { Trash2, Download, Eye, Shield, Brain, Clock, BarChart3, Settings } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Trash2, Download, Upload, Eye, Shield, Brain, Clock, BarChart3, Settings, Pin, PinOff, Pencil, History as HistoryIcon, Ban } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import toast from 'react-hot-toast';
+import { MemorySettings } from '@/lib/types/memory';
+
+type ExportFormat = MemorySettings['exportFormat'];
 
 interface MemoryManagementPanelProps {
   onClose?: () => void;
@@ -24,10 +27,32 @@ interface MemorySearchResult {
   id: string;
   type: 'semantic' | 'episodic';
   content: string;
+  category: string | null;
+  importance: number | null;
+  pinned: boolean;
+  excludeFromContext?: boolean;
   createdAt: string;
+  supersedes?: string[];
+  supersededBy?: string | null;
+  validUntil?: string | null;
   score: number;
 }
 
+// One version of a known fact, as returned by the history endpoint
+interface MemoryVersion {
+  id: string;
+  content: string;
+  createdAt: string | null;
+  supersededBy: string | null;
+  validUntil: string | null;
+}
+
+interface MemoryDraft {
+  content: string;
+  category: string;
+  importance: number;
+}
+
 export function MemoryManagementPanel({ onClose }: MemoryManagementPanelProps) {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState('overview');
@@ -41,22 +66,17 @@ export function MemoryManagementPanel({ onClose }: MemoryManagementPanelProps) {
   const [stats, setStats] = useState<MemoryStats | null>(null);
   const [searchResults, setSearchResults] = useState<MemorySearchResult[]>([]);
   const [searching, setSearching] = useState(false);
-
-  // Load memory stats on component mount
-  useEffect(() => {
-    if (user && activeTab === 'overview') {
-      loadMemoryStats();
-    }
-  }, [user, activeTab]);
-
-  // Load memory settings on component mount
-  useEffect(() => {
-    if (user) {
-      loadMemorySettings();
-    }
-  }, [user]);
-
-  const apiCall = async (endpoint: string, options: RequestInit = {}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<MemoryDraft>({ content: '', category: '', importance: 0.5 });
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [history, setHistory] = useState<MemoryVersion[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+
+  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
     if (!user) throw new Error('User not authenticated');
     
     const token = await user.getIdToken();
@@ -75,9 +95,9 @@ export function MemoryManagementPanel({ onClose }: MemoryManagementPanelProps) {
     }
 
     return response.json();
-  };
+  }, [user]);
 
-  const loadMemoryStats = async () => {
+  const loadMemoryStats = useCallback(async () => {
     try {
       setLoading(true);
       const data = await apiCall('stats');
@@ -88,16 +108,38 @@ export function MemoryManagementPanel({ onClose }: MemoryManagementPanelProps) {
     } finally {
       setLoading(false);
     }
-  };
+  }, [apiCall]);
 
-  const loadMemorySettings = async () => {
+  const loadMemorySettings = useCallback(async () => {
     try {
-      // Settings are loaded from the toggle API when we call it
-      // For now, we'll use defaults and they'll be updated when user interacts
+      // The toggle API returns the current settings; an empty update changes nothing
+      const response = await apiCall('toggle', {
+        method: 'POST',
+        body: JSON.stringify({}),
+      });
+      setMemoryEnabled(response.memoryEnabled);
+      setShortTermEnabled(response.shortTermMemoryEnabled);
+      setLongTermEnabled(response.semanticMemoryEnabled);
+      setEpisodicEnabled(response.episodicMemoryEnabled);
+      setExportFormat(response.exportFormat);
     } catch (error) {
       console.error('Failed to load memory settings:', error);
     }
-  };
+  }, [apiCall]);
+
+  // Load memory stats on component mount
+  useEffect(() => {
+    if (user && activeTab === 'overview') {
+      loadMemoryStats();
+    }
+  }, [user, activeTab, loadMemoryStats]);
+
+  // Load memory settings on component mount
+  useEffect(() => {
+    if (user) {
+      loadMemorySettings();
+    }
+  }, [user, loadMemorySettings]);
 
   const handleToggleMemory = async (type: string, value: boolean) => {
     try {
@@ -132,6 +174,7 @@ export function MemoryManagementPanel({ onClose }: MemoryManagementPanelProps) {
       setShortTermEnabled(response.shortTermMemoryEnabled);
       setLongTermEnabled(response.semanticMemoryEnabled);
       setEpisodicEnabled(response.episodicMemoryEnabled);
+      setExportFormat(response.exportFormat);
 
       const typeLabels: Record<string, string> = {
         memory: 'Memory',
@@ -192,20 +235,34 @@ export function MemoryManagementPanel({ onClose }: MemoryManagementPanelProps) {
   };
 
   const handleExportMemories = async () => {
+    if (!user) return;
+
     try {
       setLoading(true);
-      const response = await apiCall('export', {
+      // The response is the file itself, so this bypasses apiCall's JSON parsing
+      const token = await user.getIdToken();
+      const response = await fetch('/api/memory/export', {
         method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ format: exportFormat }),
       });
 
+      if (!response.ok) {
+        throw new Error(await response.text() || 'Export failed');
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || 'pixtorai-memories';
+
       // Create and download file
-      const blob = new Blob([JSON.stringify(response.data, null, 2)], {
-        type: 'application/json',
-      });
+      const blob = await response.blob();
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = response.downloadFilename;
+      a.download = filename;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -221,6 +278,61 @@ export function MemoryManagementPanel({ onClose }: MemoryManagementPanelProps) {
     }
   };
 
+  const handleExportFormatChange = async (format: ExportFormat) => {
+    const previous = exportFormat;
+    setExportFormat(format);
+    try {
+      const response = await apiCall('toggle', {
+        method: 'POST',
+        body: JSON.stringify({ exportFormat: format }),
+      });
+      setExportFormat(response.exportFormat);
+    } catch (error) {
+      console.error('Failed to save export format:', error);
+      toast.error('Failed to save export format');
+      setExportFormat(previous);
+    }
+  };
+
+  const handleImportMemories = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setLoading(true);
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        toast.error('That file is not a memory export');
+        return;
+      }
+
+      const response = await apiCall('import', {
+        method: 'POST',
+        body: JSON.stringify({ mode: importMode, bundle }),
+      });
+
+      const { imported, skipped, rejected } = response.report;
+      const count = (counts: Record<string, number>) =>
+        Object.values(counts).reduce((total, value) => total + value, 0);
+      toast.success(
+        `Imported ${count(imported)} memories (${count(skipped)} duplicates skipped, ${count(rejected)} invalid)`
+      );
+
+      if (activeTab === 'overview') {
+        await loadMemoryStats();
+      }
+
+    } catch (error) {
+      console.error('Failed to import memories:', error);
+      toast.error('Failed to import memories');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSearch = async () => {
     if (!searchQuery.trim()) {
       toast.error('Please enter a search query');
@@ -229,6 +341,7 @@ export function MemoryManagementPanel({ onClose }: MemoryManagementPanelProps) {
 
     try {
       setSearching(true);
+      setHistoryId(null);
       const response = await apiCall(`search?q=${encodeURIComponent(searchQuery)}&limit=10`);
       setSearchResults(response.results || []);
       
@@ -245,6 +358,120 @@ export function MemoryManagementPanel({ onClose }: MemoryManagementPanelProps) {
     }
   };
 
+  const updateMemory = async (result: MemorySearchResult, changes: Partial<MemoryDraft & { pinned: boolean; excludeFromContext: boolean }>) => {
+    const response = await apiCall(`${result.type}/${result.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+
+    setSearchResults(results => results.map(item =>
+      item.id === result.id
+        ? {
+            ...item,
+            content: response.memory.content,
+            category: response.memory.category,
+            importance: response.memory.importance,
+            pinned: response.memory.pinned,
+            excludeFromContext: response.memory.excludeFromContext
+          }
+        : item
+    ));
+  };
+
+  const handleTogglePin = async (result: MemorySearchResult) => {
+    try {
+      setSavingId(result.id);
+      await updateMemory(result, { pinned: !result.pinned });
+      toast.success(result.pinned ? 'Memory unpinned' : 'Memory pinned - it will never be removed automatically');
+    } catch (error) {
+      console.error('Failed to pin memory:', error);
+      toast.error('Failed to update memory');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleToggleExcluded = async (result: MemorySearchResult) => {
+    try {
+      setSavingId(result.id);
+      await updateMemory(result, { excludeFromContext: !result.excludeFromContext });
+      toast.success(result.excludeFromContext ? 'Memory will be used in replies again' : "Memory won't be used in replies");
+    } catch (error) {
+      console.error('Failed to update memory:', error);
+      toast.error('Failed to update memory');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleStartEdit = (result: MemorySearchResult) => {
+    setPendingDeleteId(null);
+    setEditingId(result.id);
+    setDraft({
+      content: result.content,
+      category: result.category || '',
+      importance: result.importance ?? 0.5
+    });
+  };
+
+  const handleSaveEdit = async (result: MemorySearchResult) => {
+    if (!draft.content.trim()) {
+      toast.error('Memory content cannot be empty');
+      return;
+    }
+
+    try {
+      setSavingId(result.id);
+      await updateMemory(result, {
+        content: draft.content,
+        importance: draft.importance,
+        ...(draft.category.trim() ? { category: draft.category } : {})
+      });
+      setEditingId(null);
+      toast.success('Memory updated');
+    } catch (error) {
+      console.error('Failed to update memory:', error);
+      toast.error('Failed to update memory');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDeleteMemory = async (result: MemorySearchResult) => {
+    try {
+      setSavingId(result.id);
+      await apiCall(`${result.type}/${result.id}`, { method: 'DELETE' });
+      setSearchResults(results => results.filter(item => item.id !== result.id));
+      setPendingDeleteId(null);
+      toast.success('Memory deleted');
+    } catch (error) {
+      console.error('Failed to delete memory:', error);
+      toast.error('Failed to delete memory');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleToggleHistory = async (result: MemorySearchResult) => {
+    if (historyId === result.id) {
+      setHistoryId(null);
+      return;
+    }
+
+    try {
+      setHistoryId(result.id);
+      setLoadingHistory(true);
+      const response = await apiCall(`semantic/${result.id}/history`);
+      setHistory(response.history || []);
+    } catch (error) {
+      console.error('Failed to load memory history:', error);
+      toast.error('Failed to load memory history');
+      setHistoryId(null);
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
   const TabButton = ({ id, label, icon: Icon }: { id: string; label: string; icon: any }) => (
     <button
       onClick={() => setActiveTab(id)}
@@ -454,22 +681,180 @@ export function MemoryManagementPanel({ onClose }: MemoryManagementPanelProps) {
                       {searchResults.map((result) => (
                         <div key={result.id} className="bg-gray-700/50 rounded-lg p-3">
                           <div className="flex items-center justify-between mb-2">
-                            <span className="text-xs text-[#00D4FF] font-medium uppercase">
+                            <span className="flex items-center gap-2 text-xs text-[#00D4FF] font-medium uppercase">
                               {result.type === 'semantic' ? 'Known Fact' : 'Episode Summary'}
+                              {result.category && (
+                                <span className="text-gray-400 normal-case">· {result.category}</span>
+                              )}
+                              {result.pinned && (
+                                <span className="flex items-center gap-1 text-yellow-400 normal-case">
+                                  <Pin size={12} />
+                                  Pinned
+                                </span>
+                              )}
+                              {result.excludeFromContext && (
+                                <span className="flex items-center gap-1 text-gray-400 normal-case">
+                                  <Ban size={12} />
+                                  Not used in replies
+                                </span>
+                              )}
                             </span>
                             <span className="text-xs text-gray-400">
                               {new Date(result.createdAt).toLocaleDateString()}
                             </span>
                           </div>
-                          <div className="text-gray-300 text-sm">
-                            {result.content.length > 200 
-                              ? `${result.content.substring(0, 200)}...` 
-                              : result.content
-                            }
-                          </div>
-                          <div className="mt-2 text-xs text-gray-400">
-                            Relevance: {Math.round(result.score * 100)}%
+
+                          {editingId === result.id ? (
+                            <div className="space-y-3">
+                              <textarea
+                                value={draft.content}
+                                onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                                rows={3}
+                                maxLength={2000}
+                                className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm focus:border-[#00D4FF] focus:outline-none"
+                              />
+                              <div className="flex flex-wrap items-center gap-4">
+                                <input
+                                  type="text"
+                                  placeholder="Category"
+                                  value={draft.category}
+                                  onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                                  maxLength={50}
+                                  className="px-3 py-1 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:border-[#00D4FF] focus:outline-none"
+                                />
+                                <label className="flex items-center gap-2 text-xs text-gray-400">
+                                  Importance
+                                  <input
+                                    type="range"
+                                    min={0}
+                                    max={1}
+                                    step={0.05}
+                                    value={draft.importance}
+                                    onChange={(e) => setDraft({ ...draft, importance: parseFloat(e.target.value) })}
+                                  />
+                                  {Math.round(draft.importance * 100)}%
+                                </label>
+                              </div>
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={() => handleSaveEdit(result)}
+                                  disabled={savingId === result.id}
+                                  className="px-3 py-1 bg-[#00D4FF] text-white text-sm rounded-lg hover:bg-[#00B8E6] transition-colors disabled:opacity-50"
+                                >
+                                  {savingId === result.id ? 'Saving...' : 'Save'}
+                                </button>
+                                <button
+                                  onClick={() => setEditingId(null)}
+                                  className="px-3 py-1 bg-gray-600 text-white text-sm rounded-lg hover:bg-gray-700 transition-colors"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="text-gray-300 text-sm">
+                              {result.content.length > 200 
+                                ? `${result.content.substring(0, 200)}...` 
+                                : result.content
+                              }
+                            </div>
+                          )}
+
+                          <div className="mt-2 flex items-center justify-between">
+                            <span className="text-xs text-gray-400">
+                              Relevance: {Math.round(result.score * 100)}%
+                            </span>
+                            {pendingDeleteId === result.id ? (
+                              <div className="flex items-center gap-2 text-xs">
+                                <span className="text-red-300">Delete this memory?</span>
+                                <button
+                                  onClick={() => handleDeleteMemory(result)}
+                                  disabled={savingId === result.id}
+                                  className="px-2 py-1 bg-red-600 text-white rounded hover:bg-red-700 transition-colors disabled:opacity-50"
+                                >
+                                  Delete
+                                </button>
+                                <button
+                                  onClick={() => setPendingDeleteId(null)}
+                                  className="px-2 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            ) : editingId !== result.id && (
+                              <div className="flex items-center gap-1">
+                                {result.type === 'semantic' && ((result.supersedes?.length || 0) > 0 || result.supersededBy) && (
+                                  <button
+                                    onClick={() => handleToggleHistory(result)}
+                                    title="Show how this fact has changed"
+                                    className={`p-1.5 rounded transition-colors ${
+                                      historyId === result.id ? 'text-[#00D4FF]' : 'text-gray-400 hover:text-[#00D4FF]'
+                                    }`}
+                                  >
+                                    <HistoryIcon size={14} />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => handleTogglePin(result)}
+                                  disabled={savingId === result.id}
+                                  title={result.pinned ? 'Unpin' : 'Pin so it is never removed automatically'}
+                                  className="p-1.5 text-gray-400 hover:text-yellow-400 rounded transition-colors disabled:opacity-50"
+                                >
+                                  {result.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                                </button>
+                                <button
+                                  onClick={() => handleToggleExcluded(result)}
+                                  disabled={savingId === result.id}
+                                  title={result.excludeFromContext ? 'Use in replies again' : "Don't use in replies"}
+                                  className={`p-1.5 rounded transition-colors disabled:opacity-50 ${
+                                    result.excludeFromContext ? 'text-red-400 hover:text-gray-300' : 'text-gray-400 hover:text-red-400'
+                                  }`}
+                                >
+                                  <Ban size={14} />
+                                </button>
+                                <button
+                                  onClick={() => handleStartEdit(result)}
+                                  title="Edit"
+                                  className="p-1.5 text-gray-400 hover:text-[#00D4FF] rounded transition-colors"
+                                >
+                                  <Pencil size={14} />
+                                </button>
+                                <button
+                                  onClick={() => { setEditingId(null); setPendingDeleteId(result.id); }}
+                                  title="Delete"
+                                  className="p-1.5 text-gray-400 hover:text-red-400 rounded transition-colors"
+                                >
+                                  <Trash2 size={14} />
+                                </button>
+                              </div>
+                            )}
                           </div>
+
+                          {historyId === result.id && (
+                            <div className="mt-3 border-t border-gray-600 pt-3">
+                              <div className="text-xs text-gray-400 mb-2">History of this fact</div>
+                              {loadingHistory ? (
+                                <div className="flex items-center justify-center py-2">
+                                  <div className="animate-spin w-4 h-4 border-2 border-[#00D4FF] border-t-transparent rounded-full"></div>
+                                </div>
+                              ) : (
+                                <ol className="space-y-2">
+                                  {history.map((version) => (
+                                    <li key={version.id} className="flex items-start justify-between gap-3 text-sm">
+                                      <span className={version.supersededBy ? 'text-gray-500 line-through' : 'text-gray-200'}>
+                                        {version.content}
+                                      </span>
+                                      <span className="shrink-0 text-xs text-gray-400">
+                                        {version.createdAt ? new Date(version.createdAt).toLocaleDateString() : '?'}
+                                        {' – '}
+                                        {version.validUntil ? new Date(version.validUntil).toLocaleDateString() : 'now'}
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ol>
+                              )}
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -490,13 +875,51 @@ export function MemoryManagementPanel({ onClose }: MemoryManagementPanelProps) {
             <div className="space-y-4">
               <div>
                 <h4 className="font-medium text-white mb-2">Data Export</h4>
-                <button
-                  onClick={handleExportMemories}
-                  className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
-                >
-                  <Download size={16} />
-                  Export All Memories
-                </button>
+                <p className="text-gray-400 text-sm mb-3">
+                  JSON can be imported again; Markdown is easy to read; CSV is a zip with one spreadsheet per memory type.
+                </p>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={exportFormat}
+                    onChange={(e) => handleExportFormatChange(e.target.value as ExportFormat)}
+                    className="px-3 py-2 bg-gray-700 text-white rounded-lg border border-gray-600"
+                  >
+                    <option value="json">JSON</option>
+                    <option value="markdown">Markdown</option>
+                    <option value="csv">CSV (zip)</option>
+                  </select>
+                  <button
+                    onClick={handleExportMemories}
+                    disabled={loading}
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                  >
+                    <Download size={16} />
+                    Export All Memories
+                  </button>
+                </div>
+              </div>
+
+              {/* Data Import */}
+              <div>
+                <h4 className="font-medium text-white mb-2">Data Import</h4>
+                <p className="text-gray-400 text-sm mb-3">
+                  Restore memories from an export file. Merge skips memories you already have; replace swaps your current memories for those in the file, and only if every one of them is valid.
+                </p>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={importMode}
+                    onChange={(e) => setImportMode(e.target.value as 'merge' | 'replace')}
+                    className="px-3 py-2 bg-gray-700 text-white rounded-lg border border-gray-600"
+                  >
+                    <option value="merge">Merge</option>
+                    <option value="replace">Replace</option>
+                  </select>
+                  <label className={`flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors ${loading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                    <Upload size={16} />
+                    Import Memories
+                    <input type="file" accept="application/json,.json" onChange={handleImportMemories} className="hidden" />
+                  </label>
+                </div>
               </div>
 
               {/* Danger Zone */}
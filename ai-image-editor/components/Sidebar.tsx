@@ -1,11 +1,10 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Clock, Trash2, Plus, LogOut, Menu, X, BarChart3, Zap, MessageSquare, ImageIcon } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { collection, query, where, orderBy, onSnapshot, deleteDoc, doc, getDocs } from 'firebase/firestore';
-import { ref, deleteObject } from 'firebase/storage';
-import { db, storage } from '@/lib/firebase';
+import { collection, query, where, orderBy, onSnapshot, limit, QueryDocumentSnapshot, DocumentData } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
 import toast from 'react-hot-toast';
 import Image from 'next/image';
 
@@ -15,9 +14,24 @@ interface Conversation {
   lastMessage: string;
   timestamp: any;
   thumbnail?: string;
-  type: 'text' | 'image';
+  type: 'text' | 'image' | 'mixed';
 }
 
+const PAGE_SIZE = 20;
+
+// Docs are keyed {userId}_{conversationId}; legacy docs keyed by the conversation id lack the field
+const toConversation = (snapshot: QueryDocumentSnapshot<DocumentData>): Conversation => {
+  const data = snapshot.data();
+  return {
+    id: data.conversationId || snapshot.id,
+    title: data.title,
+    lastMessage: data.lastMessage || '',
+    timestamp: data.lastMessageAt?.toDate() || new Date(),
+    thumbnail: data.thumbnail || undefined,
+    type: data.type || 'text'
+  };
+};
+
 interface SidebarProps {
   onNewChat: () => void;
   onSelectConversation: (id: string) => void;
@@ -27,60 +41,80 @@ interface SidebarProps {
 export default function Sidebar({ onNewChat, onSelectConversation, refreshUsage }: SidebarProps) {
   const { user, logout } = useAuth();
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [pageCount, setPageCount] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
   const [usage, setUsage] = useState<{ used: number; limit: number; remaining: number } | null>(null);
   const [loadingUsage, setLoadingUsage] = useState(false);
 
+  // Conversation docs are written by the server as messages arrive; threads from before that
+  // are indexed by asking the server to rebuild the list, once per user on this browser
+  const rebuildConversationsOnce = useCallback(async () => {
+    if (!user) return;
+    // Versioned so the list is rebuilt again after conversation docs were re-keyed by user
+    const flagKey = `conversationsRebuilt_v2_${user.uid}`;
+    if (localStorage.getItem(flagKey)) return;
+
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch('/api/conversations/rebuild', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      if (response.ok) {
+        localStorage.setItem(flagKey, new Date().toISOString());
+      }
+    } catch (error) {
+      console.error('Failed to rebuild conversation list:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    setPageCount(1);
+    rebuildConversationsOnce();
+  }, [user, rebuildConversationsOnce]);
+
+  // One live query over every loaded page, so conversations moving between pages are never
+  // skipped or shown twice; loading more widens it by a page
   useEffect(() => {
     if (!user) return;
 
-    // Get unique conversations from messages
+    const pageLimit = pageCount * PAGE_SIZE;
     const q = query(
-      collection(db, 'messages'),
-      where('userId', '==', user.uid)
+      collection(db, 'conversations'),
+      where('userId', '==', user.uid),
+      orderBy('lastMessageAt', 'desc'),
+      limit(pageLimit)
     );
 
     const unsubscribe = onSnapshot(
       q,
       (snapshot) => {
-        const conversationMap = new Map<string, Conversation>();
-        
-        snapshot.forEach((doc) => {
-          const data = doc.data();
-          const convId = data.conversationId;
-          
-          if (convId && !conversationMap.has(convId)) {
-            // Determine conversation type from conversationType field or conversation ID prefix
-            const conversationType = data.conversationType || 
-              (convId.startsWith('image_') ? 'image' : 
-               convId.startsWith('text_') ? 'text' : 
-               (data.images || data.generatedImage ? 'image' : 'text'));
-            
-            // Create conversation summary from first message
-            conversationMap.set(convId, {
-              id: convId,
-              title: data.text?.substring(0, 50) || (conversationType === 'image' ? 'Image Chat' : 'Text Chat'),
-              lastMessage: data.text || (conversationType === 'image' ? 'Image conversation' : 'Text conversation'),
-              timestamp: data.timestamp?.toDate() || new Date(),
-              thumbnail: data.images?.[0] || data.generatedImage,
-              type: conversationType
-            });
-          }
-        });
-        
-        const convos = Array.from(conversationMap.values());
-        convos.sort((a, b) => 
-          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-        );
-        setConversations(convos);
+        setConversations(snapshot.docs.map(toConversation));
+        setHasMore(snapshot.size === pageLimit);
+        setLoadingMore(false);
       },
       (error) => {
         console.error('Firestore error in sidebar:', error);
+        if (pageCount > 1) {
+          toast.error('Failed to load more conversations');
+        }
+        setLoadingMore(false);
       }
     );
 
     return () => unsubscribe();
-  }, [user]);
+  }, [user, pageCount]);
+
+  const loadMoreConversations = () => {
+    if (!user || loadingMore || !hasMore) return;
+    setLoadingMore(true);
+    setPageCount(count => count + 1);
+  };
 
   // Load usage data
   useEffect(() => {
@@ -141,52 +175,24 @@ export default function Sidebar({ onNewChat, onSelectConversation, refreshUsage
     if (!user) return;
 
     try {
-      const messagesQuery = query(
-        collection(db, 'messages'),
-        where('conversationId', '==', conversationId),
-        where('userId', '==', user.uid)
-      );
-      
-      const messagesSnapshot = await getDocs(messagesQuery);
-      
-      for (const messageDoc of messagesSnapshot.docs) {
-        const data = messageDoc.data();
-        
-        // Delete associated images from storage
-        if (data.images) {
-          for (const imageUrl of data.images) {
-            try {
-              const imagePath = decodeURIComponent(imageUrl.split('/o/')[1].split('?')[0]);
-              const imageRef = ref(storage, imagePath);
-              await deleteObject(imageRef);
-            } catch (error) {
-              console.error('Error deleting image:', error);
-            }
-          }
-        }
-        
-        if (data.generatedImage) {
-          try {
-            // Handle localStorage-stored images
-            if (data.generatedImage.startsWith('local:')) {
-              const imageKey = data.generatedImage.replace('local:', '');
-              localStorage.removeItem(imageKey);
-              console.log('Removed localStorage image:', imageKey);
-            } else if (data.generatedImage.includes('/o/')) {
-              // Handle Firebase Storage URLs
-              const imagePath = decodeURIComponent(data.generatedImage.split('/o/')[1].split('?')[0]);
-              const imageRef = ref(storage, imagePath);
-              await deleteObject(imageRef);
-            }
-          } catch (error) {
-            console.error('Error deleting generated image:', error);
-          }
+      // Messages, their images and the memories drawn from them are deleted on the server
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`
         }
-        
-        // Delete message document
-        await deleteDoc(doc(db, 'messages', messageDoc.id));
+      });
+      if (!response.ok) {
+        throw new Error(`Delete failed with ${response.status}`);
       }
-      
+
+      // Images older versions kept in this browser are named generated_{conversationId}_{time}
+      Object.keys(localStorage)
+        .filter(key => key.startsWith(`generated_${conversationId}_`))
+        .forEach(key => localStorage.removeItem(key));
+
+      // The live list drops it on its own once the server removes the conversation doc
       toast.success('Conversation deleted successfully');
     } catch (error) {
       toast.error('Failed to delete conversation');
@@ -194,6 +200,7 @@ export default function Sidebar({ onNewChat, onSelectConversation, refreshUsage
     }
   };
 
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -316,11 +323,11 @@ export default function Sidebar({ onNewChat, onSelectConversation, refreshUsage
               <span>Image Chats</span>
             </h3>
             
-            {conversations.filter(convo => convo.type === 'image').length === 0 ? (
+            {conversations.filter(convo => convo.type !== 'text').length === 0 ? (
               <p className="text-gray-600 text-xs sm:text-sm">No image conversations yet</p>
             ) : (
               <div className="space-y-2">
-                {conversations.filter(convo => convo.type === 'image').map((convo) => (
+                {conversations.filter(convo => convo.type !== 'text').map((convo) => (
                   <div
                     key={convo.id}
                     onClick={() => onSelectConversation(convo.id)}
@@ -362,6 +369,16 @@ export default function Sidebar({ onNewChat, onSelectConversation, refreshUsage
               </div>
             )}
           </div>
+
+          {hasMore && (
+            <button
+              onClick={loadMoreConversations}
+              disabled={loadingMore}
+              className="w-full mt-4 py-2 text-xs sm:text-sm text-gray-400 hover:text-[#00D4FF] border border-gray-700 hover:border-[#00D4FF]/30 rounded-lg transition-all duration-300 disabled:opacity-50 touch-manipulation"
+            >
+              {loadingMore ? 'Loading...' : 'Load older conversations'}
+            </button>
+          )}
         </div>
 
         {user && (
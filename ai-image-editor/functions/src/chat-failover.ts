@@ -0,0 +1,217 @@
+// Chat failover: retries, circuit breaking and falling back across chat providers
+// A turn tries the user's preferred provider, then Gemini, then whatever else is configured. Each
+// provider is retried with backoff on transient errors, and one that keeps failing is skipped
+// until its cooldown has passed. Breaker state is per function instance.
+import {
+  ChatModelError,
+  ChatModelErrorType,
+  ChatModelProvider,
+  ChatModelRequest,
+  ChatModelResult,
+  ChatProviderId,
+  RETRYABLE_CHAT_ERRORS
+} from './chat-model-types';
+import { ProviderLimiter } from './provider-rate-limiter';
+
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 60 * 1000;
+
+export interface ChatFailoverOptions {
+  limiter?: ProviderLimiter;
+  estimatedTokens?: number; // charged to a provider's bucket before it is called
+  onSwitch?: (fromModel: string, toModel: string, reason: string) => Promise<void>;
+  onDelta?: (text: string) => void; // streams the reply; non-streaming providers send it whole
+}
+
+export interface ChatFailoverAttempt {
+  providerId: ChatProviderId;
+  modelId: string;
+  errorType: ChatModelErrorType | 'rate_limited' | 'circuit_open';
+  message: string;
+  retryAfterMs?: number;
+}
+
+export type ChatFailoverResult = ChatModelResult & { rateLimitWaitMs: number };
+
+// Every candidate failed or was skipped
+export class ChatFailoverError extends Error {
+  constructor(public readonly attempts: ChatFailoverAttempt[]) {
+    super(attempts.length > 0
+      ? `All chat models failed: ${attempts.map(attempt => `${attempt.modelId} (${attempt.message})`).join('; ')}`
+      : 'No chat model is configured');
+    this.name = 'ChatFailoverError';
+  }
+
+  // Soonest a rate-limited provider has room again, when rate limits are all that stood in the way
+  get retryAfterMs(): number | null {
+    const limited = this.attempts.filter(attempt => attempt.errorType === 'rate_limited');
+    if (limited.length === 0 || this.attempts.some(attempt => attempt.errorType !== 'rate_limited' && attempt.errorType !== 'circuit_open')) {
+      return null;
+    }
+    return Math.min(...limited.map(attempt => attempt.retryAfterMs || 0));
+  }
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openedAt?: number;
+}
+
+// Opens after a run of failures; once the cooldown has passed one call is let through as a probe
+export class CircuitBreaker {
+  private circuits = new Map<string, CircuitState>();
+
+  constructor(
+    private readonly failureThreshold: number = CIRCUIT_FAILURE_THRESHOLD,
+    private readonly cooldownMs: number = CIRCUIT_COOLDOWN_MS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  isOpen(providerId: string): boolean {
+    const circuit = this.circuits.get(providerId);
+    return circuit?.openedAt !== undefined && this.now() - circuit.openedAt < this.cooldownMs;
+  }
+
+  recordSuccess(providerId: string): void {
+    this.circuits.delete(providerId);
+  }
+
+  // A failed probe re-opens the circuit for another cooldown
+  recordFailure(providerId: string): void {
+    const circuit = this.circuits.get(providerId) || { consecutiveFailures: 0 };
+    circuit.consecutiveFailures++;
+    if (circuit.consecutiveFailures >= this.failureThreshold) {
+      circuit.openedAt = this.now();
+      console.log(`⚡ Circuit opened for ${providerId} after ${circuit.consecutiveFailures} failures`);
+    }
+    this.circuits.set(providerId, circuit);
+  }
+}
+
+const toChatModelError = (error: unknown, providerId: ChatProviderId): ChatModelError =>
+  error instanceof ChatModelError
+    ? error
+    : new ChatModelError(error instanceof Error ? error.message : 'Unknown error', providerId, 'server_error');
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+export class ChatFailover {
+  private static instance: ChatFailover;
+
+  constructor(
+    private readonly breaker: CircuitBreaker = new CircuitBreaker(),
+    private readonly maxRetries: number = MAX_RETRIES,
+    private readonly retryBaseDelayMs: number = RETRY_BASE_DELAY_MS
+  ) {}
+
+  public static getInstance(): ChatFailover {
+    if (!ChatFailover.instance) {
+      ChatFailover.instance = new ChatFailover();
+    }
+    return ChatFailover.instance;
+  }
+
+  /**
+   * The first reply any candidate gives, in order. Content blocks, aborted requests and failures
+   * after part of a reply has been streamed end the turn instead of moving to the next candidate.
+   */
+  async generate(candidates: ChatModelProvider[], request: ChatModelRequest, options: ChatFailoverOptions = {}): Promise<ChatFailoverResult> {
+    const attempts: ChatFailoverAttempt[] = [];
+    let previous: ChatFailoverAttempt | null = null;
+    let streamed = false;
+    const onDelta = options.onDelta && ((text: string) => {
+      streamed = true;
+      options.onDelta!(text);
+    });
+
+    for (const provider of candidates) {
+      if (previous && options.onSwitch) {
+        await options.onSwitch(previous.modelId, provider.modelId, previous.message);
+      }
+
+      const attempt: ChatFailoverAttempt = { providerId: provider.id, modelId: provider.modelId, errorType: 'circuit_open', message: '' };
+      previous = attempt;
+      attempts.push(attempt);
+
+      if (this.breaker.isOpen(provider.id)) {
+        attempt.message = 'Circuit open after repeated failures';
+        continue;
+      }
+
+      const estimatedTokens = options.estimatedTokens || 0;
+      const permit = options.limiter
+        ? await options.limiter.acquire(provider.id, estimatedTokens)
+        : { granted: true, waitedMs: 0 };
+      if (!permit.granted) {
+        attempt.errorType = 'rate_limited';
+        attempt.message = `Rate limit reached, retry in ${Math.ceil((permit.retryAfterMs || 0) / 1000)}s`;
+        attempt.retryAfterMs = permit.retryAfterMs;
+        continue;
+      }
+
+      let result: ChatModelResult;
+      try {
+        result = await this.generateWithRetry(provider, request, onDelta, () => streamed);
+      } catch (error) {
+        const chatError = toChatModelError(error, provider.id);
+        // Blocked prompts and bad requests would fail anywhere, so they don't count against the provider
+        if (chatError.errorType !== 'content_blocked' && chatError.errorType !== 'invalid_request_error') {
+          this.breaker.recordFailure(provider.id);
+        }
+        if (chatError.errorType === 'content_blocked' || streamed || request.signal?.aborted) {
+          throw chatError;
+        }
+        attempt.errorType = chatError.errorType;
+        attempt.message = chatError.message;
+        continue;
+      }
+
+      this.breaker.recordSuccess(provider.id);
+      if (options.limiter) {
+        await options.limiter.recordTokens(provider.id, result.tokenCount.input + result.tokenCount.output - estimatedTokens);
+      }
+      if (!result.text && !request.signal?.aborted) {
+        attempt.errorType = 'server_error';
+        attempt.message = 'Model returned an empty response';
+        continue;
+      }
+      return { ...result, rateLimitWaitMs: permit.waitedMs };
+    }
+
+    throw new ChatFailoverError(attempts);
+  }
+
+  private async generateWithRetry(
+    provider: ChatModelProvider,
+    request: ChatModelRequest,
+    onDelta: ((text: string) => void) | undefined,
+    streamed: () => boolean
+  ): Promise<ChatModelResult> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        if (!onDelta) {
+          return await provider.generate(request);
+        }
+        if (provider.stream) {
+          return await provider.stream(request, onDelta);
+        }
+        const result = await provider.generate(request);
+        if (result.text) {
+          onDelta(result.text);
+        }
+        return result;
+      } catch (error) {
+        const chatError = toChatModelError(error, provider.id);
+        // Once part of a reply has gone out, a retry would repeat it
+        if (attempt >= this.maxRetries || streamed() || request.signal?.aborted || !RETRYABLE_CHAT_ERRORS.includes(chatError.errorType)) {
+          throw chatError;
+        }
+        const delay = this.retryBaseDelayMs * Math.pow(2, attempt);
+        console.log(`🔁 Retrying ${provider.modelId} in ${delay}ms after ${chatError.errorType}`);
+        await sleep(delay);
+      }
+    }
+  }
+}
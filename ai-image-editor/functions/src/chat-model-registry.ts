@@ -0,0 +1,55 @@
+// Chat model registry: which provider answers a user's chat turns
+import * as admin from 'firebase-admin';
+import { AnthropicChatProvider, OpenAIChatProvider } from './http-chat-providers';
+import { GeminiChatProvider } from './gemini-chat-provider';
+import { ChatModelProvider, ChatProviderId, ModelProviderPreference } from './chat-model-types';
+
+export const GEMINI_CHAT_MODEL = 'gemini-2.0-flash-exp';
+
+export class ChatModelRegistry {
+  private static instance: ChatModelRegistry;
+  private providers = new Map<ChatProviderId, ChatModelProvider>();
+
+  private constructor() {
+    this.register(new GeminiChatProvider(GEMINI_CHAT_MODEL, { inputPer1kUsd: 0.075, outputPer1kUsd: 0.30 }));
+    this.register(new OpenAIChatProvider('gpt-4-turbo', { inputPer1kUsd: 10.0, outputPer1kUsd: 30.0 }, 4096));
+    this.register(new AnthropicChatProvider('claude-3-5-sonnet-20241022', { inputPer1kUsd: 3.0, outputPer1kUsd: 15.0 }, 8192));
+  }
+
+  public static getInstance(): ChatModelRegistry {
+    if (!ChatModelRegistry.instance) {
+      ChatModelRegistry.instance = new ChatModelRegistry();
+    }
+    return ChatModelRegistry.instance;
+  }
+
+  register(provider: ChatModelProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  // Configured providers in the order a turn should try them: the preferred one, then Gemini (the
+  // model the prompt is packed for), then the rest. 'auto' is the same as preferring Gemini.
+  candidates(preference: ModelProviderPreference): ChatModelProvider[] {
+    const first: ChatProviderId[] = preference === 'gpt' || preference === 'claude' ? [preference, 'gemini'] : ['gemini'];
+    const order = [...first, ...[...this.providers.keys()].filter(id => !first.includes(id))];
+    return order
+      .map(id => this.providers.get(id))
+      .filter((provider): provider is ChatModelProvider => !!provider && provider.isConfigured());
+  }
+
+  // Failovers are kept with the other memory events so users can see why the model changed
+  async recordModelSwitch(userId: string, conversationId: string, fromModel: string, toModel: string, reason: string): Promise<void> {
+    console.log(`🔀 Switching model ${fromModel} → ${toModel}: ${reason}`);
+    try {
+      await admin.firestore().collection('memoryEvents').add({
+        type: 'model_switched',
+        userId,
+        conversationId,
+        metadata: { fromModel, toModel, reason },
+        timestamp: admin.firestore.Timestamp.now()
+      });
+    } catch (error) {
+      console.error('Error recording model switch:', error);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+// Chat model provider types for Firebase Functions
+// GPT and Claude answer chat turns for users who prefer them; Gemini remains the default and the
+// fallback. Provider keys live in functions config, never in the browser.
+
+export type ChatProviderId = 'gemini' | 'gpt' | 'claude';
+
+// Mirrors MemorySettings.preferredModelProvider in lib/types/memory.ts
+export type ModelProviderPreference = 'gemini' | 'gpt' | 'claude' | 'auto';
+
+export const MODEL_PROVIDER_PREFERENCES: ModelProviderPreference[] = ['gemini', 'gpt', 'claude', 'auto'];
+
+export interface ChatModelRequest {
+  prompt: string; // the packed contextual prompt
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal; // aborted when the caller no longer wants the reply
+}
+
+export interface ChatModelResult {
+  text: string;
+  providerId: ChatProviderId;
+  modelId: string;
+  tokenCount: { input: number; output: number };
+  costUsd: number;
+  finishReason?: string;
+  requestId?: string;
+}
+
+export interface ChatModelPricing {
+  inputPer1kUsd: number;
+  outputPer1kUsd: number;
+}
+
+export const chatCostUsd = (pricing: ChatModelPricing, input: number, output: number): number =>
+  (input * pricing.inputPer1kUsd + output * pricing.outputPer1kUsd) / 1000;
+
+export interface ChatModelProvider {
+  id: ChatProviderId;
+  modelId: string;
+  pricing: ChatModelPricing;
+  isConfigured(): boolean;
+  generate(request: ChatModelRequest): Promise<ChatModelResult>;
+  // Providers that can stream call onDelta as text arrives; the result still carries the whole reply
+  stream?(request: ChatModelRequest, onDelta: (text: string) => void): Promise<ChatModelResult>;
+}
+
+export type ChatModelErrorType =
+  | 'configuration_error'
+  | 'authentication_error'
+  | 'rate_limit_error'
+  | 'invalid_request_error'
+  | 'server_error'
+  | 'network_error'
+  | 'timeout_error'
+  | 'content_blocked';
+
+export const chatErrorTypeForStatus = (status: number): ChatModelErrorType => {
+  if (status === 401 || status === 403) return 'authentication_error';
+  if (status === 429) return 'rate_limit_error';
+  if (status >= 500) return 'server_error'; // includes Anthropic's 529 overloaded
+  return 'invalid_request_error';
+};
+
+// Worth another try against the same provider after a backoff
+export const RETRYABLE_CHAT_ERRORS: ChatModelErrorType[] = ['rate_limit_error', 'server_error', 'network_error', 'timeout_error'];
+
+export class ChatModelError extends Error {
+  constructor(
+    message: string,
+    public readonly providerId: ChatProviderId,
+    public readonly errorType: ChatModelErrorType,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ChatModelError';
+  }
+}
+
+// The model refused to answer. Another provider isn't tried, since the prompt itself was the problem.
+export class ChatContentBlockedError extends ChatModelError {
+  constructor(
+    message: string,
+    providerId: ChatProviderId,
+    public readonly blockedReason: 'CONTENT_VIOLATION' | 'SAFETY_VIOLATION'
+  ) {
+    super(message, providerId, 'content_blocked');
+    this.name = 'ChatContentBlockedError';
+  }
+}
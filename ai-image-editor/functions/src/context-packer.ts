@@ -0,0 +1,96 @@
+// Priority-ordered packing of memory context into a prompt token budget
+// The only packer: clients get packed context and its token breakdown from POST /memory/context.
+import { TokenCounter, truncateToTokens } from './token-counter';
+
+export interface ContextSection<K extends string> {
+  key: K;
+  header: string;
+  items: string[]; // most important first, unless newestLast is set
+  separator: string;
+  newestLast?: boolean; // chronological items: fill from the end, emit in original order
+}
+
+export interface PackedSection {
+  text: string; // header plus kept items, or '' when nothing fit
+  kept: string[]; // in output order; the last one taken may have been truncated
+  indices: number[]; // input position of each kept item
+  tokens: number;
+  dropped: number;
+  truncated: boolean;
+}
+
+// An item cut down to less than this isn't worth including
+const MIN_TRUNCATED_TOKENS = 24;
+
+/**
+ * Fill sections in array order until the budget runs out. Items are taken whole while they
+ * fit; the first one that doesn't is cut to the remaining space (when that is worthwhile) and
+ * the rest of its section is dropped. Lower-priority sections then get whatever is left.
+ * The result depends only on the inputs, so the same memories always pack the same way.
+ */
+export const packSections = <K extends string>(
+  sections: ContextSection<K>[],
+  budget: number,
+  counter: TokenCounter
+): Record<K, PackedSection> => {
+  const packed = {} as Record<K, PackedSection>;
+  let remaining = Math.max(0, budget);
+
+  for (const section of sections) {
+    const order = section.items.map((_, index) => index);
+    if (section.newestLast) {
+      order.reverse();
+    }
+    // The header line, plus the blank line separating this section from the previous one
+    const headerTokens = counter.count(`${section.header}\n`) + 1;
+    const separatorTokens = counter.count(section.separator);
+    const kept: Array<{ index: number; text: string }> = [];
+    let tokens = 0;
+    let truncated = false;
+
+    if (order.length > 0 && remaining > headerTokens) {
+      let available = remaining - headerTokens;
+
+      for (const index of order) {
+        const item = section.items[index];
+        const cost = counter.count(item) + separatorTokens;
+        if (cost <= available) {
+          kept.push({ index, text: item });
+          available -= cost;
+          tokens += cost;
+          continue;
+        }
+
+        if (available - separatorTokens >= MIN_TRUNCATED_TOKENS) {
+          const cut = truncateToTokens(item, available - separatorTokens, counter);
+          if (cut) {
+            kept.push({ index, text: cut });
+            tokens += counter.count(cut) + separatorTokens;
+            truncated = true;
+          }
+        }
+        break;
+      }
+    }
+
+    const items = section.newestLast ? kept.reverse() : kept;
+    const texts = items.map(item => item.text);
+    if (items.length > 0) {
+      tokens += headerTokens;
+      remaining -= tokens;
+    } else {
+      tokens = 0;
+    }
+
+    packed[section.key] = {
+      text: texts.length > 0 ? `${section.header}\n${texts.join(section.separator)}` : '',
+      kept: texts,
+      indices: items.map(item => item.index),
+      tokens,
+      dropped: section.items.length - items.length,
+      truncated
+    };
+  }
+
+  return packed;
+};
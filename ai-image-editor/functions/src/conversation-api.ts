@@ -0,0 +1,50 @@
+// Conversation API endpoints
+// Conversation docs are written by the message triggers; these endpoints rebuild or delete them.
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { rebuildUserConversations } from './conversation-metadata';
+import { deleteConversation } from './conversation-delete';
+
+// Conversation ids are client-generated, e.g. image_1712345678901_k3j9x2a1b
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,200}$/;
+
+// API: POST /conversations/rebuild - Recreate the caller's conversation docs from their messages
+export const conversationsRebuild = async (req: functions.Request, res: functions.Response, userId: string): Promise<void> => {
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const result = await rebuildUserConversations(admin.firestore(), userId);
+    res.status(200).json({ success: true, ...result });
+
+  } catch (error) {
+    console.error('Error rebuilding conversations:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// API: DELETE /conversations/:id - Delete a conversation with its images and memories
+// Deleting a conversation that is already gone succeeds with an all-zero report
+export const conversationDelete = async (req: functions.Request, res: functions.Response, userId: string): Promise<void> => {
+  if (req.method !== 'DELETE') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const conversationId = req.params.id;
+    if (!CONVERSATION_ID_PATTERN.test(conversationId || '')) {
+      res.status(400).json({ error: 'Invalid conversation id' });
+      return;
+    }
+
+    const report = await deleteConversation(admin.firestore(), userId, conversationId);
+    res.status(200).json({ success: true, ...report });
+
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,143 @@
+// Deleting a conversation and everything derived from it
+// Storage objects go first and the messages that reference them last, so a run that fails part
+// way leaves enough behind for a retry to finish the job. Every step is scoped to the caller and
+// tolerates work already done, which makes repeating a delete safe.
+import * as admin from 'firebase-admin';
+import { ConversationDeleteReport, conversationDocId } from './conversation-types';
+import { GeneratedImageStore } from './generated-image-store';
+import { SemanticMemoryService } from './semantic-memory-service';
+import { EpisodicMemoryService } from './episodic-memory-service';
+import { ShortTermMemoryService } from './short-term-memory-service';
+
+const BATCH_SIZE = 500;
+const IN_QUERY_LIMIT = 30;
+
+interface ObjectReferences {
+  urls: Set<string>; // download URLs as the messages store them
+  paths: Set<string>;
+}
+
+/**
+ * Storage objects the given messages point at. Only objects under the caller's own
+ * images/{uid}/ prefix are returned, whatever URLs the messages hold.
+ */
+const referencedObjects = (
+  store: GeneratedImageStore,
+  userId: string,
+  messages: admin.firestore.QueryDocumentSnapshot[]
+): ObjectReferences => {
+  const references: ObjectReferences = { urls: new Set(), paths: new Set() };
+  const isOwn = (path: string | null): path is string => !!path && path.startsWith(`images/${userId}/`);
+
+  for (const doc of messages) {
+    const data = doc.data();
+    const urls: unknown[] = [
+      ...(Array.isArray(data.images) ? data.images : []),
+      ...(Array.isArray(data.originalImages) ? data.originalImages : []),
+      data.generatedImage
+    ];
+    urls.forEach(url => {
+      const path = typeof url === 'string' ? store.pathFromUrl(url) : null;
+      if (typeof url === 'string' && isOwn(path)) {
+        references.urls.add(url);
+        references.paths.add(path);
+      }
+    });
+    if (isOwn(data.generatedImagePath)) references.paths.add(data.generatedImagePath);
+  }
+  return references;
+};
+
+const chunks = <T>(items: T[]): T[][] => {
+  const result: T[][] = [];
+  for (let start = 0; start < items.length; start += IN_QUERY_LIMIT) {
+    result.push(items.slice(start, start + IN_QUERY_LIMIT));
+  }
+  return result;
+};
+
+/**
+ * Objects another conversation still shows. Generated images are stored once per content hash,
+ * and an image can be carried into another conversation as an upload or edit source, so both the
+ * stored paths and the URLs in images/originalImages are looked up.
+ */
+const sharedObjects = async (
+  db: admin.firestore.Firestore,
+  store: GeneratedImageStore,
+  userId: string,
+  conversationId: string,
+  references: ObjectReferences
+): Promise<Set<string>> => {
+  const messages = db.collection('messages').where('userId', '==', userId);
+  const urls = Array.from(references.urls);
+  const lookups = [
+    ...chunks(Array.from(references.paths)).map(paths => messages.where('generatedImagePath', 'in', paths)),
+    ...chunks(urls).map(batch => messages.where('generatedImage', 'in', batch)),
+    ...chunks(urls).map(batch => messages.where('images', 'array-contains-any', batch)),
+    ...chunks(urls).map(batch => messages.where('originalImages', 'array-contains-any', batch))
+  ];
+
+  const others = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+  for (const lookup of lookups) {
+    const snapshot = await lookup.get();
+    snapshot.docs
+      .filter(doc => doc.data().conversationId !== conversationId)
+      .forEach(doc => others.set(doc.id, doc));
+  }
+
+  const stillShown = referencedObjects(store, userId, Array.from(others.values())).paths;
+  return new Set(Array.from(references.paths).filter(path => stillShown.has(path)));
+};
+
+export const deleteConversation = async (
+  db: admin.firestore.Firestore,
+  userId: string,
+  conversationId: string
+): Promise<ConversationDeleteReport> => {
+  const store = GeneratedImageStore.getInstance();
+  const messages = await db.collection('messages')
+    .where('userId', '==', userId)
+    .where('conversationId', '==', conversationId)
+    .get();
+
+  const references = referencedObjects(store, userId, messages.docs);
+  const shared = await sharedObjects(db, store, userId, conversationId, references);
+  const removable = Array.from(references.paths).filter(path => !shared.has(path));
+  await Promise.all(removable.map(path => store.delete(path)));
+
+  // Memories are removed before the messages too, so a retry still finds the conversation
+  const [semantic, episodicDeleted, shortTermCleared] = await Promise.all([
+    SemanticMemoryService.getInstance().forgetConversation(userId, conversationId),
+    EpisodicMemoryService.getInstance().forgetConversation(userId, conversationId),
+    ShortTermMemoryService.getInstance().clearConversation(conversationId, userId)
+  ]);
+
+  // Firestore batches are capped at 500 writes
+  for (let start = 0; start < messages.docs.length; start += BATCH_SIZE) {
+    const batch = db.batch();
+    messages.docs.slice(start, start + BATCH_SIZE).forEach(doc => batch.delete(doc.ref));
+    await batch.commit();
+  }
+
+  // The message trigger would remove it as well; doing it here makes the list update at once
+  const conversationRef = db.collection('conversations').doc(conversationDocId(userId, conversationId));
+  const conversationDocDeleted = await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(conversationRef);
+    if (!snapshot.exists) return false;
+    transaction.delete(conversationRef);
+    return true;
+  });
+
+  const report: ConversationDeleteReport = {
+    conversationId,
+    messagesDeleted: messages.size,
+    storageObjectsDeleted: removable.length,
+    storageObjectsKept: shared.size,
+    semantic,
+    episodicDeleted,
+    shortTermCleared,
+    conversationDocDeleted
+  };
+  console.log(`🗑️ Deleted conversation ${conversationId} for user ${userId}:`, report);
+  return report;
+};
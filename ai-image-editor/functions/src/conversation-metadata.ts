@@ -0,0 +1,312 @@
+// Server-maintained conversation documents
+// Each new or edited message is folded into its conversation doc, which is all the trigger reads.
+// A deleted message can't be subtracted back out, so deletes, messages moved between threads
+// and threads without a doc yet rebuild the doc from the whole thread instead. Tags are copied
+// from the conversation's episodic memory.
+import * as admin from 'firebase-admin';
+import { ConversationDoc, ConversationRebuildResult, ConversationType, conversationDocId } from './conversation-types';
+
+type Fields = admin.firestore.DocumentData;
+
+export interface ConversationMessage {
+  id: string;
+  data: Fields;
+}
+
+const TITLE_LENGTH = 50;
+const PREVIEW_LENGTH = 100;
+const MAX_TAGS = 10;
+const BATCH_SIZE = 500;
+// Trigger deliveries are retried, so the latest counted message ids are kept to skip repeats
+const COUNTED_MESSAGE_IDS = 20;
+
+const toMillis = (value?: { toMillis?: () => number }): number => value?.toMillis?.() || 0;
+
+// Only URLs another device can load make a thumbnail; `local:` keys and data URLs don't
+const isShareableUrl = (value: unknown): value is string =>
+  typeof value === 'string' && /^https?:\/\//.test(value);
+
+const oneLine = (text: string, length: number): string => text.replace(/\s+/g, ' ').trim().substring(0, length);
+
+const hasText = (message: Fields): boolean => typeof message.text === 'string' && message.text.trim().length > 0;
+
+const firstUpload = (message: Fields): string | null =>
+  Array.isArray(message.images) && isShareableUrl(message.images[0]) ? message.images[0] : null;
+
+const tagsOf = (episode?: Fields): string[] =>
+  Array.isArray(episode?.keyTopics)
+    ? episode.keyTopics.filter((topic: unknown): topic is string => typeof topic === 'string').slice(0, MAX_TAGS)
+    : [];
+
+// Messages from before conversationType was stored fall back on the ID prefix
+const messageType = (conversationId: string, message: Fields): 'text' | 'image' => {
+  if (message.conversationType === 'image' || message.conversationType === 'text') return message.conversationType;
+  if (conversationId.startsWith('image_')) return 'image';
+  if (conversationId.startsWith('text_')) return 'text';
+  return message.images?.length || message.generatedImage ? 'image' : 'text';
+};
+
+const mergeType = (current: ConversationType | undefined, next: 'text' | 'image'): ConversationType =>
+  !current || current === next ? next : 'mixed';
+
+const defaultTitle = (type: ConversationType): string =>
+  type === 'image' ? 'Image Chat' : type === 'text' ? 'Text Chat' : 'Chat';
+
+const defaultPreview = (type: ConversationType): string =>
+  type === 'text' ? 'Text conversation' : 'Image conversation';
+
+/**
+ * The conversation doc for a thread's messages. Fields users may later control (tags, memory and
+ * privacy settings) and the creation time are kept from the existing doc.
+ */
+export const summarizeConversation = (
+  conversationId: string,
+  userId: string,
+  messages: ConversationMessage[],
+  existing?: Fields,
+  episode?: Fields
+): ConversationDoc => {
+  const ordered = [...messages].sort((a, b) => toMillis(a.data.timestamp) - toMillis(b.data.timestamp));
+  const newestFirst = [...ordered].reverse();
+  const first = ordered[0].data;
+  const last = ordered[ordered.length - 1].data;
+  const type = ordered.reduce<ConversationType | undefined>((current, { data }) =>
+    mergeType(current, messageType(conversationId, data)), undefined) || 'text';
+
+  const firstPrompt = ordered.find(({ data }) => data.isUser && hasText(data))?.data;
+  const latestText = newestFirst.find(({ data }) => hasText(data))?.data;
+  const latestImage = newestFirst.find(({ data }) => isShareableUrl(data.generatedImage))?.data;
+  const upload = ordered.map(({ data }) => firstUpload(data)).find(url => url !== null);
+
+  return {
+    userId,
+    conversationId,
+    title: firstPrompt ? oneLine(firstPrompt.text, TITLE_LENGTH) : defaultTitle(type),
+    titleFrom: firstPrompt?.timestamp || null,
+    type,
+    tags: existing ? (existing.tags || []) : tagsOf(episode),
+    messageCount: ordered.length,
+    countedMessageIds: ordered.slice(-COUNTED_MESSAGE_IDS).map(({ id }) => id),
+    lastMessage: latestText
+      ? oneLine(latestText.text, PREVIEW_LENGTH)
+      : (latestImage ? 'Generated image' : defaultPreview(type)),
+    thumbnail: latestImage?.generatedImage || upload || null,
+    thumbnailFrom: latestImage?.timestamp || null,
+    createdAt: existing?.createdAt || first.timestamp || admin.firestore.Timestamp.now(),
+    lastMessageAt: last.timestamp || admin.firestore.Timestamp.now(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    isActive: existing?.isActive ?? true,
+    memoryEnabled: existing?.memoryEnabled ?? true,
+    privacyLevel: existing?.privacyLevel || 'full'
+  };
+};
+
+/**
+ * The changes one new or edited message makes to its conversation doc. A message is counted once
+ * however often its trigger is delivered; previews only move forward in time, so messages that
+ * arrive out of order don't replace newer ones.
+ */
+export const applyMessage = (
+  conversation: Fields,
+  message: ConversationMessage,
+  isNew: boolean
+): Partial<ConversationDoc> => {
+  const { data } = message;
+  const timestamp: admin.firestore.Timestamp = data.timestamp || admin.firestore.Timestamp.now();
+  const counted: string[] = Array.isArray(conversation.countedMessageIds) ? conversation.countedMessageIds : [];
+  const type = mergeType(conversation.type, messageType(data.conversationId, data));
+  const update: Partial<ConversationDoc> = { type, updatedAt: admin.firestore.FieldValue.serverTimestamp() };
+
+  if (isNew && !counted.includes(message.id)) {
+    update.messageCount = (conversation.messageCount || 0) + 1;
+    update.countedMessageIds = [...counted, message.id].slice(-COUNTED_MESSAGE_IDS);
+  }
+
+  if (data.isUser && hasText(data) && (!conversation.titleFrom || toMillis(timestamp) <= toMillis(conversation.titleFrom))) {
+    update.title = oneLine(data.text, TITLE_LENGTH);
+    update.titleFrom = timestamp;
+  } else if (!conversation.titleFrom && type !== conversation.type) {
+    update.title = defaultTitle(type);
+  }
+
+  if (toMillis(timestamp) >= toMillis(conversation.lastMessageAt)) {
+    update.lastMessageAt = timestamp;
+    if (hasText(data)) {
+      update.lastMessage = oneLine(data.text, PREVIEW_LENGTH);
+    } else if (isShareableUrl(data.generatedImage)) {
+      update.lastMessage = 'Generated image';
+    }
+  }
+  if (toMillis(timestamp) < toMillis(conversation.createdAt)) {
+    update.createdAt = timestamp;
+  }
+
+  // The latest generated image wins; an upload only fills a conversation without a thumbnail
+  if (isShareableUrl(data.generatedImage) && toMillis(timestamp) >= toMillis(conversation.thumbnailFrom)) {
+    update.thumbnail = data.generatedImage;
+    update.thumbnailFrom = timestamp;
+  } else if (!conversation.thumbnail && firstUpload(data)) {
+    update.thumbnail = firstUpload(data);
+  }
+
+  return update;
+};
+
+/**
+ * Recompute one conversation doc from its messages, deleting it once none remain. Used when an
+ * incremental update can't be trusted; it reads the whole thread.
+ */
+export const rebuildConversation = async (
+  db: admin.firestore.Firestore,
+  userId: string,
+  conversationId: string
+): Promise<'written' | 'removed' | 'skipped'> => {
+  const ref = db.collection('conversations').doc(conversationDocId(userId, conversationId));
+  const messagesQuery = db.collection('messages')
+    .where('userId', '==', userId)
+    .where('conversationId', '==', conversationId);
+
+  return db.runTransaction(async transaction => {
+    const [snapshot, messages] = await Promise.all([transaction.get(ref), transaction.get(messagesQuery)]);
+    const existing = snapshot.exists ? snapshot.data() : undefined;
+
+    if (messages.empty) {
+      if (existing) transaction.delete(ref);
+      return existing ? 'removed' : 'skipped';
+    }
+
+    const episode = existing
+      ? undefined
+      : (await transaction.get(db.collection('episodicMemories').doc(`epi_${conversationId}_${userId}`))).data();
+    const thread = messages.docs.map(doc => ({ id: doc.id, data: doc.data() }));
+    transaction.set(ref, summarizeConversation(conversationId, userId, thread, existing, episode));
+    return 'written';
+  });
+};
+
+// Fold a new or edited message into its conversation doc, building the doc if there is none yet
+const updateConversation = async (
+  db: admin.firestore.Firestore,
+  message: ConversationMessage,
+  isNew: boolean
+): Promise<void> => {
+  const { userId, conversationId } = message.data;
+  const ref = db.collection('conversations').doc(conversationDocId(userId, conversationId));
+
+  const updated = await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) return false;
+    transaction.update(ref, applyMessage(snapshot.data() || {}, message, isNew));
+    return true;
+  });
+  if (!updated) {
+    await rebuildConversation(db, userId, conversationId);
+  }
+};
+
+const threadOf = (data?: Fields): { userId: string; conversationId: string } | null =>
+  typeof data?.userId === 'string' && typeof data?.conversationId === 'string' && data.conversationId
+    ? { userId: data.userId, conversationId: data.conversationId }
+    : null;
+
+// Trigger body for messages/{messageId} writes
+export const onMessageWritten = async (
+  db: admin.firestore.Firestore,
+  change: { before: admin.firestore.DocumentSnapshot; after: admin.firestore.DocumentSnapshot }
+): Promise<void> => {
+  const before = threadOf(change.before.data());
+  const after = threadOf(change.after.data());
+
+  if (after && (!before || (before.userId === after.userId && before.conversationId === after.conversationId))) {
+    await updateConversation(db, { id: change.after.id, data: change.after.data() || {} }, !before);
+    return;
+  }
+
+  // Deleted, or moved to another thread: the old thread has to be recounted
+  if (before) {
+    await rebuildConversation(db, before.userId, before.conversationId);
+  }
+  if (after) {
+    await updateConversation(db, { id: change.after.id, data: change.after.data() || {} }, true);
+  }
+};
+
+// Trigger body for episodicMemories/{episodeId} writes: copy key topics to the conversation's tags
+export const onEpisodeWritten = async (
+  db: admin.firestore.Firestore,
+  change: { before: admin.firestore.DocumentSnapshot; after: admin.firestore.DocumentSnapshot }
+): Promise<void> => {
+  const episode = change.after.data() || change.before.data();
+  const thread = threadOf(episode);
+  if (!thread) {
+    return;
+  }
+
+  const ref = db.collection('conversations').doc(conversationDocId(thread.userId, thread.conversationId));
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) return;
+    transaction.update(ref, {
+      tags: tagsOf(change.after.data()),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+  });
+};
+
+/**
+ * Rebuild all of a user's conversation docs in one pass over their messages, for threads that
+ * predate the triggers. Docs of theirs with no messages left are removed, as are docs keyed only
+ * by conversation id from before docs were keyed by user too.
+ */
+export const rebuildUserConversations = async (
+  db: admin.firestore.Firestore,
+  userId: string
+): Promise<ConversationRebuildResult> => {
+  const [messagesSnapshot, conversationsSnapshot, episodesSnapshot] = await Promise.all([
+    db.collection('messages').where('userId', '==', userId).get(),
+    db.collection('conversations').where('userId', '==', userId).get(),
+    db.collection('episodicMemories').where('userId', '==', userId).get()
+  ]);
+
+  const threads = new Map<string, ConversationMessage[]>();
+  messagesSnapshot.docs.forEach(doc => {
+    const data = doc.data();
+    if (typeof data.conversationId !== 'string' || !data.conversationId) return;
+    threads.set(data.conversationId, [...(threads.get(data.conversationId) || []), { id: doc.id, data }]);
+  });
+  const existing = new Map(conversationsSnapshot.docs.map(doc => [doc.id, doc.data()] as [string, Fields]));
+  const episodes = new Map(episodesSnapshot.docs.map(doc => [doc.data().conversationId, doc.data()] as [string, Fields]));
+
+  const result: ConversationRebuildResult = { conversations: 0, removed: 0 };
+  let batch = db.batch();
+  let pending = 0;
+  const queue = async (write: (batch: admin.firestore.WriteBatch) => void) => {
+    write(batch);
+    if (++pending === BATCH_SIZE) {
+      await batch.commit();
+      batch = db.batch();
+      pending = 0;
+    }
+  };
+
+  const written = new Set<string>();
+  for (const [conversationId, messages] of Array.from(threads.entries())) {
+    const docId = conversationDocId(userId, conversationId);
+    // Settings kept on a doc from before the re-keying carry over to its replacement
+    const previous = existing.get(docId) || existing.get(conversationId);
+    await queue(b => b.set(db.collection('conversations').doc(docId), summarizeConversation(
+      conversationId, userId, messages, previous, episodes.get(conversationId)
+    )));
+    written.add(docId);
+    result.conversations++;
+  }
+  for (const docId of Array.from(existing.keys())) {
+    if (written.has(docId)) continue;
+    await queue(b => b.delete(db.collection('conversations').doc(docId)));
+    result.removed++;
+  }
+  if (pending > 0) await batch.commit();
+
+  console.log(`💬 Rebuilt ${result.conversations} conversation(s) for user ${userId}, removed ${result.removed}`);
+  return result;
+};
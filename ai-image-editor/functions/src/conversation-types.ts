@@ -0,0 +1,51 @@
+// Conversation documents for Firebase Functions
+// One doc per thread in `conversations/{userId}_{conversationId}`, derived from its messages by
+// triggers. Conversation ids are chosen by clients, so the owner is part of the key.
+// Mirrors ConversationMetadata in lib/types/memory.ts.
+import * as admin from 'firebase-admin';
+
+export const conversationDocId = (userId: string, conversationId: string): string => `${userId}_${conversationId}`;
+
+export type ConversationType = 'text' | 'image' | 'mixed';
+
+export interface ConversationDoc {
+  userId: string;
+  conversationId: string;
+  title: string;
+  titleFrom: admin.firestore.Timestamp | null; // the prompt the title was taken from, if any
+  type: ConversationType;
+  tags: string[]; // key topics of the conversation's episodic memory
+  messageCount: number;
+  countedMessageIds: string[]; // the latest messages counted, so repeated triggers count once
+  lastMessage: string; // preview of the latest message
+  thumbnail: string | null; // latest generated image, else the first uploaded one
+  thumbnailFrom: admin.firestore.Timestamp | null; // when the generated thumbnail was sent
+  createdAt: admin.firestore.Timestamp;
+  lastMessageAt: admin.firestore.Timestamp;
+  updatedAt: admin.firestore.FieldValue;
+  isActive: boolean;
+  memoryEnabled: boolean;
+  privacyLevel: 'full' | 'limited' | 'none';
+}
+
+export interface ConversationRebuildResult {
+  conversations: number; // conversation docs written
+  removed: number; // docs deleted because no messages remain, or keyed the old way
+}
+
+/**
+ * What deleting a conversation removed. The delete is not one transaction: Storage objects can't
+ * take part in one, and a thread can outgrow a single 500-write batch, so objects, memories,
+ * messages and the conversation doc go in sequence. A delete that fails part way leaves the
+ * conversation partly removed, and calling it again finishes the job.
+ */
+export interface ConversationDeleteReport {
+  conversationId: string;
+  messagesDeleted: number;
+  storageObjectsDeleted: number; // uploaded and generated images removed from Cloud Storage
+  storageObjectsKept: number; // images another conversation still shows
+  semantic: { deleted: number; updated: number; restored: number };
+  episodicDeleted: number;
+  shortTermCleared: boolean;
+  conversationDocDeleted: boolean;
+}
@@ -0,0 +1,195 @@
+// Embedding backend selection and cosine-similarity ranking over memory documents
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { GeminiEmbedder } from './gemini-embedder';
+import { HashingEmbedder } from './hashing-embedder';
+import { Embedder, EmbeddingBackend, StoredEmbedding } from './embedding-types';
+
+export interface RankedDocument {
+  doc: admin.firestore.QueryDocumentSnapshot;
+  score: number;
+}
+
+// The text each memory type is embedded from; writes and searches must agree on it
+export const semanticMemoryText = (data: admin.firestore.DocumentData): string => data.content || '';
+export const episodicMemoryText = (data: admin.firestore.DocumentData): string => data.summary || '';
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+// Select with EMBEDDING_BACKEND or `firebase functions:config:set embeddings.backend=hashing`;
+// defaults to Gemini when an API key is configured
+const configuredEmbedder = (): Embedder => {
+  const configured = process.env.EMBEDDING_BACKEND || functions.config().embeddings?.backend;
+  const backend: EmbeddingBackend = configured === 'hashing' || configured === 'gemini'
+    ? configured
+    : functions.config().gemini?.api_key ? 'gemini' : 'hashing';
+  return backend === 'gemini' ? new GeminiEmbedder() : new HashingEmbedder();
+};
+
+export class EmbeddingService {
+  private static instance: EmbeddingService;
+  private fallback = new HashingEmbedder();
+
+  constructor(private readonly embedder: Embedder = configuredEmbedder()) {
+    console.log(`🧭 Using ${this.embedder.id} embeddings`);
+  }
+
+  public static getInstance(): EmbeddingService {
+    if (!EmbeddingService.instance) {
+      EmbeddingService.instance = new EmbeddingService();
+    }
+    return EmbeddingService.instance;
+  }
+
+  // Embedding fields for a new memory document. Never throws: on failure the vector is
+  // left empty and filled in the next time the memory is searched.
+  async embedForStorage(text: string): Promise<StoredEmbedding> {
+    const [stored] = await this.embedManyForStorage([text]);
+    return stored;
+  }
+
+  async embedManyForStorage(texts: string[]): Promise<StoredEmbedding[]> {
+    try {
+      const vectors = await this.embedder.embed(texts);
+      return vectors.map(embedding => ({ embedding, embeddingModel: this.embedder.id }));
+    } catch (error) {
+      console.error('Error generating embeddings:', error);
+      return texts.map(() => ({ embedding: [], embeddingModel: null }));
+    }
+  }
+
+  // Similarity at or above which two texts embedded by the current backend say the same thing
+  get duplicateThreshold(): number {
+    return this.embedder.duplicateThreshold;
+  }
+
+  // Current-backend vectors for documents, in order, backfilling stale ones. Never throws:
+  // documents that can't be embedded get an empty vector, which matches nothing.
+  async storedVectors(
+    docs: admin.firestore.QueryDocumentSnapshot[],
+    textOf: (data: admin.firestore.DocumentData) => string
+  ): Promise<number[][]> {
+    const candidates = docs.filter(doc => textOf(doc.data()).trim().length > 0);
+    let vectors: number[][] = [];
+    try {
+      vectors = await this.currentVectors(candidates, textOf, []);
+    } catch (error) {
+      console.error('Error embedding stored documents:', error);
+    }
+
+    const byId = new Map<string, number[]>();
+    candidates.forEach((doc, index) => byId.set(doc.id, vectors[index] || []));
+    return docs.map(doc => byId.get(doc.id) || []);
+  }
+
+  /**
+   * Score documents against a query by cosine similarity, best first, dropping those below
+   * the embedder's relevance threshold. Documents whose stored vector is missing or came from
+   * another embedder are re-embedded and the new vector is saved back.
+   */
+  async rank(
+    docs: admin.firestore.QueryDocumentSnapshot[],
+    query: string,
+    textOf: (data: admin.firestore.DocumentData) => string,
+    minScore?: number
+  ): Promise<RankedDocument[]> {
+    const { embedder, scored } = await this.score(docs, query, textOf);
+    const threshold = minScore ?? embedder.relevanceThreshold;
+    return scored.filter(result => result.score >= threshold);
+  }
+
+  /**
+   * Rank documents against `text` in one scoring pass, and pick out those that restate it
+   * closely enough to be treated as the same memory. Duplicates are also in `relevant`.
+   * The thresholds are those of whichever embedder did the scoring, since the fallback
+   * scores differently.
+   */
+  async rankWithDuplicates(
+    docs: admin.firestore.QueryDocumentSnapshot[],
+    text: string,
+    textOf: (data: admin.firestore.DocumentData) => string
+  ): Promise<{ relevant: RankedDocument[]; duplicates: RankedDocument[] }> {
+    const { embedder, scored } = await this.score(docs, text, textOf);
+    return {
+      relevant: scored.filter(result => result.score >= embedder.relevanceThreshold),
+      duplicates: scored.filter(result => result.score >= embedder.duplicateThreshold)
+    };
+  }
+
+  // Every document with text, best first, and the embedder that scored them
+  private async score(
+    docs: admin.firestore.QueryDocumentSnapshot[],
+    query: string,
+    textOf: (data: admin.firestore.DocumentData) => string
+  ): Promise<{ embedder: Embedder; scored: RankedDocument[] }> {
+    const candidates = docs.filter(doc => textOf(doc.data()).trim().length > 0);
+    if (candidates.length === 0) return { embedder: this.embedder, scored: [] };
+
+    let embedder = this.embedder;
+    let vectors: number[][];
+    try {
+      vectors = await this.currentVectors(candidates, textOf, [query]);
+    } catch (error) {
+      // Keep search working if the embedding API is down; local vectors aren't persisted
+      console.error('Embedding backend failed, falling back to local hashing:', error);
+      embedder = this.fallback;
+      vectors = await embedder.embed([query, ...candidates.map(doc => textOf(doc.data()))]);
+    }
+
+    const [queryVector, ...docVectors] = vectors;
+    const scored = candidates
+      .map((doc, index) => ({ doc, score: cosineSimilarity(queryVector, docVectors[index]) }))
+      .sort((a, b) => b.score - a.score);
+    return { embedder, scored };
+  }
+
+  // One vector per query followed by one per document, backfilling stale ones
+  private async currentVectors(
+    docs: admin.firestore.QueryDocumentSnapshot[],
+    textOf: (data: admin.firestore.DocumentData) => string,
+    queries: string[]
+  ): Promise<number[][]> {
+    const stale = docs.filter(doc => {
+      const data = doc.data();
+      return data.embeddingModel !== this.embedder.id ||
+        !Array.isArray(data.embedding) ||
+        data.embedding.length !== this.embedder.dimension;
+    });
+
+    const embedded = await this.embedder.embed([
+      ...queries,
+      ...stale.map(doc => textOf(doc.data()))
+    ]);
+    const queryVectors = embedded.slice(0, queries.length);
+    const staleVectors = embedded.slice(queries.length);
+
+    const backfilled = new Map<string, number[]>();
+    stale.forEach((doc, index) => backfilled.set(doc.id, staleVectors[index]));
+
+    // Firestore batches are capped at 500 writes
+    for (let start = 0; start < stale.length; start += 500) {
+      const batch = stale[start].ref.firestore.batch();
+      for (const doc of stale.slice(start, start + 500)) {
+        batch.update(doc.ref, { embedding: backfilled.get(doc.id), embeddingModel: this.embedder.id });
+      }
+      batch.commit().catch(error => console.error('Error backfilling embeddings:', error));
+    }
+    if (stale.length > 0) {
+      console.log(`🧭 Backfilling ${stale.length} embeddings`);
+    }
+
+    return [...queryVectors, ...docs.map(doc => backfilled.get(doc.id) || doc.data().embedding)];
+  }
+}
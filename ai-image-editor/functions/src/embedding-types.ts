@@ -0,0 +1,17 @@
+// Text embedding backend types for Firebase Functions
+
+export interface Embedder {
+  id: string; // stored with each vector; vectors from different embedders aren't comparable
+  dimension: number;
+  relevanceThreshold: number; // cosine similarity below which a memory isn't considered a match
+  duplicateThreshold: number; // cosine similarity at or above which two memories say the same thing
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingBackend = 'gemini' | 'hashing';
+
+// Fields written alongside memory documents
+export interface StoredEmbedding {
+  embedding: number[];
+  embeddingModel: string | null;
+}
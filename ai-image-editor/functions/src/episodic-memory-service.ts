@@ -0,0 +1,195 @@
+// Episodic memory: one running summary per conversation, refreshed as the conversation grows
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { EmbeddingService, RankedDocument, episodicMemoryText } from './embedding-service';
+import { EpisodeSummary, MemorySettings, ShortTermMessage } from './memory-types';
+import { ShortTermWindow } from './short-term-memory-service';
+
+const SUMMARY_MODEL = 'gemini-2.0-flash-exp';
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+export class EpisodicMemoryService {
+  private static instance: EpisodicMemoryService;
+  private db: admin.firestore.Firestore;
+  private readonly MIN_MESSAGES_FOR_EPISODE = 5;
+  private readonly REFRESH_EVERY_MESSAGES = 10;
+  private readonly CANDIDATE_EPISODES = 20;
+
+  private constructor() {
+    this.db = admin.firestore();
+  }
+
+  public static getInstance(): EpisodicMemoryService {
+    if (!EpisodicMemoryService.instance) {
+      EpisodicMemoryService.instance = new EpisodicMemoryService();
+    }
+    return EpisodicMemoryService.instance;
+  }
+
+  // Summaries of the user's other recent conversations that relate to the query, best first
+  async findRelevant(userId: string, conversationId: string, query: string, limit: number): Promise<RankedDocument[]> {
+    const snapshot = await this.db.collection('episodicMemories')
+      .where('userId', '==', userId)
+      .orderBy('createdAt', 'desc')
+      .limit(this.CANDIDATE_EPISODES)
+      .get();
+
+    // The current conversation is already covered by its short-term window; episodes the user
+    // excluded from replies are never offered
+    const others = snapshot.docs.filter(doc =>
+      doc.data().conversationId !== conversationId && doc.data().excludeFromContext !== true
+    );
+    const ranked = await EmbeddingService.getInstance().rank(others, query, episodicMemoryText);
+    return ranked.slice(0, limit);
+  }
+
+  /**
+   * Create or refresh the conversation's episode once it has enough messages. The summary is
+   * rebuilt from the previous one plus the current short-term window, so it covers turns that
+   * have already scrolled out of the window.
+   */
+  async recordConversation(
+    userId: string,
+    conversationId: string,
+    window: ShortTermWindow,
+    settings: MemorySettings
+  ): Promise<void> {
+    if (window.messageCount < this.MIN_MESSAGES_FOR_EPISODE) {
+      return;
+    }
+
+    const ref = this.db.collection('episodicMemories').doc(`epi_${conversationId}_${userId}`);
+    const existing = await ref.get();
+    const previous = existing.data();
+    if (previous && window.messageCount - (previous.messageCount || 0) < this.REFRESH_EVERY_MESSAGES) {
+      return;
+    }
+
+    const summary = await this.summarize(window.messages, previous?.summary);
+    const { embedding, embeddingModel } = await EmbeddingService.getInstance().embedForStorage(summary.summary);
+    const timestamp = admin.firestore.Timestamp.now();
+    const startTime: admin.firestore.Timestamp = previous?.timespan?.startTime || window.messages[0]?.timestamp || timestamp;
+
+    await ref.set({
+      id: ref.id,
+      userId,
+      conversationId,
+      ...summary,
+      timespan: {
+        startTime,
+        endTime: timestamp,
+        duration: Math.round((timestamp.toMillis() - startTime.toMillis()) / 60000)
+      },
+      messageCount: window.messageCount,
+      modelProvidersUsed: Array.from(new Set([
+        ...asStringList(previous?.modelProvidersUsed),
+        ...window.messages.map(message => message.modelProvider).filter(Boolean)
+      ])),
+      category: previous?.category || 'general',
+      importance: previous?.importance ?? Math.min(0.5 + window.messageCount / 100, 1),
+      pinned: previous?.pinned === true,
+      embedding,
+      embeddingModel,
+      createdAt: previous?.createdAt || timestamp,
+      updatedAt: timestamp
+    });
+
+    if (!previous) {
+      await this.enforceLimit(userId, settings.maxEpisodicMemories);
+    }
+    console.log(`📚 ${previous ? 'Refreshed' : 'Created'} episodic memory for conversation ${conversationId}`);
+  }
+
+  // Delete the conversation's episode; returns how many were removed
+  async forgetConversation(userId: string, conversationId: string): Promise<number> {
+    const snapshot = await this.db.collection('episodicMemories')
+      .where('userId', '==', userId)
+      .where('conversationId', '==', conversationId)
+      .get();
+
+    await Promise.all(snapshot.docs.map(doc => doc.ref.delete()));
+    return snapshot.size;
+  }
+
+  private async summarize(messages: ShortTermMessage[], previousSummary?: string): Promise<EpisodeSummary> {
+    const transcript = messages
+      .map(message => `${message.role.toUpperCase()}: ${message.content}`)
+      .join('\n');
+
+    try {
+      const apiKey = functions.config().gemini?.api_key;
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY not configured');
+      }
+
+      const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+        model: SUMMARY_MODEL,
+        generationConfig: { temperature: 0.3, responseMimeType: 'application/json' }
+      });
+      const result = await model.generateContent(`Summarize this conversation for long-term memory.
+${previousSummary ? `\nSUMMARY OF EARLIER TURNS:\n${previousSummary}\n` : ''}
+LATEST TURNS:
+${transcript}
+
+Respond with JSON:
+{
+  "summary": "2-3 sentences covering the whole conversation",
+  "keyTopics": ["3-5 topics"],
+  "mainOutcomes": ["..."],
+  "userGoals": ["..."],
+  "assistantActions": ["..."]
+}`);
+
+      const parsed = JSON.parse(result.response.text());
+      if (typeof parsed.summary !== 'string' || !parsed.summary.trim()) {
+        throw new Error('Summary response had no summary');
+      }
+
+      return {
+        summary: parsed.summary.trim(),
+        keyTopics: asStringList(parsed.keyTopics),
+        mainOutcomes: asStringList(parsed.mainOutcomes),
+        userGoals: asStringList(parsed.userGoals),
+        assistantActions: asStringList(parsed.assistantActions)
+      };
+    } catch (error) {
+      console.error('Error summarizing conversation, using extractive summary:', error);
+      return this.fallbackSummary(messages, previousSummary);
+    }
+  }
+
+  private fallbackSummary(messages: ShortTermMessage[], previousSummary?: string): EpisodeSummary {
+    const userMessages = messages.filter(message => message.role === 'user');
+    const requests = userMessages.map(message => message.content.substring(0, 120));
+
+    return {
+      summary: [previousSummary, requests.length > 0 ? `User asked about: ${requests.join('; ')}` : '']
+        .filter(Boolean)
+        .join(' '),
+      keyTopics: [],
+      mainOutcomes: [],
+      userGoals: requests.slice(0, 3),
+      assistantActions: []
+    };
+  }
+
+  // Drop the oldest unpinned episodes once the user is over their limit
+  private async enforceLimit(userId: string, maxEpisodes: number): Promise<void> {
+    const snapshot = await this.db.collection('episodicMemories')
+      .where('userId', '==', userId)
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    const evictable = snapshot.docs
+      .slice(maxEpisodes)
+      .filter(doc => !doc.data().pinned);
+
+    await Promise.all(evictable.map(doc => doc.ref.delete()));
+    if (evictable.length > 0) {
+      console.log(`🧹 Evicted ${evictable.length} episodic memories for user ${userId}`);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+// Fact extraction types for Firebase Functions
+
+export const FACT_CATEGORIES = ['preference', 'fact', 'skill', 'context', 'style'] as const;
+export type FactCategory = typeof FACT_CATEGORIES[number];
+
+export interface TurnMessage {
+  id: string;
+  content: string;
+}
+
+// One exchange to extract facts from; the assistant reply is context, facts come from the user
+export interface ExtractionTurn {
+  user: TurnMessage;
+  assistant: TurnMessage;
+}
+
+export interface ExtractedFact {
+  content: string; // normalized third-person statement, e.g. "Prefers watercolour illustrations"
+  category: FactCategory;
+  confidence: number; // 0-1
+  sourceMessageIds: string[];
+}
+
+export interface FactExtractor {
+  id: string;
+  extract(turn: ExtractionTurn): Promise<ExtractedFact[]>;
+  // Indices of the existing statements that the new fact makes untrue
+  findContradicted(fact: ExtractedFact, existing: string[]): Promise<number[]>;
+}
+
+export type FactExtractorBackend = 'gemini' | 'stub';
@@ -0,0 +1,130 @@
+// Gemini chat adapter
+// The default chat model, and the one the contextual prompt is packed for. Uses the same
+// `gemini.api_key` functions config as the image provider.
+import * as functions from 'firebase-functions';
+import {
+  GenerateContentResponse,
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIRequestInputError
+} from '@google/generative-ai';
+import { extractGeminiOutput, blockedOutputMessage } from './gemini-output';
+import {
+  ChatContentBlockedError,
+  ChatModelError,
+  ChatModelPricing,
+  ChatModelProvider,
+  ChatModelRequest,
+  ChatModelResult,
+  chatCostUsd,
+  chatErrorTypeForStatus
+} from './chat-model-types';
+
+// A whole reply, when it isn't streamed; streams run for as long as tokens keep arriving
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+
+export class GeminiChatProvider implements ChatModelProvider {
+  readonly id = 'gemini' as const;
+
+  constructor(
+    readonly modelId: string,
+    readonly pricing: ChatModelPricing,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  isConfigured(): boolean {
+    return !!functions.config().gemini?.api_key;
+  }
+
+  async generate(request: ChatModelRequest): Promise<ChatModelResult> {
+    try {
+      const result = await this.model(request).generateContent([{ text: request.prompt }], {
+        signal: request.signal,
+        timeout: this.timeoutMs
+      });
+      return this.toResult(result.response, undefined);
+    } catch (error) {
+      throw this.toChatModelError(error, request);
+    }
+  }
+
+  async stream(request: ChatModelRequest, onDelta: (text: string) => void): Promise<ChatModelResult> {
+    try {
+      const result = await this.model(request).generateContentStream([{ text: request.prompt }], { signal: request.signal });
+      let text = '';
+      for await (const chunk of result.stream) {
+        if (request.signal?.aborted) {
+          break;
+        }
+        let delta = '';
+        try {
+          delta = chunk.text();
+        } catch {
+          // text() throws on blocked chunks; the aggregated response below carries the reason
+        }
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      }
+      if (request.signal?.aborted) {
+        // The caller has gone and won't use the reply, so the rest of the stream isn't awaited
+        return { text, providerId: this.id, modelId: this.modelId, tokenCount: { input: 0, output: 0 }, costUsd: 0 };
+      }
+      return this.toResult(await result.response, text);
+    } catch (error) {
+      throw this.toChatModelError(error, request);
+    }
+  }
+
+  private model(request: ChatModelRequest) {
+    const apiKey = functions.config().gemini?.api_key;
+    if (!apiKey) {
+      throw new ChatModelError('GEMINI_API_KEY not configured', this.id, 'configuration_error');
+    }
+    return new GoogleGenerativeAI(apiKey).getGenerativeModel({
+      model: this.modelId,
+      generationConfig: { maxOutputTokens: request.maxTokens, temperature: request.temperature }
+    });
+  }
+
+  // Streamed text is passed in, since the aggregated response of a stream repeats it
+  private toResult(response: GenerateContentResponse, streamedText: string | undefined): ChatModelResult {
+    const output = extractGeminiOutput(response);
+    if (output.blockedReason) {
+      throw new ChatContentBlockedError(blockedOutputMessage(output), this.id, output.blockedReason);
+    }
+    const input = response.usageMetadata?.promptTokenCount ?? 0;
+    const outputTokens = response.usageMetadata?.candidatesTokenCount ?? 0;
+    return {
+      text: streamedText ?? output.text,
+      providerId: this.id,
+      modelId: this.modelId,
+      tokenCount: { input, output: outputTokens },
+      costUsd: chatCostUsd(this.pricing, input, outputTokens),
+      finishReason: output.finishReason
+    };
+  }
+
+  private toChatModelError(error: unknown, request: ChatModelRequest): ChatModelError {
+    if (error instanceof ChatModelError) {
+      return error;
+    }
+    const message = error instanceof Error ? error.message : 'Gemini request failed';
+    // The SDK reports its own timeout and the caller's signal the same way
+    if (error instanceof GoogleGenerativeAIAbortError && !request.signal?.aborted) {
+      return new ChatModelError(`Request timed out after ${this.timeoutMs}ms`, this.id, 'timeout_error');
+    }
+    if (error instanceof GoogleGenerativeAIFetchError) {
+      return error.status
+        ? new ChatModelError(message, this.id, chatErrorTypeForStatus(error.status), error.status)
+        : new ChatModelError(message, this.id, 'network_error');
+    }
+    if (error instanceof GoogleGenerativeAIRequestInputError) {
+      return new ChatModelError(message, this.id, 'invalid_request_error');
+    }
+    // Anything else (a dropped connection, an unreadable stream) is treated as a network fault
+    return new ChatModelError(message, this.id, 'network_error');
+  }
+}
@@ -0,0 +1,41 @@
+// Gemini text embeddings
+import * as functions from 'firebase-functions';
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import { Embedder } from './embedding-types';
+
+// batchEmbedContents accepts at most this many texts per call
+const MAX_BATCH_SIZE = 100;
+
+export class GeminiEmbedder implements Embedder {
+  readonly id: string;
+  readonly dimension = 768;
+  readonly relevanceThreshold = 0.55;
+  readonly duplicateThreshold = 0.9;
+
+  constructor(private readonly modelId: string = 'text-embedding-004') {
+    this.id = `gemini-${modelId}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const apiKey = functions.config().gemini?.api_key;
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY not configured');
+    }
+
+    const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: this.modelId });
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += MAX_BATCH_SIZE) {
+      const batch = texts.slice(start, start + MAX_BATCH_SIZE);
+      const result = await model.batchEmbedContents({
+        requests: batch.map(text => ({
+          content: { role: 'user', parts: [{ text }] },
+          taskType: TaskType.SEMANTIC_SIMILARITY
+        }))
+      });
+      vectors.push(...result.embeddings.map(embedding => embedding.values));
+    }
+
+    return vectors;
+  }
+}
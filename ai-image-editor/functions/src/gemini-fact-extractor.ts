@@ -0,0 +1,99 @@
+// Gemini-backed fact extraction
+import * as functions from 'firebase-functions';
+import { GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
+import { ExtractedFact, ExtractionTurn, FactExtractor, FACT_CATEGORIES, FactCategory } from './fact-extraction-types';
+
+const MAX_FACT_LENGTH = 300;
+const MAX_FACTS_PER_TURN = 5;
+
+// Keep only well-formed facts that cite messages from this turn
+export const sanitizeFacts = (raw: unknown, turn: ExtractionTurn): ExtractedFact[] => {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const turnIds = new Set([turn.user.id, turn.assistant.id]);
+  const facts: ExtractedFact[] = [];
+
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const { content, category, confidence, sourceMessageIds } = item as Record<string, unknown>;
+
+    if (typeof content !== 'string' || !content.trim()) continue;
+    if (!FACT_CATEGORIES.includes(category as FactCategory)) continue;
+    // A confidence outside 0-1 means the model didn't follow the format, so the fact isn't trusted
+    const hasConfidence = confidence !== undefined && confidence !== null;
+    if (hasConfidence && (typeof confidence !== 'number' || !isFinite(confidence) || confidence < 0 || confidence > 1)) continue;
+
+    const sources = Array.isArray(sourceMessageIds)
+      ? sourceMessageIds.filter((id): id is string => typeof id === 'string' && turnIds.has(id))
+      : [];
+
+    facts.push({
+      content: content.trim().replace(/\s+/g, ' ').substring(0, MAX_FACT_LENGTH),
+      category: category as FactCategory,
+      confidence: hasConfidence ? confidence as number : 0.5,
+      sourceMessageIds: sources.length > 0 ? sources : [turn.user.id]
+    });
+  }
+
+  return facts.slice(0, MAX_FACTS_PER_TURN);
+};
+
+export class GeminiFactExtractor implements FactExtractor {
+  readonly id: string;
+
+  constructor(private readonly modelId: string = 'gemini-2.0-flash-exp') {
+    this.id = `gemini-${modelId}`;
+  }
+
+  async extract(turn: ExtractionTurn): Promise<ExtractedFact[]> {
+    const result = await this.model().generateContent(`Extract durable facts about the user from this exchange, for a long-term memory.
+Only include things that will still be true and useful in future conversations: who they are, what they like, what they can do, their ongoing projects, and their preferred visual or writing style.
+Ignore one-off requests, questions and anything the assistant says about itself. Return [] when there is nothing worth remembering.
+
+Write each fact as a short, normalized third-person statement without "the user" (e.g. "Prefers watercolour illustrations", "Works as a wedding photographer").
+Categories: preference (likes and dislikes), fact (biographical or stable information), skill (what they know or can do), context (ongoing projects, goals or circumstances), style (preferred visual or writing style).
+
+[${turn.user.id}] USER: ${turn.user.content}
+[${turn.assistant.id}] ASSISTANT: ${turn.assistant.content.substring(0, 2000)}
+
+Respond with a JSON array:
+[{ "content": "...", "category": "preference|fact|skill|context|style", "confidence": 0.0-1.0, "sourceMessageIds": ["${turn.user.id}"] }]`);
+
+    return sanitizeFacts(JSON.parse(result.response.text()), turn);
+  }
+
+  async findContradicted(fact: ExtractedFact, existing: string[]): Promise<number[]> {
+    if (existing.length === 0) {
+      return [];
+    }
+
+    const result = await this.model().generateContent(`A long-term memory holds these statements about a user:
+${existing.map((statement, index) => `${index}. ${statement}`).join('\n')}
+
+The user has just told us: "${fact.content}"
+
+Which numbered statements can no longer both be true alongside the new one, because the user changed their mind or the circumstances changed? A statement that is merely related, more general or more specific is not contradicted.
+
+Respond with a JSON array of the contradicted statement numbers, e.g. [0, 2], or [] if none.`);
+
+    const raw: unknown = JSON.parse(result.response.text());
+    return Array.isArray(raw)
+      ? Array.from(new Set(raw.filter((index): index is number =>
+          Number.isInteger(index) && index >= 0 && index < existing.length)))
+      : [];
+  }
+
+  private model(): GenerativeModel {
+    const apiKey = functions.config().gemini?.api_key;
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY not configured');
+    }
+
+    return new GoogleGenerativeAI(apiKey).getGenerativeModel({
+      model: this.modelId,
+      generationConfig: { temperature: 0, responseMimeType: 'application/json' }
+    });
+  }
+}
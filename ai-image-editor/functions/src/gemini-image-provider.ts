@@ -0,0 +1,115 @@
+// Gemini image generation provider
+import * as functions from 'firebase-functions';
+import { GenerationConfig, GoogleGenerativeAI, Part } from '@google/generative-ai';
+import { extractGeminiOutput, blockedOutputMessage } from './gemini-output';
+import {
+  ImageProvider,
+  ImageProviderCapabilities,
+  ImageProviderCost,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageProviderError
+} from './image-provider-types';
+
+const MASK_INSTRUCTIONS = 'The next image is a mask for the first image, at the same proportions. ' +
+  'Apply the edit only where the mask is white and keep every black area exactly as it is.';
+
+export class GeminiImageProvider implements ImageProvider {
+  readonly capabilities: ImageProviderCapabilities = {
+    generate: true,
+    edit: true,
+    inpaint: true,
+    maxInputImages: 3
+  };
+
+  constructor(
+    readonly id: string,
+    readonly modelId: string,
+    readonly cost: ImageProviderCost,
+    readonly rateLimitKey?: string
+  ) {}
+
+  generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    return this.run({ prompt: request.prompt });
+  }
+
+  edit(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    if (!request.images || request.images.length === 0) {
+      return Promise.reject(new ImageProviderError('Edit requires at least one source image', this.id, 'UNSUPPORTED'));
+    }
+    return this.run(request);
+  }
+
+  private async run(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    const apiKey = functions.config().gemini?.api_key;
+    if (!apiKey) {
+      throw new ImageProviderError('GEMINI_API_KEY not configured', this.id, 'UNAVAILABLE');
+    }
+
+    const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: this.modelId });
+
+    const parts: Part[] = [{ text: request.prompt }];
+    for (const image of request.images || []) {
+      parts.push({
+        inlineData: {
+          mimeType: image.mimeType,
+          data: image.buffer.toString('base64')
+        }
+      });
+    }
+    // Gemini has no mask parameter, so the mask goes in as a final image the prompt explains
+    if (request.mask) {
+      parts.push(
+        { text: MASK_INSTRUCTIONS },
+        { inlineData: { mimeType: request.mask.mimeType, data: request.mask.buffer.toString('base64') } }
+      );
+    }
+
+    // responseModalities isn't in the SDK's types yet but is passed through to the API
+    const generationConfig = {
+      maxOutputTokens: 8192,
+      temperature: 0.8,
+      responseModalities: ['TEXT', 'IMAGE']
+    } as GenerationConfig;
+
+    let output;
+    let tokenCount: ImageGenerationResult['tokenCount'];
+    try {
+      const result = await model.generateContent({
+        contents: [{ role: 'user', parts }],
+        generationConfig
+      });
+      output = extractGeminiOutput(result.response);
+      const usage = result.response.usageMetadata;
+      if (usage) {
+        tokenCount = { input: usage.promptTokenCount ?? 0, output: usage.candidatesTokenCount ?? 0 };
+      }
+    } catch (error) {
+      throw new ImageProviderError(
+        error instanceof Error ? error.message : 'Gemini request failed',
+        this.id,
+        'UNAVAILABLE'
+      );
+    }
+
+    if (output.blockedReason) {
+      throw new ImageProviderError(blockedOutputMessage(output), this.id, 'BLOCKED', {
+        blockedReason: output.blockedReason
+      });
+    }
+
+    if (!output.imageUrl) {
+      throw new ImageProviderError('Model returned no image', this.id, 'NO_IMAGE', { text: output.text });
+    }
+
+    return {
+      imageUrl: output.imageUrl,
+      mimeType: output.imageMimeType || 'image/png',
+      text: output.text,
+      providerId: this.id,
+      modelId: this.modelId,
+      costUsd: this.cost.perImageUsd,
+      tokenCount
+    };
+  }
+}
@@ -0,0 +1,56 @@
+// Shared parsing of Gemini generateContent responses
+// Pulls inline image data and accompanying text out of the first candidate
+
+import { GenerateContentResponse } from '@google/generative-ai';
+
+export interface GeminiOutput {
+  imageUrl?: string;
+  imageMimeType?: string;
+  text: string;
+  finishReason?: string;
+  blockedReason?: 'CONTENT_VIOLATION' | 'SAFETY_VIOLATION';
+}
+
+export const extractGeminiOutput = (geminiResponse: GenerateContentResponse): GeminiOutput => {
+  const candidates = geminiResponse?.candidates || [];
+  if (candidates.length === 0) {
+    return { text: '' };
+  }
+
+  const candidate = candidates[0];
+  const finishReason: string | undefined = candidate.finishReason;
+
+  // Content policy violations come back as a finish reason rather than an error
+  if (finishReason === 'RECITATION') {
+    return { text: '', finishReason, blockedReason: 'CONTENT_VIOLATION' };
+  }
+  if (finishReason === 'SAFETY') {
+    return { text: '', finishReason, blockedReason: 'SAFETY_VIOLATION' };
+  }
+
+  let imageUrl: string | undefined;
+  let imageMimeType: string | undefined;
+  const textParts: string[] = [];
+
+  for (const part of candidate.content?.parts || []) {
+    if (!imageUrl && part.inlineData && part.inlineData.mimeType?.startsWith('image/')) {
+      imageMimeType = part.inlineData.mimeType;
+      imageUrl = `data:${imageMimeType};base64,${part.inlineData.data}`;
+    } else if (typeof part.text === 'string' && part.text.trim()) {
+      textParts.push(part.text);
+    }
+  }
+
+  return {
+    imageUrl,
+    imageMimeType,
+    text: textParts.join('\n').trim(),
+    finishReason
+  };
+};
+
+export const blockedOutputMessage = (output: GeminiOutput): string => {
+  return output.blockedReason === 'CONTENT_VIOLATION'
+    ? 'Content policy violation: The request contains content that may violate usage policies.'
+    : 'Safety filter triggered: The content was flagged by safety filters.';
+};
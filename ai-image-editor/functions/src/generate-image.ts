@@ -1,5 +1,7 @@
 import * as functions from 'firebase-functions';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ImageProviderRegistry, describeImageProviderFailure } from './image-provider-registry';
+import { ProviderRateLimiter } from './provider-rate-limiter';
 const busboy = require('busboy');
 
 function getGenAI() {
@@ -183,145 +185,26 @@ async function processImageGeneration(req: any, res: functions.Response): Promis
     console.log('🤖 Should generate image:', shouldGenerateImage, 'Mode:', mode, 'Has files:', files.length > 0, 'Is multipart:', isMultipartRequest);
     
     if (shouldGenerateImage) {
-      // Use Gemini for image generation with the latest model
-      let finalImageUrl = '';
-      
       const description = prompt || 'Generate an image';
       console.log('🎨 Starting image generation with prompt:', description);
 
-      // Try image generation first
+      const images = files.map((file: any) => ({ buffer: file.buffer, mimeType: file.mimetype }));
+      const providerPrompt = images.length > 0
+        ? `Edit this image: ${description}. Create a high-quality, detailed result.`
+        : `Generate a high-quality, detailed image: ${description}`;
+
       try {
-        // Use Gemini 2.5 Flash Image for actual image generation
-        let finalImageUrl = '';
-        let modelUsed = 'gemini-2.5-flash-image-preview';
-        
-        try {
-          const genAI = getGenAI();
-          console.log('🔑 Checking Gemini API key availability:', !!genAI);
-          
-          // Use Gemini 2.5 Flash Image for actual image generation
-          const modelName = 'gemini-2.5-flash-image-preview';
-          console.log(`🤖 Using model: ${modelName}`);
-          const imageModel = genAI.getGenerativeModel({ model: modelName });
-          
-          let contents;
-          
-          if (files.length > 0) {
-            const parts: any[] = [];
-            
-            parts.push({
-              text: `Edit this image: ${description}. Create a high-quality, detailed result.`
-            });
-            
-            for (const file of files) {
-              const base64Data = file.buffer.toString('base64');
-              parts.push({
-                inlineData: {
-                  mimeType: file.mimetype,
-                  data: base64Data
-                }
-              });
-            }
-            
-            contents = parts;
-          } else {
-            contents = [{ text: `Generate a high-quality, detailed image: ${description}` }];
-          }
-          
-          const imageResult = await imageModel.generateContent({
-            contents: [{ role: 'user', parts: contents }],
-            generationConfig: {
-              maxOutputTokens: 8192,
-              temperature: 0.8
-            }
-          });
-          
-          const imageResponse = await imageResult.response;
-          const candidates = imageResponse.candidates;
-          
-          if (candidates && candidates.length > 0) {
-            const candidate = candidates[0];
-            
-            // Check for content policy violations
-            if (candidate.finishReason === 'RECITATION') {
-              res.status(400).json({
-                error: 'Content policy violation: The request contains content that may violate usage policies.',
-                isImageGeneration: true
-              });
-              return;
-            }
-            
-            if (candidate.finishReason === 'SAFETY') {
-              res.status(400).json({
-                error: 'Safety filter triggered: The content was flagged by safety filters.',
-                isImageGeneration: true  
-              });
-              return;
-            }
-            
-            const parts = candidate.content?.parts;
-            if (parts) {
-              for (const part of parts) {
-                // Check for inline_data with image
-                if ((part as any).inlineData && (part as any).inlineData.mimeType?.startsWith('image/')) {
-                  const base64Image = (part as any).inlineData.data;
-                  const mimeType = (part as any).inlineData.mimeType;
-                  finalImageUrl = `data:${mimeType};base64,${base64Image}`;
-                  console.log('✅ Found generated image in response');
-                  break;
-                }
-              }
-            }
-          }
-        } catch (geminiError: any) {
-          console.log('⚠️ Gemini image generation failed:', geminiError.message);
-          console.log('Full error:', geminiError);
-        }
-        
-        // If no image was generated, use fallback
-        if (!finalImageUrl) {
-          console.log('🔄 Using fallback image service');
-          // Fallback to external service
-          const cleanPrompt = (prompt || description || 'AI generated artwork')
-            .replace(/[^a-zA-Z0-9\s]/g, '')
-            .substring(0, 100);
-          
-          const imagePrompt = encodeURIComponent(cleanPrompt);
-          const seed = Math.floor(Math.random() * 10000);
-          
-          finalImageUrl = `https://image.pollinations.ai/prompt/${imagePrompt}?seed=${seed}&width=512&height=512&nologo=true`;
-        }
-        
-        res.json({
-          imageUrl: finalImageUrl,
-          success: true,
-          modelUsed: modelUsed,
-          isImageGeneration: true,
-          originalImages: files.length > 0 ? files.map((file: any) => {
-            const base64 = file.buffer.toString('base64');
-            return `data:${file.mimetype};base64,${base64}`;
-          }) : undefined
-        });
-        return;
-        
-      } catch (error: any) {
-        console.error('Image generation error:', error);
-        
-        // Fallback to external service on any error
-        console.log('🔄 Using fallback image service due to error');
-        const cleanPrompt = (prompt || 'AI generated artwork')
-          .replace(/[^a-zA-Z0-9\s]/g, '')
-          .substring(0, 100);
-        
-        const imagePrompt = encodeURIComponent(cleanPrompt);
-        const seed = Math.floor(Math.random() * 10000);
-        
-        finalImageUrl = `https://image.pollinations.ai/prompt/${imagePrompt}?seed=${seed}&width=512&height=512&nologo=true`;
-        
+        // This legacy route has no auth, so it always uses the free plan's provider chain
+        const result = await ImageProviderRegistry.getInstance().generate('free', {
+          prompt: providerPrompt,
+          images
+        }, { limiter: ProviderRateLimiter.getInstance() });
+
         res.json({
-          imageUrl: finalImageUrl,
+          imageUrl: result.imageUrl,
           success: true,
-          modelUsed: 'pollinations-fallback',
+          modelUsed: result.modelId,
+          provider: result.providerId,
           isImageGeneration: true,
           originalImages: files.length > 0 ? files.map((file: any) => {
             const base64 = file.buffer.toString('base64');
@@ -329,6 +212,16 @@ async function processImageGeneration(req: any, res: functions.Response): Promis
           }) : undefined
         });
         return;
+      } catch (error) {
+        const failure = describeImageProviderFailure(error);
+        if (failure) {
+          if (failure.headers) {
+            res.set(failure.headers);
+          }
+          res.status(failure.status).json(failure.body);
+          return;
+        }
+        throw error;
       }
       
     } else {
@@ -0,0 +1,132 @@
+// Durable Cloud Storage for generated images
+// Images are written to images/{uid}/generated/{sha256}.{ext}, so identical output is stored
+// once, and served through a Firebase download-token URL that works on any of the user's devices.
+import * as admin from 'firebase-admin';
+import { createHash, randomUUID } from 'crypto';
+
+export interface StoredImage {
+  url: string; // tokenized download URL
+  path: string; // object path in the default bucket
+  contentHash: string; // sha256 of the image bytes, hex
+  mimeType: string;
+  size: number;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+const DATA_URL_PATTERN = /^data:(image\/[a-z0-9.+-]+);base64,([A-Za-z0-9+/=\s]+)$/i;
+
+// Where Firebase serves tokenized downloads from, including the Storage emulator
+const downloadUrl = (bucket: string, path: string, token: string): string => {
+  const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+  const origin = emulatorHost ? `http://${emulatorHost}` : 'https://firebasestorage.googleapis.com';
+  return `${origin}/v0/b/${bucket}/o/${encodeURIComponent(path)}?alt=media&token=${token}`;
+};
+
+export class GeneratedImageStore {
+  private static instance: GeneratedImageStore;
+  private bucket: ReturnType<admin.storage.Storage['bucket']>;
+  private readonly MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+  private constructor() {
+    this.bucket = admin.storage().bucket();
+  }
+
+  public static getInstance(): GeneratedImageStore {
+    if (!GeneratedImageStore.instance) {
+      GeneratedImageStore.instance = new GeneratedImageStore();
+    }
+    return GeneratedImageStore.instance;
+  }
+
+  // Decode a `data:image/...;base64,` URL, as image providers return them
+  parseDataUrl(dataUrl: string): { buffer: Buffer; mimeType: string } | null {
+    const match = DATA_URL_PATTERN.exec(dataUrl);
+    if (!match || !EXTENSIONS[match[1].toLowerCase()]) {
+      return null;
+    }
+    return { buffer: Buffer.from(match[2], 'base64'), mimeType: match[1].toLowerCase() };
+  }
+
+  async saveDataUrl(userId: string, dataUrl: string): Promise<StoredImage> {
+    const image = this.parseDataUrl(dataUrl);
+    if (!image) {
+      throw new Error('Not a supported image data URL');
+    }
+    return this.save(userId, image.buffer, image.mimeType);
+  }
+
+  /**
+   * Store image bytes for a user and return a download URL. Saving bytes that are already
+   * stored reuses the existing object and its token instead of writing a copy.
+   */
+  async save(userId: string, buffer: Buffer, mimeType: string): Promise<StoredImage> {
+    const extension = EXTENSIONS[mimeType];
+    if (!extension) {
+      throw new Error(`Unsupported image type: ${mimeType}`);
+    }
+    if (buffer.length === 0 || buffer.length > this.MAX_IMAGE_BYTES) {
+      throw new Error(`Image must be between 1 byte and ${this.MAX_IMAGE_BYTES} bytes`);
+    }
+
+    const contentHash = createHash('sha256').update(buffer).digest('hex');
+    const path = `images/${userId}/generated/${contentHash}.${extension}`;
+    const file = this.bucket.file(path);
+
+    const [exists] = await file.exists();
+    let token: string | undefined;
+    if (exists) {
+      const [metadata] = await file.getMetadata();
+      const tokens = metadata.metadata?.firebaseStorageDownloadTokens;
+      token = tokens ? String(tokens).split(',')[0] : undefined;
+      if (!token) {
+        token = randomUUID();
+        await file.setMetadata({ metadata: { firebaseStorageDownloadTokens: token } });
+      }
+    } else {
+      token = randomUUID();
+      await file.save(buffer, {
+        resumable: false,
+        contentType: mimeType,
+        metadata: {
+          // The name is the content hash, so the bytes behind a URL never change
+          cacheControl: 'private, max-age=31536000, immutable',
+          metadata: { firebaseStorageDownloadTokens: token, contentHash }
+        }
+      });
+      console.log(`🖼️ Stored generated image ${path} (${buffer.length} bytes)`);
+    }
+
+    return { url: downloadUrl(this.bucket.name, path, token), path, contentHash, mimeType, size: buffer.length };
+  }
+
+  // Read back a stored image, e.g. to edit it again
+  async load(path: string): Promise<{ buffer: Buffer; mimeType: string }> {
+    const file = this.bucket.file(path);
+    const [[buffer], [metadata]] = await Promise.all([file.download(), file.getMetadata()]);
+    return { buffer, mimeType: metadata.contentType || 'image/png' };
+  }
+
+  // Object path behind a download URL for this bucket, or null for any other URL
+  pathFromUrl(url: string): string | null {
+    const match = /\/v0\/b\/([^/]+)\/o\/([^?#]+)/.exec(url);
+    if (!match || match[1] !== this.bucket.name) {
+      return null;
+    }
+    try {
+      return decodeURIComponent(match[2]);
+    } catch {
+      return null;
+    }
+  }
+
+  // Deleting an object that is already gone succeeds, so retries are safe
+  async delete(path: string): Promise<void> {
+    await this.bucket.file(path).delete({ ignoreNotFound: true });
+  }
+}
@@ -0,0 +1,73 @@
+// Deterministic local embedder for tests and the emulator
+// Feature-hashes normalized words and character trigrams into a fixed-size unit vector,
+// so related phrasings ("prefer watercolours" / "preferred watercolour style") land close together
+import { Embedder } from './embedding-types';
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from', 'has', 'have', 'i',
+  'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to',
+  'was', 'we', 'what', 'with', 'you', 'your'
+]);
+
+const SUFFIXES = ['ing', 'ed', 'es', 's', 'ly'];
+
+// 32-bit FNV-1a
+const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalizeWord = (word: string): string => {
+  for (const suffix of SUFFIXES) {
+    if (word.length > suffix.length + 2 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+};
+
+export class HashingEmbedder implements Embedder {
+  readonly id: string;
+  readonly relevanceThreshold = 0.15;
+  readonly duplicateThreshold = 0.75;
+
+  constructor(readonly dimension: number = 256) {
+    this.id = `hashing-${dimension}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+
+    const words = text
+      .toLowerCase()
+      .split(/[^a-z0-9\u00c0-\u024f]+/)
+      .filter(word => word.length > 1 && !STOPWORDS.has(word))
+      .map(normalizeWord);
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so collisions tend to cancel rather than accumulate
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimension] += sign * weight;
+    };
+
+    for (const word of words) {
+      addFeature(`w:${word}`, 1);
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`c:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
@@ -0,0 +1,179 @@
+// OpenAI Chat Completions and Anthropic Messages adapters
+// Keys and base URLs come from `firebase functions:config:set openai.api_key=... openai.base_url=...`
+// (likewise `anthropic.*`) or the OPENAI_* / ANTHROPIC_* environment variables. A base URL can point
+// at a proxy or a local mock server.
+import * as functions from 'firebase-functions';
+import {
+  ChatModelError,
+  ChatModelPricing,
+  ChatModelProvider,
+  ChatModelRequest,
+  ChatModelResult,
+  ChatProviderId,
+  chatCostUsd,
+  chatErrorTypeForStatus
+} from './chat-model-types';
+
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const DEFAULT_TEMPERATURE = 0.8;
+// Longest a single completion may take before it is abandoned and retried or failed over
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+
+interface ProviderConfig {
+  apiKey?: string;
+  baseUrl: string;
+}
+
+interface OpenAIChatCompletion {
+  id?: string;
+  model?: string;
+  choices?: { message?: { content?: string | null }; finish_reason?: string }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface AnthropicMessage {
+  id?: string;
+  model?: string;
+  content?: { type: string; text?: string }[];
+  stop_reason?: string;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+const readConfig = (section: 'openai' | 'anthropic', envPrefix: string, defaultBaseUrl: string): ProviderConfig => {
+  const config = functions.config()[section];
+  return {
+    apiKey: process.env[`${envPrefix}_API_KEY`] || config?.api_key,
+    baseUrl: (process.env[`${envPrefix}_BASE_URL`] || config?.base_url || defaultBaseUrl).replace(/\/+$/, '')
+  };
+};
+
+const postJson = async <T>(
+  providerId: ChatProviderId,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+    });
+    // Read inside the try so a stalled body is cut off by the same timeout
+    text = await response.text();
+  } catch (error) {
+    if (timeout.aborted && !signal?.aborted) {
+      throw new ChatModelError(`Request timed out after ${timeoutMs}ms`, providerId, 'timeout_error');
+    }
+    throw new ChatModelError(error instanceof Error ? error.message : 'Network request failed', providerId, 'network_error');
+  }
+
+  let payload: { error?: { message?: string } } | null = null;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    // Error pages from proxies aren't JSON; the status still says what went wrong
+  }
+  if (!response.ok) {
+    const message = payload?.error?.message || `Request failed with status ${response.status}`;
+    throw new ChatModelError(message, providerId, chatErrorTypeForStatus(response.status), response.status);
+  }
+  if (!payload) {
+    throw new ChatModelError('Response was not JSON', providerId, 'server_error', response.status);
+  }
+  return payload as T;
+};
+
+export class OpenAIChatProvider implements ChatModelProvider {
+  readonly id = 'gpt' as const;
+
+  constructor(
+    readonly modelId: string,
+    readonly pricing: ChatModelPricing,
+    private readonly maxOutputTokens: number,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  isConfigured(): boolean {
+    return !!readConfig('openai', 'OPENAI', 'https://api.openai.com/v1').apiKey;
+  }
+
+  async generate(request: ChatModelRequest): Promise<ChatModelResult> {
+    const { apiKey, baseUrl } = readConfig('openai', 'OPENAI', 'https://api.openai.com/v1');
+    if (!apiKey) {
+      throw new ChatModelError('OpenAI API key not configured', this.id, 'configuration_error');
+    }
+
+    const data = await postJson<OpenAIChatCompletion>(this.id, `${baseUrl}/chat/completions`, {
+      'Authorization': `Bearer ${apiKey}`
+    }, {
+      model: this.modelId,
+      messages: [{ role: 'user', content: request.prompt }],
+      max_tokens: request.maxTokens || this.maxOutputTokens,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE
+    }, this.timeoutMs, request.signal);
+
+    const choice = data.choices?.[0];
+    const input = data.usage?.prompt_tokens ?? 0;
+    const output = data.usage?.completion_tokens ?? 0;
+    return {
+      text: choice?.message?.content || '',
+      providerId: this.id,
+      modelId: data.model || this.modelId,
+      tokenCount: { input, output },
+      costUsd: chatCostUsd(this.pricing, input, output),
+      finishReason: choice?.finish_reason,
+      requestId: data.id
+    };
+  }
+}
+
+export class AnthropicChatProvider implements ChatModelProvider {
+  readonly id = 'claude' as const;
+
+  constructor(
+    readonly modelId: string,
+    readonly pricing: ChatModelPricing,
+    private readonly maxOutputTokens: number,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  isConfigured(): boolean {
+    return !!readConfig('anthropic', 'ANTHROPIC', 'https://api.anthropic.com/v1').apiKey;
+  }
+
+  async generate(request: ChatModelRequest): Promise<ChatModelResult> {
+    const { apiKey, baseUrl } = readConfig('anthropic', 'ANTHROPIC', 'https://api.anthropic.com/v1');
+    if (!apiKey) {
+      throw new ChatModelError('Anthropic API key not configured', this.id, 'configuration_error');
+    }
+
+    const data = await postJson<AnthropicMessage>(this.id, `${baseUrl}/messages`, {
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_API_VERSION
+    }, {
+      model: this.modelId,
+      messages: [{ role: 'user', content: request.prompt }],
+      max_tokens: request.maxTokens || this.maxOutputTokens,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE
+    }, this.timeoutMs, request.signal);
+
+    const input = data.usage?.input_tokens ?? 0;
+    const output = data.usage?.output_tokens ?? 0;
+    return {
+      text: (data.content || []).filter(block => block.type === 'text').map(block => block.text || '').join(''),
+      providerId: this.id,
+      modelId: data.model || this.modelId,
+      tokenCount: { input, output },
+      costUsd: chatCostUsd(this.pricing, input, output),
+      finishReason: data.stop_reason,
+      requestId: data.id
+    };
+  }
+}
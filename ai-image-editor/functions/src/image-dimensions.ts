@@ -0,0 +1,74 @@
+// Pixel size of an encoded image, read from its header without decoding it
+// Covers the formats uploads arrive in: PNG, JPEG, GIF and WebP.
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// JPEG start-of-frame markers carry the size; 0xC4, 0xC8 and 0xCC share the range but aren't frames
+const isStartOfFrame = (marker: number): boolean =>
+  marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+// The IHDR chunk must come first, straight after the signature
+export const pngDimensions = (buffer: Buffer): ImageDimensions | null => {
+  if (buffer.length < 24 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE) || buffer.toString('ascii', 12, 16) !== 'IHDR') {
+    return null;
+  }
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+};
+
+const jpegDimensions = (buffer: Buffer): ImageDimensions | null => {
+  let offset = 2;
+  while (offset + 9 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset += 1; // fill byte
+      continue;
+    }
+    if (isStartOfFrame(marker)) {
+      return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+};
+
+const webpDimensions = (buffer: Buffer): ImageDimensions | null => {
+  if (buffer.length < 30) return null;
+  switch (buffer.toString('ascii', 12, 16)) {
+    case 'VP8 ':
+      return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+    case 'VP8L': {
+      const bits = buffer.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X':
+      return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Width and height of a PNG, JPEG, GIF or WebP image, or null for other formats and for headers
+ * too short or malformed to read.
+ */
+export const imageDimensions = (buffer: Buffer): ImageDimensions | null => {
+  if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return pngDimensions(buffer);
+  }
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return jpegDimensions(buffer);
+  }
+  if (buffer.length >= 10 && buffer.toString('ascii', 0, 3) === 'GIF') {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+  if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return webpDimensions(buffer);
+  }
+  return null;
+};
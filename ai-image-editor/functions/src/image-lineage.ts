@@ -0,0 +1,56 @@
+// Edit chains for generated images
+// A generated image is identified by the id of the message that shows it. An image edited from
+// another records it as parentImageId, and every image in a chain shares the rootImageId of the
+// image the chain started from, so a whole version tree is one query away. The client saves the
+// message with the lineage returned here; firestore.rules check it against the stored parent.
+import * as admin from 'firebase-admin';
+import { GeneratedImageStore } from './generated-image-store';
+
+export interface ImageLineage {
+  parentImageId: string;
+  rootImageId: string;
+}
+
+export interface ParentImage {
+  buffer: Buffer;
+  mimeType: string;
+  lineage: ImageLineage;
+}
+
+export const IMAGE_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export class ImageLineageError extends Error {
+  constructor(message: string, public readonly status: 400 | 404) {
+    super(message);
+    this.name = 'ImageLineageError';
+  }
+}
+
+/**
+ * Load the image a new edit branches from, and the lineage the edit inherits. Only the caller's
+ * own images kept in Cloud Storage can be branched from; others are reported as missing.
+ */
+export const loadParentImage = async (
+  db: admin.firestore.Firestore,
+  userId: string,
+  parentImageId: string
+): Promise<ParentImage> => {
+  const snapshot = await db.collection('messages').doc(parentImageId).get();
+  const parent = snapshot.data();
+  if (!snapshot.exists || parent?.userId !== userId || !parent?.generatedImage) {
+    throw new ImageLineageError('Parent image not found', 404);
+  }
+  if (typeof parent.generatedImagePath !== 'string') {
+    // Images kept only in a browser, or inline, have no server copy to edit from
+    throw new ImageLineageError('This image is not stored in the cloud; add it to the upload instead', 400);
+  }
+
+  const image = await GeneratedImageStore.getInstance().load(parent.generatedImagePath);
+  return {
+    ...image,
+    lineage: {
+      parentImageId,
+      rootImageId: typeof parent.rootImageId === 'string' ? parent.rootImageId : parentImageId
+    }
+  };
+};
@@ -0,0 +1,57 @@
+// Moving generated images that older clients kept in browser localStorage into Cloud Storage
+// Those messages hold `local:{key}` instead of an image URL, and only the browser that made the
+// image has the bytes, so that browser uploads each entry once and the messages are re-pointed.
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { GeneratedImageStore } from './generated-image-store';
+
+const LOCAL_KEY_PATTERN = /^generated_[A-Za-z0-9_:-]{1,200}$/;
+
+// API: POST /images/migrate-local - Store a localStorage image and update the messages using it
+export const imageMigrateLocal = async (req: functions.Request, res: functions.Response, userId: string): Promise<void> => {
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const { localKey, dataUrl } = req.body || {};
+    if (typeof localKey !== 'string' || !LOCAL_KEY_PATTERN.test(localKey)) {
+      res.status(400).json({ error: 'localKey must be a generated_* localStorage key' });
+      return;
+    }
+
+    const store = GeneratedImageStore.getInstance();
+    if (typeof dataUrl !== 'string' || !store.parseDataUrl(dataUrl)) {
+      res.status(400).json({ error: 'dataUrl must be a base64 image data URL' });
+      return;
+    }
+
+    // Only the caller's own messages are touched; a key with no messages is left for its owner
+    const db = admin.firestore();
+    const snapshot = await db.collection('messages')
+      .where('userId', '==', userId)
+      .where('generatedImage', '==', `local:${localKey}`)
+      .get();
+
+    if (snapshot.empty) {
+      res.status(200).json({ success: true, migrated: 0 });
+      return;
+    }
+
+    const stored = await store.saveDataUrl(userId, dataUrl);
+    const batch = db.batch();
+    snapshot.docs.forEach(doc => batch.update(doc.ref, {
+      generatedImage: stored.url,
+      generatedImagePath: stored.path
+    }));
+    await batch.commit();
+
+    console.log(`🖼️ Migrated ${localKey} to ${stored.path} for ${snapshot.size} message(s) of user ${userId}`);
+    res.status(200).json({ success: true, migrated: snapshot.size, imageUrl: stored.url });
+
+  } catch (error) {
+    console.error('Error migrating local image:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,171 @@
+// Image provider registry and per-plan fallback chains
+import * as functions from 'firebase-functions';
+import { GeminiImageProvider } from './gemini-image-provider';
+import { StubImageProvider } from './stub-image-provider';
+import {
+  ImageProvider,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageProviderError,
+  ImageGenerationFailedError,
+  ImageGenerationOptions,
+  ProviderAttempt,
+  DEFAULT_PROVIDER_CHAINS
+} from './image-provider-types';
+
+export class ImageProviderRegistry {
+  private static instance: ImageProviderRegistry;
+  private providers = new Map<string, ImageProvider>();
+
+  private constructor() {
+    this.register(new GeminiImageProvider('gemini-2.5-flash-image', 'gemini-2.5-flash-image-preview', { perImageUsd: 0.039 }, 'gemini'));
+    this.register(new GeminiImageProvider('gemini-2.0-flash-image', 'gemini-2.0-flash-preview-image-generation', { perImageUsd: 0.039 }, 'gemini'));
+    // Placeholder images must never reach paying users through a misconfigured chain
+    if (process.env.FUNCTIONS_EMULATOR === 'true' || process.env.NODE_ENV === 'test') {
+      this.register(new StubImageProvider());
+    }
+  }
+
+  public static getInstance(): ImageProviderRegistry {
+    if (!ImageProviderRegistry.instance) {
+      ImageProviderRegistry.instance = new ImageProviderRegistry();
+    }
+    return ImageProviderRegistry.instance;
+  }
+
+  register(provider: ImageProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  get(providerId: string): ImageProvider | undefined {
+    return this.providers.get(providerId);
+  }
+
+  list(): ImageProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  // Provider IDs to try, in order, for a plan
+  getChain(planId: string): string[] {
+    const override = process.env.IMAGE_PROVIDER_CHAIN || functions.config().image_providers?.[planId];
+    if (typeof override === 'string' && override.trim()) {
+      return override.split(',').map(id => id.trim()).filter(Boolean);
+    }
+    return DEFAULT_PROVIDER_CHAINS[planId] || DEFAULT_PROVIDER_CHAINS.free;
+  }
+
+  // Try each provider in the plan's chain until one returns an image.
+  // Content blocks stop the chain: another provider must not be used to route around a safety filter.
+  // With a limiter, each provider is charged to its own bucket just before it is called, and one
+  // whose bucket is empty is passed over.
+  async generate(
+    planId: string,
+    request: ImageGenerationRequest,
+    options: ImageGenerationOptions = {}
+  ): Promise<ImageGenerationResult & { attempts: ProviderAttempt[]; rateLimitWaitMs: number }> {
+    const isEdit = (request.images?.length || 0) > 0;
+    const attempts: ProviderAttempt[] = [];
+    const estimatedTokens = options.estimatedTokens || 0;
+
+    for (const providerId of this.getChain(planId)) {
+      const provider = this.providers.get(providerId);
+      if (!provider) {
+        attempts.push({ providerId, code: 'UNAVAILABLE', error: 'Provider not registered' });
+        continue;
+      }
+
+      if (isEdit ? !provider.capabilities.edit : !provider.capabilities.generate) {
+        attempts.push({ providerId, code: 'UNSUPPORTED', error: `Provider does not support ${isEdit ? 'edits' : 'generation'}` });
+        continue;
+      }
+
+      if (request.mask && !provider.capabilities.inpaint) {
+        attempts.push({ providerId, code: 'UNSUPPORTED', error: 'Provider does not support masked edits' });
+        continue;
+      }
+
+      if (isEdit && request.images!.length + (request.mask ? 1 : 0) > provider.capabilities.maxInputImages) {
+        attempts.push({ providerId, code: 'UNSUPPORTED', error: `Provider accepts at most ${provider.capabilities.maxInputImages} images` });
+        continue;
+      }
+
+      const rateLimitKey = options.limiter && provider.rateLimitKey;
+      const permit = rateLimitKey
+        ? await options.limiter!.acquire(rateLimitKey, estimatedTokens)
+        : { granted: true, waitedMs: 0 };
+      if (!permit.granted) {
+        const retryAfterMs = permit.retryAfterMs || 0;
+        attempts.push({ providerId, code: 'RATE_LIMITED', error: `Rate limit reached, retry in ${Math.ceil(retryAfterMs / 1000)}s`, retryAfterMs });
+        continue;
+      }
+
+      try {
+        console.log(`🎨 Trying image provider: ${providerId}`);
+        const result = isEdit ? await provider.edit(request) : await provider.generate(request);
+        if (rateLimitKey && result.tokenCount) {
+          await options.limiter!.recordTokens(rateLimitKey, result.tokenCount.input + result.tokenCount.output - estimatedTokens);
+        }
+        return { ...result, attempts, rateLimitWaitMs: permit.waitedMs };
+      } catch (error) {
+        if (error instanceof ImageProviderError && error.code === 'BLOCKED') {
+          throw error;
+        }
+        const attempt: ProviderAttempt = error instanceof ImageProviderError
+          ? { providerId, code: error.code, error: error.message, text: error.details.text }
+          : { providerId, code: 'UNAVAILABLE', error: error instanceof Error ? error.message : 'Unknown error' };
+        console.log(`⚠️ Image provider ${providerId} failed: ${attempt.error}`);
+        attempts.push(attempt);
+      }
+    }
+
+    throw new ImageGenerationFailedError(attempts);
+  }
+}
+
+// Map provider failures onto the API's error responses; null for anything else
+export const describeImageProviderFailure = (
+  error: unknown
+): { status: number; body: Record<string, unknown>; headers?: Record<string, string> } | null => {
+  if (error instanceof ImageProviderError && error.code === 'BLOCKED') {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        error: error.message,
+        errorType: error.details.blockedReason || 'SAFETY_VIOLATION',
+        isImageGeneration: true
+      }
+    };
+  }
+
+  // Every provider that could have served the request was out of capacity
+  if (error instanceof ImageGenerationFailedError && error.retryAfterMs !== null) {
+    const retryAfterSeconds = Math.ceil(error.retryAfterMs / 1000);
+    return {
+      status: 429,
+      headers: { 'Retry-After': String(retryAfterSeconds) },
+      body: {
+        success: false,
+        error: `Image generation is busy right now, retry in ${retryAfterSeconds}s`,
+        errorType: 'PROVIDER_RATE_LIMITED',
+        isImageGeneration: true,
+        retryAfterMs: error.retryAfterMs
+      }
+    };
+  }
+
+  if (error instanceof ImageGenerationFailedError) {
+    return {
+      status: 502,
+      body: {
+        success: false,
+        error: 'Image generation is temporarily unavailable. Please try again.',
+        errorType: 'PROVIDER_UNAVAILABLE',
+        isImageGeneration: true,
+        attempts: error.attempts.map(({ providerId, code, error: message }) => ({ providerId, code, error: message }))
+      }
+    };
+  }
+
+  return null;
+};
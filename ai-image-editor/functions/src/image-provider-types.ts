@@ -0,0 +1,97 @@
+// Image generation provider types for Firebase Functions
+import { ProviderLimiter } from './provider-rate-limiter';
+
+export interface ImageInput {
+  buffer: Buffer;
+  mimeType: string;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  images?: ImageInput[]; // source images for edits
+  mask?: ImageInput; // PNG over the first image: white where the edit applies, black where it must not
+}
+
+export interface ImageGenerationResult {
+  imageUrl: string; // data: URL
+  mimeType: string;
+  text: string; // any accompanying text from the model
+  providerId: string;
+  modelId: string;
+  costUsd: number;
+  tokenCount?: { input: number; output: number }; // when the provider reports usage
+}
+
+export interface ImageProviderCapabilities {
+  generate: boolean;
+  edit: boolean;
+  inpaint: boolean; // honours a mask
+  maxInputImages: number; // including the mask
+}
+
+export interface ImageProviderCost {
+  perImageUsd: number;
+}
+
+export interface ImageProvider {
+  id: string;
+  modelId: string;
+  capabilities: ImageProviderCapabilities;
+  cost: ImageProviderCost;
+  rateLimitKey?: string; // PROVIDER_RATE_LIMITS bucket the provider draws on; unlimited when unset
+  generate(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+  edit(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+}
+
+export type ImageProviderErrorCode = 'BLOCKED' | 'NO_IMAGE' | 'UNSUPPORTED' | 'UNAVAILABLE' | 'RATE_LIMITED';
+
+export class ImageProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly providerId: string,
+    public readonly code: ImageProviderErrorCode,
+    public readonly details: { blockedReason?: 'CONTENT_VIOLATION' | 'SAFETY_VIOLATION'; text?: string } = {}
+  ) {
+    super(message);
+    this.name = 'ImageProviderError';
+  }
+}
+
+export interface ProviderAttempt {
+  providerId: string;
+  code: ImageProviderErrorCode;
+  error: string;
+  text?: string;
+  retryAfterMs?: number; // RATE_LIMITED only
+}
+
+export interface ImageGenerationOptions {
+  limiter?: ProviderLimiter;
+  estimatedTokens?: number; // charged to a provider's bucket before it is called
+}
+
+// Thrown when every provider in a plan's chain failed
+export class ImageGenerationFailedError extends Error {
+  constructor(public readonly attempts: ProviderAttempt[]) {
+    super(`Image generation failed with all providers (${attempts.map(attempt => attempt.providerId).join(', ') || 'none configured'})`);
+    this.name = 'ImageGenerationFailedError';
+  }
+
+  // Soonest a rate-limited provider has room again, when rate limits are all that stood in the way
+  get retryAfterMs(): number | null {
+    const limited = this.attempts.filter(attempt => attempt.code === 'RATE_LIMITED');
+    if (limited.length === 0 || this.attempts.some(attempt => attempt.code !== 'RATE_LIMITED' && attempt.code !== 'UNSUPPORTED')) {
+      return null;
+    }
+    return Math.min(...limited.map(attempt => attempt.retryAfterMs || 0));
+  }
+}
+
+// Default fallback chains, tried in order. Override per plan with
+// `firebase functions:config:set image_providers.<planId>="id1,id2"` or IMAGE_PROVIDER_CHAIN for all plans.
+export const DEFAULT_PROVIDER_CHAINS: Record<string, string[]> = {
+  free: ['gemini-2.5-flash-image'],
+  starter: ['gemini-2.5-flash-image', 'gemini-2.0-flash-image'],
+  creator: ['gemini-2.5-flash-image', 'gemini-2.0-flash-image'],
+  pro: ['gemini-2.5-flash-image', 'gemini-2.0-flash-image']
+};
@@ -8,13 +8,10 @@ admin.initializeApp();
 // Configure CORS
 const corsHandler = cors({ origin: true });
 
-// Import function modules
-import { subscriptionCheckout } from './subscription-checkout';
-import { subscriptionPortal } from './subscription-portal';
-import { subscriptionUsage } from './subscription-usage';
-import { subscriptionWebhook } from './subscription-webhook';
-import { memoryStats, memorySearch, memoryToggle, memoryExport, memoryClear, memoryContext } from './memory-api';
-import { memoryEnhancedGenerate } from './memory-enhanced-generate';
+// Import the route table
+import { apiRouter } from './routes';
+import { runRetentionPurge } from './memory-retention';
+import { onEpisodeWritten, onMessageWritten } from './conversation-metadata';
 
 // Export HTTP functions
 export const api = functions.https.onRequest((request, response): void => {
@@ -27,53 +24,7 @@ export const api = functions.https.onRequest((request, response): void => {
     console.log('Headers:', Object.keys(request.headers));
     
     try {
-      // Route requests to appropriate handlers
-      // Handle both /api/route and /route paths
-      if (path === '/generate-image' || path === '/api/generate-image' || path.startsWith('/generate-image') || path.startsWith('/api/generate-image')) {
-        console.log('🎯 Routing to memoryEnhancedGenerate');
-        return await memoryEnhancedGenerate(request, response);
-      } else if (path === '/generate-image-v2' || path === '/api/generate-image-v2' || path.startsWith('/generate-image-v2') || path.startsWith('/api/generate-image-v2')) {
-        console.log('🎯 Routing to memoryEnhancedGenerate (v2)');
-        return await memoryEnhancedGenerate(request, response);
-      } else if (path === '/subscription/checkout' || path === '/api/subscription/checkout' || path.startsWith('/subscription/checkout') || path.startsWith('/api/subscription/checkout')) {
-        console.log('🎯 Routing to subscriptionCheckout');
-        return await subscriptionCheckout(request, response);
-      } else if (path === '/subscription/portal' || path === '/api/subscription/portal' || path.startsWith('/subscription/portal') || path.startsWith('/api/subscription/portal')) {
-        console.log('🎯 Routing to subscriptionPortal');
-        return await subscriptionPortal(request, response);
-      } else if (path === '/subscription/usage' || path === '/api/subscription/usage' || path.startsWith('/subscription/usage') || path.startsWith('/api/subscription/usage')) {
-        console.log('🎯 Routing to subscriptionUsage');
-        return await subscriptionUsage(request, response);
-      } else if (path === '/subscription/webhook' || path === '/api/subscription/webhook' || path.startsWith('/subscription/webhook') || path.startsWith('/api/subscription/webhook')) {
-        console.log('🎯 Routing to subscriptionWebhook');
-        return await subscriptionWebhook(request, response);
-      } else if (path === '/memory/stats' || path === '/api/memory/stats' || path.startsWith('/memory/stats') || path.startsWith('/api/memory/stats')) {
-        console.log('🎯 Routing to memoryStats');
-        return await memoryStats(request, response);
-      } else if (path === '/memory/search' || path === '/api/memory/search' || path.startsWith('/memory/search') || path.startsWith('/api/memory/search')) {
-        console.log('🎯 Routing to memorySearch');
-        return await memorySearch(request, response);
-      } else if (path === '/memory/toggle' || path === '/api/memory/toggle' || path.startsWith('/memory/toggle') || path.startsWith('/api/memory/toggle')) {
-        console.log('🎯 Routing to memoryToggle');
-        return await memoryToggle(request, response);
-      } else if (path === '/memory/export' || path === '/api/memory/export' || path.startsWith('/memory/export') || path.startsWith('/api/memory/export')) {
-        console.log('🎯 Routing to memoryExport');
-        return await memoryExport(request, response);
-      } else if (path === '/memory/clear' || path === '/api/memory/clear' || path.startsWith('/memory/clear') || path.startsWith('/api/memory/clear')) {
-        console.log('🎯 Routing to memoryClear');
-        return await memoryClear(request, response);
-      } else if (path === '/memory/context' || path === '/api/memory/context' || path.startsWith('/memory/context') || path.startsWith('/api/memory/context')) {
-        console.log('🎯 Routing to memoryContext');
-        return await memoryContext(request, response);
-      } else {
-        console.log(`❌ No route found for: ${method} ${path}`);
-        response.status(404).json({ 
-          error: 'Function not found',
-          path: path,
-          method: method,
-          availableRoutes: ['/api/generate-image', '/api/generate-image-v2', '/api/subscription/checkout', '/api/subscription/portal', '/api/subscription/usage', '/api/subscription/webhook', '/api/memory/stats', '/api/memory/search', '/api/memory/toggle', '/api/memory/export', '/api/memory/clear', '/api/memory/context']
-        });
-      }
+      await apiRouter.dispatch(request, response);
     } catch (error) {
       console.error('Function error:', error);
       response.status(500).json({ 
@@ -82,4 +33,28 @@ export const api = functions.https.onRequest((request, response): void => {
       });
     }
   });
-});
\ No newline at end of file
+});
+
+// Nightly purge of memories past each user's retention settings
+// Run it by hand with `firebase functions:shell` -> memoryRetention()
+export const memoryRetention = functions
+  .runWith({ timeoutSeconds: 540, memory: '512MB' })
+  .pubsub.schedule('every day 03:00')
+  .timeZone('UTC')
+  .onRun(async () => {
+    await runRetentionPurge(admin.firestore());
+  });
+
+// Keep conversations/{userId}_{conversationId} in step with the thread's messages
+export const conversationMessageWritten = functions.firestore
+  .document('messages/{messageId}')
+  .onWrite(async (change) => {
+    await onMessageWritten(admin.firestore(), change);
+  });
+
+// Copy each conversation's episodic key topics to its tags
+export const conversationEpisodeWritten = functions.firestore
+  .document('episodicMemories/{episodeId}')
+  .onWrite(async (change) => {
+    await onEpisodeWritten(admin.firestore(), change);
+  });
@@ -3,41 +3,28 @@
 
 import * as admin from 'firebase-admin';
 import { Request, Response } from 'firebase-functions';
+import { EmbeddingService, semanticMemoryText, episodicMemoryText } from './embedding-service';
+import { SemanticMemoryService, extractKeywords, isCurrentMemory } from './semantic-memory-service';
+import { EpisodicMemoryService } from './episodic-memory-service';
+import { ShortTermMemoryService } from './short-term-memory-service';
+import { ImportBundleError, importMemories } from './memory-import';
+import { buildMemoryExport, renderMemoryExport } from './memory-export';
+import { loadMemorySettings } from './memory-settings';
+import { buildContextualPrompt, buildMemoryContext } from './memory-context';
+import { GEMINI_CHAT_MODEL } from './chat-model-registry';
+import { CONVERSATION_ID_PATTERN, EXPORT_FORMATS, ExportFormat } from './memory-types';
 
 // Initialize services (these will be imported from client-side when available server-side)
 const db = admin.firestore();
 
-// Authentication middleware
-const verifyAuth = async (request: Request): Promise<string | null> => {
-  try {
-    const authHeader = request.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return null;
-    }
-
-    const token = authHeader.substring(7);
-    const decodedToken = await admin.auth().verifyIdToken(token);
-    return decodedToken.uid;
-  } catch (error) {
-    console.error('Auth verification failed:', error);
-    return null;
-  }
-};
-
 // API: GET /memory/stats - Get memory usage statistics
-export const memoryStats = async (request: Request, response: Response): Promise<void> => {
+export const memoryStats = async (request: Request, response: Response, userId: string): Promise<void> => {
   if (request.method !== 'GET') {
     response.status(405).json({ error: 'Method not allowed' });
     return;
   }
 
   try {
-    const userId = await verifyAuth(request);
-    if (!userId) {
-      response.status(401).json({ error: 'Unauthorized' });
-      return;
-    }
-
     console.log(`Getting memory stats for user: ${userId}`);
 
     // Get semantic memories count
@@ -98,19 +85,13 @@ export const memoryStats = async (request: Request, response: Response): Promise
 };
 
 // API: GET /memory/search - Search memories
-export const memorySearch = async (request: Request, response: Response): Promise<void> => {
+export const memorySearch = async (request: Request, response: Response, userId: string): Promise<void> => {
   if (request.method !== 'GET') {
     response.status(405).json({ error: 'Method not allowed' });
     return;
   }
 
   try {
-    const userId = await verifyAuth(request);
-    if (!userId) {
-      response.status(401).json({ error: 'Unauthorized' });
-      return;
-    }
-
     const query = request.query.q as string;
     const type = request.query.type as string;
     const limit = parseInt(request.query.limit as string) || 20;
@@ -122,53 +103,77 @@ export const memorySearch = async (request: Request, response: Response): Promis
       return;
     }
 
+    // Scores are cosine similarities, so anything but a number in [0, 1] is a client error
+    const rawMinScore = request.query.minScore;
+    const minScore = rawMinScore !== undefined ? Number(rawMinScore) : undefined;
+    if (minScore !== undefined && (typeof rawMinScore !== 'string' || !rawMinScore.trim() || !Number.isFinite(minScore) || minScore < 0 || minScore > 1)) {
+      response.status(400).json({ error: 'minScore must be a number between 0 and 1' });
+      return;
+    }
+    const includeSuperseded = request.query.includeSuperseded === 'true';
+    const embeddings = EmbeddingService.getInstance();
     const results: any[] = [];
 
-    // Search semantic memories (simple text search for now)
+    // Search semantic memories by embedding similarity
     if (!type || type === 'semantic' || type === 'long') {
-      const semanticQuery = db.collection('semanticMemories')
+      const semanticSnapshot = await db.collection('semanticMemories')
         .where('userId', '==', userId)
-        .limit(Math.floor(limit / 2));
+        .get();
+
+      const ranked = await embeddings.rank(
+        includeSuperseded
+          ? semanticSnapshot.docs
+          : semanticSnapshot.docs.filter(doc => isCurrentMemory(doc.data())),
+        query,
+        semanticMemoryText,
+        minScore
+      );
 
-      const semanticSnapshot = await semanticQuery.get();
-      
-      semanticSnapshot.docs.forEach(doc => {
+      ranked.forEach(({ doc, score }) => {
         const data = doc.data();
-        // Simple text matching (would use vector search in production)
-        if (data.content?.toLowerCase().includes(query.toLowerCase()) ||
-            data.keywords?.some((keyword: string) => keyword.toLowerCase().includes(query.toLowerCase()))) {
-          results.push({
-            id: doc.id,
-            type: 'semantic',
-            content: data.content,
-            createdAt: data.createdAt?.toDate?.() || new Date(),
-            score: 0.8 // Mock similarity score
-          });
-        }
+        results.push({
+          id: doc.id,
+          type: 'semantic',
+          content: data.content,
+          category: data.category || null,
+          importance: data.importance ?? null,
+          pinned: data.pinned === true,
+          excludeFromContext: data.excludeFromContext === true,
+          createdAt: data.createdAt?.toDate?.() || new Date(),
+          supersedes: data.supersedes || [],
+          supersededBy: data.supersededBy || null,
+          validUntil: data.validUntil?.toDate?.() || null,
+          score
+        });
       });
     }
 
-    // Search episodic memories
+    // Search episodic memories by embedding similarity
     if (!type || type === 'episodic') {
-      const episodicQuery = db.collection('episodicMemories')
+      const episodicSnapshot = await db.collection('episodicMemories')
         .where('userId', '==', userId)
-        .limit(Math.floor(limit / 2));
+        .get();
 
-      const episodicSnapshot = await episodicQuery.get();
-      
-      episodicSnapshot.docs.forEach(doc => {
+      const ranked = await embeddings.rank(
+        episodicSnapshot.docs,
+        query,
+        episodicMemoryText,
+        minScore
+      );
+
+      ranked.forEach(({ doc, score }) => {
         const data = doc.data();
-        // Simple text matching
-        if (data.summary?.toLowerCase().includes(query.toLowerCase()) ||
-            data.keyTopics?.some((topic: string) => topic.toLowerCase().includes(query.toLowerCase()))) {
-          results.push({
-            id: doc.id,
-            type: 'episodic',
-            content: data.summary,
-            createdAt: data.createdAt?.toDate?.() || new Date(),
-            score: 0.7 // Mock similarity score
-          });
-        }
+        results.push({
+          id: doc.id,
+          type: 'episodic',
+          content: data.summary,
+          category: data.category || null,
+          importance: data.importance ?? null,
+          pinned: data.pinned === true,
+          excludeFromContext: data.excludeFromContext === true,
+          createdAt: data.createdAt?.toDate?.() || new Date(),
+          score
+        });
       });
     }
 
@@ -190,23 +195,21 @@ export const memorySearch = async (request: Request, response: Response): Promis
 };
 
 // API: POST /memory/toggle - Toggle memory settings
-export const memoryToggle = async (request: Request, response: Response): Promise<void> => {
+export const memoryToggle = async (request: Request, response: Response, userId: string): Promise<void> => {
   if (request.method !== 'POST') {
     response.status(405).json({ error: 'Method not allowed' });
     return;
   }
 
   try {
-    const userId = await verifyAuth(request);
-    if (!userId) {
-      response.status(401).json({ error: 'Unauthorized' });
+    const { master, shortTerm, longTerm, episodic, exportFormat } = request.body;
+    if (exportFormat !== undefined && !EXPORT_FORMATS.includes(exportFormat)) {
+      response.status(400).json({ error: `exportFormat must be one of: ${EXPORT_FORMATS.join(', ')}` });
       return;
     }
 
-    const { master, shortTerm, longTerm, episodic } = request.body;
-
     console.log(`Updating memory settings for user: ${userId}`, {
-      master, shortTerm, longTerm, episodic
+      master, shortTerm, longTerm, episodic, exportFormat
     });
 
     // Get current settings
@@ -229,13 +232,14 @@ export const memoryToggle = async (request: Request, response: Response): Promis
     if (shortTerm !== undefined) updatedSettings.shortTermMemoryEnabled = shortTerm;
     if (longTerm !== undefined) updatedSettings.semanticMemoryEnabled = longTerm;
     if (episodic !== undefined) updatedSettings.episodicMemoryEnabled = episodic;
+    if (exportFormat !== undefined) updatedSettings.exportFormat = exportFormat;
 
     // Set defaults for new users
     if (!settingsDoc.exists) {
       updatedSettings.dataRetentionDays = 0;
       updatedSettings.allowCrossConversationMemory = true;
       updatedSettings.allowModelProviderSharing = true;
-      updatedSettings.exportFormat = 'json';
+      updatedSettings.exportFormat = updatedSettings.exportFormat ?? 'json';
       updatedSettings.memoryImportanceThreshold = 0.3;
       updatedSettings.maxSemanticMemories = 1000;
       updatedSettings.maxEpisodicMemories = 100;
@@ -251,7 +255,8 @@ export const memoryToggle = async (request: Request, response: Response): Promis
       memoryEnabled: updatedSettings.memoryEnabled ?? true,
       shortTermMemoryEnabled: updatedSettings.shortTermMemoryEnabled ?? true,
       semanticMemoryEnabled: updatedSettings.semanticMemoryEnabled ?? true,
-      episodicMemoryEnabled: updatedSettings.episodicMemoryEnabled ?? true
+      episodicMemoryEnabled: updatedSettings.episodicMemoryEnabled ?? true,
+      exportFormat: updatedSettings.exportFormat ?? 'json'
     });
 
   } catch (error) {
@@ -261,68 +266,32 @@ export const memoryToggle = async (request: Request, response: Response): Promis
 };
 
 // API: POST /memory/export - Export user memories
-export const memoryExport = async (request: Request, response: Response): Promise<void> => {
+export const memoryExport = async (request: Request, response: Response, userId: string): Promise<void> => {
   if (request.method !== 'POST') {
     response.status(405).json({ error: 'Method not allowed' });
     return;
   }
 
   try {
-    const userId = await verifyAuth(request);
-    if (!userId) {
-      response.status(401).json({ error: 'Unauthorized' });
+    // The saved exportFormat applies unless the request asks for a specific one
+    const requested = request.body?.format;
+    if (requested !== undefined && !EXPORT_FORMATS.includes(requested)) {
+      response.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
       return;
     }
+    const format: ExportFormat = requested || (await loadMemorySettings(userId)).exportFormat;
 
-    console.log(`Exporting memories for user: ${userId}`);
+    console.log(`Exporting memories for user: ${userId} as ${format}`);
 
-    // Get all memories for the user
-    const [semanticSnapshot, episodicSnapshot, shortTermSnapshot, settingsSnapshot] = await Promise.all([
-      db.collection('semanticMemories').where('userId', '==', userId).get(),
-      db.collection('episodicMemories').where('userId', '==', userId).get(),
-      db.collection('shortTermMemories').where('userId', '==', userId).get(),
-      db.collection('memorySettings').doc(userId).get()
-    ]);
+    const file = renderMemoryExport(await buildMemoryExport(db, userId), format);
 
-    // Prepare export data
-    const exportData = {
-      exportDate: new Date().toISOString(),
-      userId,
-      settings: settingsSnapshot.exists ? settingsSnapshot.data() : null,
-      memories: {
-        semantic: semanticSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data(),
-          createdAt: doc.data().createdAt?.toDate?.()?.toISOString(),
-          lastAccessedAt: doc.data().lastAccessedAt?.toDate?.()?.toISOString()
-        })),
-        episodic: episodicSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data(),
-          createdAt: doc.data().createdAt?.toDate?.()?.toISOString(),
-          updatedAt: doc.data().updatedAt?.toDate?.()?.toISOString(),
-          lastAccessedAt: doc.data().lastAccessedAt?.toDate?.()?.toISOString()
-        })),
-        shortTerm: shortTermSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data(),
-          createdAt: doc.data().createdAt?.toDate?.()?.toISOString(),
-          updatedAt: doc.data().updatedAt?.toDate?.()?.toISOString()
-        }))
-      },
-      summary: {
-        totalSemanticMemories: semanticSnapshot.size,
-        totalEpisodicMemories: episodicSnapshot.size,
-        totalShortTermContexts: shortTermSnapshot.size
-      }
-    };
-
-    // Return export data as JSON
-    response.status(200).json({
-      success: true,
-      data: exportData,
-      downloadFilename: `pixtorai-memories-${userId}-${new Date().toISOString().split('T')[0]}.json`
+    response.set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`,
+      'Access-Control-Expose-Headers': 'Content-Disposition',
+      'Cache-Control': 'no-store'
     });
+    response.status(200).send(file.body);
 
   } catch (error) {
     console.error('Error exporting memories:', error);
@@ -330,20 +299,49 @@ export const memoryExport = async (request: Request, response: Response): Promis
   }
 };
 
-// API: DELETE /memory/clear - Clear all user memories
-export const memoryClear = async (request: Request, response: Response): Promise<void> => {
-  if (request.method !== 'DELETE') {
+// API: POST /memory/import - Restore memories from a memoryExport bundle
+export const memoryImport = async (request: Request, response: Response, userId: string): Promise<void> => {
+  if (request.method !== 'POST') {
     response.status(405).json({ error: 'Method not allowed' });
     return;
   }
 
   try {
-    const userId = await verifyAuth(request);
-    if (!userId) {
-      response.status(401).json({ error: 'Unauthorized' });
+    const { mode = 'merge', importSettings } = request.body || {};
+    if (mode !== 'merge' && mode !== 'replace') {
+      response.status(400).json({ error: 'mode must be merge or replace' });
+      return;
+    }
+    if (importSettings !== undefined && typeof importSettings !== 'boolean') {
+      response.status(400).json({ error: 'importSettings must be a boolean' });
+      return;
+    }
+
+    console.log(`Importing memories for user: ${userId} (${mode})`);
+
+    // Replacing everything restores the exported settings too unless told otherwise
+    const report = await importMemories(db, userId, request.body || {}, mode, importSettings ?? mode === 'replace');
+
+    response.status(200).json({ success: true, report });
+
+  } catch (error) {
+    if (error instanceof ImportBundleError) {
+      response.status(400).json({ error: error.message, details: error.details });
       return;
     }
+    console.error('Error importing memories:', error);
+    response.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// API: DELETE /memory/clear - Clear all user memories
+export const memoryClear = async (request: Request, response: Response, userId: string): Promise<void> => {
+  if (request.method !== 'DELETE') {
+    response.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
 
+  try {
     const { confirmToken } = request.body;
 
     // Require confirmation token for safety
@@ -408,155 +406,309 @@ export const memoryClear = async (request: Request, response: Response): Promise
   }
 };
 
-// API: POST /memory/context - Generate conversation context for model requests
-export const memoryContext = async (request: Request, response: Response): Promise<void> => {
-  if (request.method !== 'POST') {
+// API: DELETE /memory/conversations/:id - Forget everything learned from one conversation
+export const memoryForgetConversation = async (request: Request, response: Response, userId: string): Promise<void> => {
+  if (request.method !== 'DELETE') {
     response.status(405).json({ error: 'Method not allowed' });
     return;
   }
 
   try {
-    const userId = await verifyAuth(request);
-    if (!userId) {
-      response.status(401).json({ error: 'Unauthorized' });
+    const conversationId = request.params.id;
+    if (!CONVERSATION_ID_PATTERN.test(conversationId || '')) {
+      response.status(400).json({ error: 'Invalid conversation id' });
       return;
     }
 
-    const { conversationId, currentPrompt, maxTokens = 8000 } = request.body;
+    console.log(`Forgetting conversation ${conversationId} for user: ${userId}`);
 
-    if (!conversationId || !currentPrompt) {
-      response.status(400).json({ error: 'conversationId and currentPrompt are required' });
+    // Every query is scoped to the caller, so another user's conversation id forgets nothing
+    const [semantic, episodicDeleted, shortTermCleared] = await Promise.all([
+      SemanticMemoryService.getInstance().forgetConversation(userId, conversationId),
+      EpisodicMemoryService.getInstance().forgetConversation(userId, conversationId),
+      ShortTermMemoryService.getInstance().clearConversation(conversationId, userId)
+    ]);
+
+    console.log(`Forgot conversation ${conversationId}:`, { semantic, episodicDeleted, shortTermCleared });
+
+    response.status(200).json({
+      success: true,
+      conversationId,
+      semantic,
+      episodicDeleted,
+      shortTermCleared
+    });
+
+  } catch (error) {
+    console.error('Error forgetting conversation:', error);
+    response.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// API: DELETE /memory/conversations/:id/context - Start a conversation's context afresh
+// Only the short-term window and its running summary go; facts and summaries learned from the
+// conversation stay
+export const memoryResetConversation = async (request: Request, response: Response, userId: string): Promise<void> => {
+  if (request.method !== 'DELETE') {
+    response.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const conversationId = request.params.id;
+    if (!CONVERSATION_ID_PATTERN.test(conversationId || '')) {
+      response.status(400).json({ error: 'Invalid conversation id' });
       return;
     }
 
-    console.log(`Generating context for conversation: ${conversationId}`);
+    const shortTermCleared = await ShortTermMemoryService.getInstance().clearConversation(conversationId, userId);
+    response.status(200).json({ success: true, conversationId, shortTermCleared });
 
-    // Get user's memory settings
-    const settingsDoc = await db.collection('memorySettings').doc(userId).get();
-    const memorySettings = settingsDoc.exists ? settingsDoc.data() : {
-      memoryEnabled: true,
-      shortTermMemoryEnabled: true,
-      semanticMemoryEnabled: true,
-      episodicMemoryEnabled: true
-    };
+  } catch (error) {
+    console.error('Error resetting conversation context:', error);
+    response.status(500).json({ error: 'Internal server error' });
+  }
+};
 
-    let contextParts: string[] = [];
-    let tokenCount = 0;
-    let remainingTokens = maxTokens;
-
-    // System prompt (always included)
-    const systemPrompt = `You are Pixtorai, a helpful multi-turn AI assistant.
-Use "Known Facts" (retrieved memories), conversation summaries, and recent turns to maintain continuity. Prefer recent preferences over older ones. If context is missing, ask a brief clarifying question. Respect privacy: do not reveal hidden memories unless the user asks. Be clear, concise, and conversational; naturally reference prior context without repeating it verbatim.`;
-
-    contextParts.push(`SYSTEM: ${systemPrompt}`);
-    tokenCount += Math.ceil(systemPrompt.length / 4);
-    remainingTokens -= tokenCount;
-
-    // Get short-term memory (recent conversation context)
-    if (memorySettings?.shortTermMemoryEnabled && remainingTokens > 0) {
-      const shortTermDoc = await db.collection('shortTermMemories').doc(`${conversationId}_${userId}`).get();
-      
-      if (shortTermDoc.exists) {
-        const shortTermData = shortTermDoc.data();
-        const recentMessages = shortTermData?.messages?.slice(-10) || []; // Last 10 messages
-        
-        if (recentMessages.length > 0) {
-          const messageContext = recentMessages.map((msg: any) => 
-            `${msg.role.toUpperCase()}: ${msg.content}`
-          ).join('\n');
-          
-          const messageTokens = Math.ceil(messageContext.length / 4);
-          if (messageTokens <= remainingTokens * 0.5) { // Use max 50% for recent messages
-            contextParts.push(`RECENT CONVERSATION:\n${messageContext}`);
-            tokenCount += messageTokens;
-            remainingTokens -= messageTokens;
-          }
-        }
-      }
+// Individual memories, addressed as /memory/semantic/:id and /memory/episodic/:id
+type MemoryKind = 'semantic' | 'episodic';
+
+const MEMORY_COLLECTIONS: Record<MemoryKind, string> = {
+  semantic: 'semanticMemories',
+  episodic: 'episodicMemories'
+};
+
+const MAX_MEMORY_CONTENT_LENGTH = 2000;
+const MAX_MEMORY_CATEGORY_LENGTH = 50;
+
+// Load a memory owned by the user; memories belonging to others are reported as missing
+const getOwnedMemory = async (kind: MemoryKind, id: string, userId: string) => {
+  const snapshot = await db.collection(MEMORY_COLLECTIONS[kind]).doc(id).get();
+  if (!snapshot.exists || snapshot.data()?.userId !== userId) {
+    return null;
+  }
+  return snapshot;
+};
+
+const serializeMemory = (kind: MemoryKind, snapshot: admin.firestore.DocumentSnapshot) => {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    type: kind,
+    content: kind === 'semantic' ? data.content : data.summary,
+    category: data.category || null,
+    importance: data.importance ?? null,
+    pinned: data.pinned === true,
+    excludeFromContext: data.excludeFromContext === true,
+    conversationId: data.conversationId || null,
+    keywords: (kind === 'semantic' ? data.keywords : data.keyTopics) || [],
+    createdAt: data.createdAt?.toDate?.()?.toISOString() || null,
+    updatedAt: data.updatedAt?.toDate?.()?.toISOString() || null,
+    lastAccessedAt: data.lastAccessedAt?.toDate?.()?.toISOString() || null,
+    supersedes: data.supersedes || [],
+    supersededBy: data.supersededBy || null,
+    validUntil: data.validUntil?.toDate?.()?.toISOString() || null
+  };
+};
+
+// API: GET /memory/{semantic|episodic}/:id - Get a single memory
+export const memoryGet = (kind: MemoryKind) => async (request: Request, response: Response, userId: string): Promise<void> => {
+  if (request.method !== 'GET') {
+    response.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const snapshot = await getOwnedMemory(kind, request.params.id, userId);
+    if (!snapshot) {
+      response.status(404).json({ error: 'Memory not found' });
+      return;
     }
 
-    // Get relevant semantic memories (long-term facts)
-    if (memorySettings?.semanticMemoryEnabled && remainingTokens > 500) {
-      const semanticSnapshot = await db.collection('semanticMemories')
-        .where('userId', '==', userId)
-        .orderBy('importance', 'desc')
-        .limit(10)
-        .get();
+    response.status(200).json({ memory: serializeMemory(kind, snapshot) });
 
-      const relevantMemories: string[] = [];
-      let semanticTokens = 0;
+  } catch (error) {
+    console.error('Error getting memory:', error);
+    response.status(500).json({ error: 'Internal server error' });
+  }
+};
 
-      semanticSnapshot.docs.forEach(doc => {
-        const data = doc.data();
-        // Simple relevance check (would use vector search in production)
-        if (data.content?.toLowerCase().includes(currentPrompt.toLowerCase().split(' ')[0]) ||
-            data.keywords?.some((keyword: string) => currentPrompt.toLowerCase().includes(keyword.toLowerCase()))) {
-          const memoryText = `- ${data.content}`;
-          const memoryTokens = Math.ceil(memoryText.length / 4);
-          
-          if (semanticTokens + memoryTokens <= remainingTokens * 0.3) { // Use max 30% for semantic memories
-            relevantMemories.push(memoryText);
-            semanticTokens += memoryTokens;
-          }
-        }
-      });
+// API: GET /memory/semantic/:id/history - Every version of a fact, oldest first
+export const memoryHistory = async (request: Request, response: Response, userId: string): Promise<void> => {
+  if (request.method !== 'GET') {
+    response.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
 
-      if (relevantMemories.length > 0) {
-        const memoriesContext = `KNOWN FACTS:\n${relevantMemories.join('\n')}`;
-        contextParts.push(memoriesContext);
-        tokenCount += semanticTokens;
-        remainingTokens -= semanticTokens;
-      }
+  try {
+    const history = await SemanticMemoryService.getInstance().getHistory(userId, request.params.id);
+    if (!history) {
+      response.status(404).json({ error: 'Memory not found' });
+      return;
     }
 
-    // Get relevant episodic memories (conversation summaries)
-    if (memorySettings?.episodicMemoryEnabled && remainingTokens > 300) {
-      const episodicSnapshot = await db.collection('episodicMemories')
-        .where('userId', '==', userId)
-        .orderBy('createdAt', 'desc')
-        .limit(3)
-        .get();
+    response.status(200).json({
+      id: request.params.id,
+      history: history.map(snapshot => serializeMemory('semantic', snapshot))
+    });
 
-      const episodicSummaries: string[] = [];
-      let episodicTokens = 0;
+  } catch (error) {
+    console.error('Error getting memory history:', error);
+    response.status(500).json({ error: 'Internal server error' });
+  }
+};
 
-      episodicSnapshot.docs.forEach(doc => {
-        const data = doc.data();
-        const summaryText = `Previous conversation: ${data.summary}`;
-        const summaryTokensCount = Math.ceil(summaryText.length / 4);
-        
-        if (episodicTokens + summaryTokensCount <= remainingTokens * 0.2) { // Use max 20% for episodic
-          episodicSummaries.push(summaryText);
-          episodicTokens += summaryTokensCount;
-        }
-      });
+// API: PATCH /memory/{semantic|episodic}/:id - Edit content, category or importance, or pin a memory
+export const memoryUpdate = (kind: MemoryKind) => async (request: Request, response: Response, userId: string): Promise<void> => {
+  if (request.method !== 'PATCH') {
+    response.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const body = request.body || {};
+    const allowedFields = ['content', 'category', 'importance', 'pinned', 'excludeFromContext'];
+    const unknownFields = Object.keys(body).filter(field => !allowedFields.includes(field));
+    if (unknownFields.length > 0) {
+      response.status(400).json({ error: `Unknown fields: ${unknownFields.join(', ')}`, allowedFields });
+      return;
+    }
+
+    const { content, category, importance, pinned, excludeFromContext } = body;
+    const validationErrors: string[] = [];
+    if (content !== undefined && (typeof content !== 'string' || !content.trim() || content.length > MAX_MEMORY_CONTENT_LENGTH)) {
+      validationErrors.push(`content must be a non-empty string of at most ${MAX_MEMORY_CONTENT_LENGTH} characters`);
+    }
+    if (category !== undefined && (typeof category !== 'string' || !category.trim() || category.length > MAX_MEMORY_CATEGORY_LENGTH)) {
+      validationErrors.push(`category must be a non-empty string of at most ${MAX_MEMORY_CATEGORY_LENGTH} characters`);
+    }
+    if (importance !== undefined && (typeof importance !== 'number' || !(importance >= 0 && importance <= 1))) {
+      validationErrors.push('importance must be a number between 0 and 1');
+    }
+    if (pinned !== undefined && typeof pinned !== 'boolean') {
+      validationErrors.push('pinned must be a boolean');
+    }
+    if (excludeFromContext !== undefined && typeof excludeFromContext !== 'boolean') {
+      validationErrors.push('excludeFromContext must be a boolean');
+    }
+    if (validationErrors.length > 0) {
+      response.status(400).json({ error: 'Invalid memory update', details: validationErrors });
+      return;
+    }
+
+    const snapshot = await getOwnedMemory(kind, request.params.id, userId);
+    if (!snapshot) {
+      response.status(404).json({ error: 'Memory not found' });
+      return;
+    }
 
-      if (episodicSummaries.length > 0) {
-        const episodicContext = `CONVERSATION HISTORY:\n${episodicSummaries.join('\n\n')}`;
-        contextParts.push(episodicContext);
-        tokenCount += episodicTokens;
-        remainingTokens -= episodicTokens;
+    const updates: Record<string, unknown> = {
+      updatedAt: admin.firestore.Timestamp.now()
+    };
+    if (category !== undefined) updates.category = category.trim();
+    if (importance !== undefined) updates.importance = importance;
+    if (pinned !== undefined) updates.pinned = pinned;
+    // Excluded memories are kept and searchable but never given to the model again
+    if (excludeFromContext !== undefined) updates.excludeFromContext = excludeFromContext;
+
+    if (content !== undefined) {
+      const text = content.trim();
+      // Edited text needs a fresh vector so search reflects the correction
+      Object.assign(updates, await EmbeddingService.getInstance().embedForStorage(text));
+      if (kind === 'semantic') {
+        updates.content = text;
+        updates.keywords = extractKeywords(text);
+      } else {
+        updates.summary = text;
       }
     }
 
-    // Add current prompt
-    contextParts.push(`USER: ${currentPrompt}`);
-    const promptTokens = Math.ceil(currentPrompt.length / 4);
-    tokenCount += promptTokens;
+    await snapshot.ref.update(updates);
+    console.log(`Updated ${kind} memory ${snapshot.id} for user: ${userId}`, Object.keys(updates));
+
+    const updated = await snapshot.ref.get();
+    response.status(200).json({ success: true, memory: serializeMemory(kind, updated) });
+
+  } catch (error) {
+    console.error('Error updating memory:', error);
+    response.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// API: DELETE /memory/{semantic|episodic}/:id - Permanently delete a single memory
+export const memoryDelete = (kind: MemoryKind) => async (request: Request, response: Response, userId: string): Promise<void> => {
+  if (request.method !== 'DELETE') {
+    response.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const snapshot = await getOwnedMemory(kind, request.params.id, userId);
+    if (!snapshot) {
+      response.status(404).json({ error: 'Memory not found' });
+      return;
+    }
+
+    // Facts the deleted memory had superseded are current again once it is gone
+    if (kind === 'semantic') {
+      const { restored } = await SemanticMemoryService.getInstance().deleteMemory(userId, snapshot.id);
+      console.log(`Deleted semantic memory ${snapshot.id} for user: ${userId}, ${restored} restored`);
+      response.status(200).json({ success: true, id: snapshot.id, type: kind, restored });
+      return;
+    }
+
+    await snapshot.ref.delete();
+    console.log(`Deleted ${kind} memory ${snapshot.id} for user: ${userId}`);
+
+    response.status(200).json({ success: true, id: snapshot.id, type: kind });
+
+  } catch (error) {
+    console.error('Error deleting memory:', error);
+    response.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// API: POST /memory/context - Generate conversation context for model requests
+export const memoryContext = async (request: Request, response: Response, userId: string): Promise<void> => {
+  if (request.method !== 'POST') {
+    response.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const { conversationId, currentPrompt, maxTokens = 8000 } = request.body;
+
+    if (!conversationId || !currentPrompt) {
+      response.status(400).json({ error: 'conversationId and currentPrompt are required' });
+      return;
+    }
+    if (typeof conversationId !== 'string' || !CONVERSATION_ID_PATTERN.test(conversationId) || typeof currentPrompt !== 'string') {
+      response.status(400).json({ error: 'Invalid conversationId or currentPrompt' });
+      return;
+    }
+    if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+      response.status(400).json({ error: 'maxTokens must be a positive integer' });
+      return;
+    }
+
+    console.log(`Generating context for conversation: ${conversationId}`);
 
-    // Combine all context
-    const fullContext = contextParts.join('\n\n');
+    // Same retrieval and packing as a generation request, capped at the caller's budget
+    const memoryContext = await buildMemoryContext(userId, conversationId, currentPrompt);
+    const { text, breakdown, references } = buildContextualPrompt(memoryContext, currentPrompt, 'chat', GEMINI_CHAT_MODEL, maxTokens);
 
     response.status(200).json({
-      context: fullContext,
-      tokenCount,
-      remainingTokens: Math.max(0, maxTokens - tokenCount),
+      context: text,
+      tokenCount: breakdown.total,
+      remainingTokens: Math.max(0, maxTokens - breakdown.total),
       components: {
         systemPrompt: true,
-        shortTerm: contextParts.some(part => part.startsWith('RECENT CONVERSATION')),
-        semantic: contextParts.some(part => part.startsWith('KNOWN FACTS')),
-        episodic: contextParts.some(part => part.startsWith('CONVERSATION HISTORY'))
-      }
+        shortTerm: breakdown.summary + breakdown.recentMessages > 0,
+        semantic: breakdown.facts > 0,
+        episodic: breakdown.episodes > 0
+      },
+      memoryReferences: references,
+      tokenBreakdown: breakdown
     });
 
   } catch (error) {
@@ -0,0 +1,232 @@
+// Memory context for model prompts
+// Retrieves what a turn may draw on from each memory layer and packs it into the model's token
+// budget. Generation and POST /memory/context both build prompts here, so they report the same
+// breakdown.
+import { MemoryReference, TokenBreakdown } from './memory-types';
+import { loadMemorySettings } from './memory-settings';
+import { ShortTermMemoryService } from './short-term-memory-service';
+import { SemanticMemoryService } from './semantic-memory-service';
+import { EpisodicMemoryService } from './episodic-memory-service';
+import { TokenCounter, getTokenCounter, getModelTokenLimits } from './token-counter';
+import { packSections } from './context-packer';
+
+const MEMORY_PREVIEW_LENGTH = 120;
+
+export interface MemoryContext {
+  systemPrompt: string;
+  knownFacts: string[];
+  conversationSummary: string; // earlier turns of this conversation that left the short-term window
+  conversationHistory: string[];
+  recentMessages: Array<{ role: string; content: string }>;
+  // Where each item above came from, index for index, so a reply can cite what it was given
+  sources: {
+    facts: string[];
+    summary: string | null;
+    conversationHistory: string[];
+    recentMessages: string[];
+  };
+}
+
+export const SYSTEM_PROMPT = `You are Pixtorai, a helpful multi-turn AI assistant.
+Use "Known Facts" (retrieved memories), conversation summaries, and recent turns to maintain continuity. Prefer recent preferences over older ones. If context is missing, ask a brief clarifying question. Respect privacy: do not reveal hidden memories unless the user asks. Be clear, concise, and conversational; naturally reference prior context without repeating it verbatim.`;
+
+const emptyMemoryContext = (systemPrompt: string): MemoryContext => ({
+  systemPrompt,
+  knownFacts: [],
+  conversationSummary: '',
+  conversationHistory: [],
+  recentMessages: [],
+  sources: { facts: [], summary: null, conversationHistory: [], recentMessages: [] }
+});
+
+// Memory context builder
+export const buildMemoryContext = async (userId: string, conversationId: string, prompt: string): Promise<MemoryContext> => {
+  try {
+    console.log(`Building memory context for user: ${userId}, conversation: ${conversationId}`);
+
+    const settings = await loadMemorySettings(userId);
+    if (!settings.memoryEnabled) {
+      return emptyMemoryContext(SYSTEM_PROMPT);
+    }
+
+    const scope = { conversationId, allowCrossConversation: settings.allowCrossConversationMemory };
+    const [rankedFacts, rankedEpisodes, conversation] = await Promise.all([
+      // Known facts most similar to the prompt, from this conversation only unless sharing is allowed
+      settings.semanticMemoryEnabled
+        ? SemanticMemoryService.getInstance().findRelevant(userId, prompt, 10, scope)
+        : Promise.resolve([]),
+      // Summaries of related earlier conversations
+      settings.episodicMemoryEnabled && settings.allowCrossConversationMemory
+        ? EpisodicMemoryService.getInstance().findRelevant(userId, conversationId, prompt, 3)
+        : Promise.resolve([]),
+      // Latest turns of this conversation and the summary of those before them
+      settings.shortTermMemoryEnabled
+        ? ShortTermMemoryService.getInstance().getConversationMemory(conversationId, userId)
+        : Promise.resolve({ windowId: '', summary: '', messages: [] })
+    ]);
+
+    const facts = rankedFacts
+      .map(({ doc }) => doc)
+      .filter(doc => doc.data().content && typeof doc.data().content === 'string');
+    const knownFacts = facts.map(doc => doc.data().content as string);
+
+    const episodes = rankedEpisodes
+      .map(({ doc }) => doc)
+      .filter(doc => doc.data().summary && typeof doc.data().summary === 'string');
+    const conversationHistory = episodes.map(doc => doc.data().summary as string);
+
+    const recentMessages = conversation.messages.map(message => ({
+      role: message.role,
+      content: message.content
+    }));
+
+    console.log(`Memory context built: ${knownFacts.length} facts, ${conversationHistory.length} summaries, ${recentMessages.length} recent messages` +
+      (conversation.summary ? ', running summary' : ''));
+
+    return {
+      systemPrompt: SYSTEM_PROMPT,
+      knownFacts,
+      conversationSummary: conversation.summary,
+      conversationHistory,
+      recentMessages,
+      sources: {
+        facts: facts.map(doc => doc.id),
+        summary: conversation.summary ? conversation.windowId : null,
+        conversationHistory: episodes.map(doc => doc.id),
+        recentMessages: conversation.messages.map(message => message.messageId)
+      }
+    };
+
+  } catch (error) {
+    console.error('Error building memory context:', error);
+    return emptyMemoryContext(`You are Pixtorai, a helpful multi-turn AI assistant.`);
+  }
+};
+
+const MODE_INSTRUCTIONS: Record<string, string> = {
+  chat: 'MODE: Engage in natural conversation, maintaining context and personality.',
+  photo: 'MODE: Focus on image generation, editing, or visual analysis tasks. Be creative and detailed in visual descriptions.',
+  image: 'MODE: Focus on image generation, editing, or visual analysis tasks. Be creative and detailed in visual descriptions.'
+};
+
+export interface ContextualPrompt {
+  text: string;
+  breakdown: TokenBreakdown;
+  references: MemoryReference[]; // the memory items that made it into `text`
+}
+
+const preview = (text: string): string => {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > MEMORY_PREVIEW_LENGTH ? `${line.substring(0, MEMORY_PREVIEW_LENGTH - 1)}…` : line;
+};
+
+// Tokens the system prompt, mode line and user prompt need before any memory is added
+export const countFixedTokens = (systemPrompt: string, userPrompt: string, mode: string, counter: TokenCounter) => ({
+  system: counter.count(`SYSTEM: ${systemPrompt}\n\n`) + (MODE_INSTRUCTIONS[mode] ? counter.count(`${MODE_INSTRUCTIONS[mode]}\n\n`) : 0),
+  prompt: counter.count(`USER: ${userPrompt}`)
+});
+
+// Build contextual prompt with memory, packed into the model's window by priority: known facts,
+// this conversation's running summary, summaries of other conversations, then recent turns.
+// `maxTokens` caps the whole prompt below what the window allows.
+export const buildContextualPrompt = (
+  context: MemoryContext,
+  userPrompt: string,
+  mode: string,
+  modelName: string,
+  maxTokens?: number
+): ContextualPrompt => {
+  const counter = getTokenCounter(modelName);
+  const limits = getModelTokenLimits(modelName);
+  const fixed = countFixedTokens(context.systemPrompt, userPrompt, mode, counter);
+  const promptBudget = Math.min(limits.contextWindow - limits.maxOutputTokens, maxTokens ?? Infinity);
+
+  const packed = packSections([
+    {
+      key: 'facts',
+      header: 'KNOWN FACTS:',
+      items: context.knownFacts.map(fact => `- ${fact}`),
+      separator: '\n'
+    },
+    {
+      key: 'summary',
+      header: 'EARLIER IN THIS CONVERSATION:',
+      items: context.conversationSummary ? [context.conversationSummary] : [],
+      separator: '\n'
+    },
+    {
+      key: 'episodes',
+      header: 'CONVERSATION HISTORY:',
+      items: context.conversationHistory.map(summary => `Previous conversation: ${summary}`),
+      separator: '\n\n'
+    },
+    {
+      key: 'recentMessages',
+      header: 'RECENT CONVERSATION:',
+      items: context.recentMessages.map(msg => `${msg.role.toUpperCase()}: ${msg.content}`),
+      separator: '\n',
+      newestLast: true
+    }
+  ], Math.max(0, promptBudget - fixed.system - fixed.prompt), counter);
+
+  const parts = [
+    `SYSTEM: ${context.systemPrompt}`,
+    packed.facts.text,
+    packed.summary.text,
+    packed.episodes.text,
+    packed.recentMessages.text,
+    MODE_INSTRUCTIONS[mode] || '',
+    `USER: ${userPrompt}`
+  ].filter(part => part.length > 0);
+
+  const { sources } = context;
+  const references: MemoryReference[] = [
+    ...packed.facts.indices.map(index => ({
+      type: 'semantic' as const,
+      id: sources.facts[index],
+      preview: preview(context.knownFacts[index])
+    })),
+    ...(sources.summary && packed.summary.indices.length > 0
+      ? [{
+        type: 'shortTerm' as const,
+        id: sources.summary,
+        preview: preview(`Earlier in this conversation: ${context.conversationSummary}`)
+      }]
+      : []),
+    ...packed.episodes.indices.map(index => ({
+      type: 'episodic' as const,
+      id: sources.conversationHistory[index],
+      preview: preview(context.conversationHistory[index])
+    })),
+    ...packed.recentMessages.indices.map(index => ({
+      type: 'shortTerm' as const,
+      id: sources.recentMessages[index],
+      preview: preview(`${context.recentMessages[index].role}: ${context.recentMessages[index].content}`)
+    }))
+  ];
+
+  return {
+    text: parts.join('\n\n'),
+    references,
+    breakdown: {
+      model: modelName,
+      tokenizer: counter.id,
+      contextWindow: limits.contextWindow,
+      reservedForOutput: limits.maxOutputTokens,
+      system: fixed.system,
+      facts: packed.facts.tokens,
+      summary: packed.summary.tokens,
+      episodes: packed.episodes.tokens,
+      recentMessages: packed.recentMessages.tokens,
+      prompt: fixed.prompt,
+      total: fixed.system + packed.facts.tokens + packed.summary.tokens + packed.episodes.tokens +
+        packed.recentMessages.tokens + fixed.prompt,
+      dropped: {
+        facts: packed.facts.dropped,
+        episodes: packed.episodes.dropped,
+        recentMessages: packed.recentMessages.dropped
+      },
+      truncated: [packed.facts, packed.summary, packed.episodes, packed.recentMessages].some(section => section.truncated)
+    }
+  };
+};
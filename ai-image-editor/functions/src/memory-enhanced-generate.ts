@@ -2,254 +2,442 @@
 // Integrates conversation memory for continuous context across model calls
 
 import * as admin from 'firebase-admin';
-import * as functions from 'firebase-functions';
 import { Request, Response } from 'firebase-functions';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { SubscriptionService } from './subscription-service';
+import { FeatureGateResult, OperationType, Plan, UsageLimitResult, UsageReservation } from './subscription-types';
+import { ImageProviderRegistry, describeImageProviderFailure } from './image-provider-registry';
+import { ImageGenerationFailedError } from './image-provider-types';
+import { GeneratedImageStore, StoredImage } from './generated-image-store';
+import { IMAGE_ID_PATTERN, ImageLineage, ImageLineageError, loadParentImage } from './image-lineage';
+import { PNG_SIGNATURE, imageDimensions, pngDimensions } from './image-dimensions';
+import { CONVERSATION_ID_PATTERN, ConversationTurn, newTurnId } from './memory-types';
+import { loadMemorySettings } from './memory-settings';
+import { ShortTermMemoryService } from './short-term-memory-service';
+import { SemanticMemoryService } from './semantic-memory-service';
+import { EpisodicMemoryService } from './episodic-memory-service';
+import { getTokenCounter, getModelTokenLimits } from './token-counter';
+import {
+  ContextualPrompt,
+  MemoryContext,
+  SYSTEM_PROMPT,
+  buildContextualPrompt,
+  buildMemoryContext,
+  countFixedTokens
+} from './memory-context';
+import { ChatModelRegistry } from './chat-model-registry';
+import { ChatContentBlockedError, ChatModelProvider, ChatModelResult } from './chat-model-types';
+import { ChatFailover, ChatFailoverError, ChatFailoverResult } from './chat-failover';
+import { ProviderRateLimiter } from './provider-rate-limiter';
 const busboy = require('busboy');
 
-// Types for memory integration
-interface MemoryContext {
-  systemPrompt: string;
-  knownFacts: string[];
-  conversationHistory: string[];
-  recentMessages: Array<{ role: string; content: string }>;
-}
-
 interface EnhancedRequest extends Request {
   memoryContext?: MemoryContext;
 }
 
-// Authentication helper
-const verifyAuth = async (request: Request): Promise<string | null> => {
-  try {
-    const authHeader = request.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return null;
-    }
+const VALID_MODES = ['chat', 'photo', 'image'];
 
-    const token = authHeader.substring(7);
-    const decodedToken = await admin.auth().verifyIdToken(token);
-    return decodedToken.uid;
-  } catch (error) {
-    console.error('Auth verification failed:', error);
-    return null;
+// Masked edits: the mask is a PNG the size of the source image, white where the edit applies
+const MASK_OPERATIONS: OperationType[] = ['inpainting', 'object_removal'];
+const MAX_MASK_BYTES = 10 * 1024 * 1024;
+const MASK_DATA_URL_PATTERN = /^data:image\/png;base64,([A-Za-z0-9+/=\s]+)$/;
+const OBJECT_REMOVAL_PROMPT = 'Remove the masked object and fill the area so it blends naturally with its surroundings.';
+
+interface UploadedImage {
+  buffer: Buffer;
+  mimeType: string;
+}
+
+// Structured quota rejection, shaped for ChatInterface's USAGE_LIMIT_EXCEEDED handling
+const sendUsageLimitExceeded = (response: Response, usageLimit: UsageLimitResult): void => {
+  const retryAfterSeconds = Math.max(0, Math.ceil((usageLimit.resetAt.getTime() - Date.now()) / 1000));
+  response.set('Retry-After', String(retryAfterSeconds));
+  response.status(429).json({
+    success: false,
+    error: usageLimit.reason || 'Daily usage limit exceeded',
+    errorType: 'USAGE_LIMIT_EXCEEDED',
+    used: usageLimit.used,
+    limit: usageLimit.limit,
+    remaining: usageLimit.remaining,
+    resetAt: usageLimit.resetAt.toISOString(),
+    plan: usageLimit.plan,
+    suggestedPlan: usageLimit.suggestedPlan || null
+  });
+};
+
+// Why a masked edit request can't be run, or null when it can (or carries no mask)
+const validateMask = (mask: UploadedImage | null, maskOperation: unknown, mode: string, files: UploadedImage[]): string | null => {
+  if (!mask) {
+    return maskOperation !== undefined && maskOperation !== '' ? 'maskOperation requires a mask' : null;
   }
+  if (mask.buffer.length > MAX_MASK_BYTES) {
+    return `mask must be at most ${MAX_MASK_BYTES} bytes`;
+  }
+  if (!mask.buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    return 'mask must be a PNG image';
+  }
+  if (maskOperation !== undefined && maskOperation !== '' && !MASK_OPERATIONS.includes(maskOperation as OperationType)) {
+    return `maskOperation must be one of: ${MASK_OPERATIONS.join(', ')}`;
+  }
+  if (mode === 'chat') {
+    return 'A mask requires photo or image mode';
+  }
+  if (files.length === 0) {
+    return 'A mask requires a source image to edit';
+  }
+  // The mask is painted over the first image, pixel for pixel; a source we can't measure isn't checked
+  const maskSize = pngDimensions(mask.buffer);
+  const sourceSize = imageDimensions(files[0].buffer);
+  if (!maskSize) {
+    return 'mask must be a PNG image';
+  }
+  if (sourceSize && (maskSize.width !== sourceSize.width || maskSize.height !== sourceSize.height)) {
+    return `mask is ${maskSize.width}x${maskSize.height} but the source image is ${sourceSize.width}x${sourceSize.height}`;
+  }
+  return null;
+};
+
+const sendFeatureGateBlocked = (response: Response, gate: FeatureGateResult, plan: Plan): void => {
+  response.status(403).json({
+    success: false,
+    error: gate.reason || 'Feature not available in current plan',
+    errorType: 'FEATURE_GATE_BLOCKED',
+    requiredTier: gate.requiredTier,
+    plan,
+    suggestedPlan: gate.suggestedPlan || null
+  });
 };
 
-// Memory context builder
-const buildMemoryContext = async (userId: string, conversationId: string, prompt: string): Promise<MemoryContext> => {
-  const db = admin.firestore();
-  
+// Save a completed turn to every enabled memory layer
+const saveToMemory = async (turn: ConversationTurn): Promise<void> => {
   try {
-    console.log(`Building memory context for user: ${userId}, conversation: ${conversationId}`);
-
-    // System prompt for Pixtorai
-    const systemPrompt = `You are Pixtorai, a helpful multi-turn AI assistant.
-Use "Known Facts" (retrieved memories), conversation summaries, and recent turns to maintain continuity. Prefer recent preferences over older ones. If context is missing, ask a brief clarifying question. Respect privacy: do not reveal hidden memories unless the user asks. Be clear, concise, and conversational; naturally reference prior context without repeating it verbatim.`;
-
-    // Get user's memory settings
-    const settingsDoc = await db.collection('memorySettings').doc(userId).get();
-    const memoryEnabled = settingsDoc.exists ? settingsDoc.data()?.memoryEnabled : true;
-
-    if (!memoryEnabled) {
-      return {
-        systemPrompt,
-        knownFacts: [],
-        conversationHistory: [],
-        recentMessages: []
-      };
+    const settings = await loadMemorySettings(turn.userId);
+    if (!settings.memoryEnabled) {
+      return;
     }
 
-    // Get semantic memories (known facts)
-    const semanticSnapshot = await db.collection('semanticMemories')
-      .where('userId', '==', userId)
-      .orderBy('importance', 'desc')
-      .limit(5)
-      .get();
-
-    const knownFacts = semanticSnapshot.docs
-      .map(doc => doc.data().content)
-      .filter(content => content && typeof content === 'string');
-
-    // Get episodic memories (conversation summaries)
-    const episodicSnapshot = await db.collection('episodicMemories')
-      .where('userId', '==', userId)
-      .orderBy('createdAt', 'desc')
-      .limit(2)
-      .get();
-
-    const conversationHistory = episodicSnapshot.docs
-      .map(doc => doc.data().summary)
-      .filter(summary => summary && typeof summary === 'string');
-
-    // Get short-term memory (recent messages)
-    const shortTermDoc = await db.collection('shortTermMemories')
-      .doc(`${conversationId}_${userId}`)
-      .get();
-
-    let recentMessages: Array<{ role: string; content: string }> = [];
-    if (shortTermDoc.exists) {
-      const shortTermData = shortTermDoc.data();
-      recentMessages = (shortTermData?.messages || [])
-        .slice(-6) // Last 6 messages
-        .map((msg: any) => ({
-          role: msg.role,
-          content: msg.content
-        }));
+    // The episode is built from the short-term window, so it needs that layer too
+    if (settings.shortTermMemoryEnabled) {
+      const shortTerm = ShortTermMemoryService.getInstance();
+      const window = await shortTerm.appendTurn(turn);
+      if (window.overflowCount > 0) {
+        await shortTerm.foldOverflow(turn.conversationId, turn.userId);
+      }
+      if (settings.episodicMemoryEnabled) {
+        await EpisodicMemoryService.getInstance().recordConversation(turn.userId, turn.conversationId, window, settings);
+      }
     }
 
-    console.log(`Memory context built: ${knownFacts.length} facts, ${conversationHistory.length} summaries, ${recentMessages.length} recent messages`);
+    if (settings.semanticMemoryEnabled) {
+      await SemanticMemoryService.getInstance().rememberFromTurn(turn, settings);
+    }
 
-    return {
-      systemPrompt,
-      knownFacts,
-      conversationHistory,
-      recentMessages
-    };
+    console.log(`Saved conversation to memory: ${turn.conversationId}`);
 
   } catch (error) {
-    console.error('Error building memory context:', error);
-    return {
-      systemPrompt: `You are Pixtorai, a helpful multi-turn AI assistant.`,
-      knownFacts: [],
-      conversationHistory: [],
-      recentMessages: []
-    };
+    console.error('Error saving to memory:', error);
+    // Don't throw - memory saving shouldn't block the response
   }
 };
 
-// Build contextual prompt with memory
-const buildContextualPrompt = (context: MemoryContext, userPrompt: string, mode: string): string => {
-  const parts: string[] = [];
+// Everything a generation needs once the request has been authenticated, parsed and admitted
+interface PreparedGeneration {
+  userId: string;
+  prompt: string;
+  mode: string;
+  conversationId: string;
+  files: UploadedImage[];
+  mask: UploadedImage | null; // limits the edit of the first image to the masked area
+  lineage: ImageLineage | null; // set when editing an earlier generated image
+  chatCandidates: ChatModelProvider[]; // chat models in the order they are tried; empty for image turns
+  operationType: OperationType;
+  usageLimit: UsageReservation; // already holds this request's quota slot
+  memoryContext: MemoryContext;
+  contextualPrompt: ContextualPrompt;
+  modelName: string;
+}
+
+// Counts what made it into the prompt, not everything that was retrieved
+const buildMemoryUsed = (memoryContext: MemoryContext, { breakdown }: ContextualPrompt) => ({
+  knownFacts: memoryContext.knownFacts.length - breakdown.dropped.facts,
+  conversationSummary: breakdown.summary > 0,
+  conversationHistory: memoryContext.conversationHistory.length - breakdown.dropped.episodes,
+  recentMessages: memoryContext.recentMessages.length - breakdown.dropped.recentMessages
+});
+
+const buildUsageSummary = (usageLimit: UsageReservation) => ({
+  used: usageLimit.used,
+  limit: usageLimit.limit,
+  remaining: usageLimit.remaining,
+  resetAt: usageLimit.resetAt.toISOString()
+});
+
+// Shared by the buffered and streaming routes: body parsing, memory context and quota.
+// Returns null when an error response has already been sent. Otherwise the request holds a slot of
+// the daily quota, which the caller must give back with releaseUsage if the turn doesn't complete.
+const prepareGeneration = async (request: EnhancedRequest, response: Response, userId: string): Promise<PreparedGeneration | null> => {
+  console.log(`Authenticated user: ${userId}`);
+
+  // Handle both JSON and multipart requests
+  const contentType = request.headers['content-type'] || '';
+  let prompt = '';
+  let mode = 'chat';
+  let conversationId = `conv_${Date.now()}`;
+  let parentImageId: unknown;
+  let maskOperation: unknown;
+  let mask: UploadedImage | null = null;
+  let maskError: string | null = null;
+  const files: UploadedImage[] = [];
+
+  if (contentType.includes('application/json')) {
+    // Handle JSON requests (text-only chat)
+    console.log('📝 Processing JSON request');
+    const body = request.body;
+    prompt = body.prompt || '';
+    mode = body.mode || 'chat';
+    conversationId = body.conversationId || `conv_${Date.now()}`;
+    parentImageId = body.parentImageId;
+    maskOperation = body.maskOperation;
+    if (body.mask !== undefined && body.mask !== null && body.mask !== '') {
+      const match = typeof body.mask === 'string' ? MASK_DATA_URL_PATTERN.exec(body.mask) : null;
+      if (match) {
+        mask = { buffer: Buffer.from(match[1], 'base64'), mimeType: 'image/png' };
+      } else {
+        maskError = 'mask must be a base64 PNG data URL';
+      }
+    }
+    // Memory is assembled server-side; context sent by older clients is not trusted
+    if (body.memoryContext || body.conversationHistory) {
+      console.log('Ignoring client-supplied memory context');
+    }
 
-  // Add system prompt
-  parts.push(`SYSTEM: ${context.systemPrompt}`);
+    console.log(`JSON parsed - prompt: "${prompt.substring(0, 100)}...", mode: ${mode}`);
+  } else if (contentType.includes('multipart/form-data')) {
+    // Handle multipart requests (with file uploads)
+    console.log('📁 Processing multipart form data');
+    const bb = busboy({ headers: request.headers });
+
+    const parsePromise = new Promise<void>((resolve, reject) => {
+      bb.on('field', (fieldname: string, val: string) => {
+        console.log(`Field: ${fieldname}`); // values hold the prompt, which stays out of the logs
+        if (fieldname === 'prompt') prompt = val;
+        if (fieldname === 'mode') mode = val;
+        if (fieldname === 'conversationId') conversationId = val;
+        if (fieldname === 'parentImageId') parentImageId = val;
+        if (fieldname === 'maskOperation') maskOperation = val;
+      });
 
-  // Add known facts if available
-  if (context.knownFacts.length > 0) {
-    parts.push(`KNOWN FACTS:\n${context.knownFacts.map(fact => `- ${fact}`).join('\n')}`);
+      bb.on('file', (fieldname: string, file: any, info: { mimeType?: string }) => {
+        console.log(`File field: ${fieldname}`);
+        const chunks: Buffer[] = [];
+        file.on('data', (chunk: Buffer) => chunks.push(chunk));
+        file.on('end', () => {
+          if (chunks.length === 0) return;
+          if (fieldname === 'mask') {
+            mask = { buffer: Buffer.concat(chunks), mimeType: info.mimeType || 'image/png' };
+          } else {
+            files.push({
+              buffer: Buffer.concat(chunks),
+              mimeType: info.mimeType || 'image/jpeg'
+            });
+          }
+        });
+      });
+
+      bb.on('finish', () => resolve());
+      bb.on('error', (error: Error) => reject(error));
+    });
+
+    request.pipe(bb);
+    await parsePromise;
+  } else {
+    console.log(`❌ Unsupported content type: ${contentType}`);
+    response.status(400).json({ error: `Unsupported content type: ${contentType}` });
+    return null;
   }
 
-  // Add conversation history if available
-  if (context.conversationHistory.length > 0) {
-    parts.push(`CONVERSATION HISTORY:\n${context.conversationHistory.map(summary => `Previous conversation: ${summary}`).join('\n\n')}`);
+  // Removing an object needs no description of what to put in its place
+  if (!prompt && maskOperation === 'object_removal') {
+    prompt = OBJECT_REMOVAL_PROMPT;
   }
 
-  // Add recent messages if available
-  if (context.recentMessages.length > 0) {
-    const recentChat = context.recentMessages
-      .map(msg => `${msg.role.toUpperCase()}: ${msg.content}`)
-      .join('\n');
-    parts.push(`RECENT CONVERSATION:\n${recentChat}`);
+  if (!prompt || typeof prompt !== 'string') {
+    response.status(400).json({ error: 'Prompt is required' });
+    return null;
   }
 
-  // Add mode-specific instructions
-  if (mode === 'photo' || mode === 'image') {
-    parts.push(`MODE: Focus on image generation, editing, or visual analysis tasks. Be creative and detailed in visual descriptions.`);
-  } else if (mode === 'chat') {
-    parts.push(`MODE: Engage in natural conversation, maintaining context and personality.`);
+  if (!VALID_MODES.includes(mode)) {
+    response.status(400).json({ error: `Unsupported mode: ${mode}` });
+    return null;
   }
 
-  // Add current user prompt
-  parts.push(`USER: ${userPrompt}`);
+  // conversationId becomes part of memory document ids, so it must be a plain path segment
+  if (typeof conversationId !== 'string' || !CONVERSATION_ID_PATTERN.test(conversationId)) {
+    response.status(400).json({ error: 'Invalid conversationId' });
+    return null;
+  }
 
-  return parts.join('\n\n');
-};
+  // Branching from an earlier image makes it the first input image, without a re-upload
+  let lineage: ImageLineage | null = null;
+  if (parentImageId !== undefined && parentImageId !== null && parentImageId !== '') {
+    if (typeof parentImageId !== 'string' || !IMAGE_ID_PATTERN.test(parentImageId)) {
+      response.status(400).json({ error: 'Invalid parentImageId' });
+      return null;
+    }
+    if (mode === 'chat') {
+      response.status(400).json({ error: 'parentImageId requires photo or image mode' });
+      return null;
+    }
+    try {
+      const parent = await loadParentImage(admin.firestore(), userId, parentImageId);
+      files.unshift({ buffer: parent.buffer, mimeType: parent.mimeType });
+      lineage = parent.lineage;
+    } catch (error) {
+      if (error instanceof ImageLineageError) {
+        response.status(error.status).json({ error: error.message });
+        return null;
+      }
+      throw error;
+    }
+  }
 
-// Save conversation to memory
-const saveToMemory = async (userId: string, conversationId: string, userPrompt: string, response: string, mode: string): Promise<void> => {
-  const db = admin.firestore();
-  
-  try {
-    // Save to short-term memory
-    const shortTermRef = db.collection('shortTermMemories').doc(`${conversationId}_${userId}`);
-    const shortTermDoc = await shortTermRef.get();
-
-    const timestamp = admin.firestore.Timestamp.now();
-    const userMessage = {
-      messageId: `msg_${Date.now()}_user`,
-      content: userPrompt,
-      role: 'user',
-      modelProvider: 'gemini',
-      timestamp,
-      importance: 0.7
-    };
+  // A mask turns the edit into inpainting or object removal of the first image
+  const maskProblem = maskError || validateMask(mask as UploadedImage | null, maskOperation, mode, files);
+  if (maskProblem) {
+    response.status(400).json({ error: maskProblem });
+    return null;
+  }
 
-    const assistantMessage = {
-      messageId: `msg_${Date.now()}_assistant`,
-      content: response,
-      role: 'assistant',
-      modelProvider: 'gemini',
-      timestamp,
-      importance: 0.6
-    };
+  // Select appropriate model based on mode
+  const modelName = mode === 'photo' || mode === 'image'
+    ? 'gemini-2.5-flash-image-preview'
+    : 'gemini-2.0-flash-exp';
+
+  // Chat turns go to GPT or Claude first when the user prefers one and its key is configured. The
+  // context is still packed for the Gemini model, whose window is the smallest, so Gemini can take over.
+  const chatCandidates = mode === 'chat'
+    ? ChatModelRegistry.getInstance().candidates((await loadMemorySettings(userId)).preferredModelProvider)
+    : [];
+
+  // Memory is trimmed to fit, but the prompt itself never is
+  const limits = getModelTokenLimits(modelName);
+  const fixed = countFixedTokens(SYSTEM_PROMPT, prompt, mode, getTokenCounter(modelName));
+  if (fixed.system + fixed.prompt > limits.contextWindow - limits.maxOutputTokens) {
+    response.status(400).json({
+      success: false,
+      error: 'Prompt is too long for the model context window',
+      errorType: 'PROMPT_TOO_LONG',
+      promptTokens: fixed.prompt,
+      maxPromptTokens: limits.contextWindow - limits.maxOutputTokens - fixed.system
+    });
+    return null;
+  }
 
-    if (shortTermDoc.exists) {
-      // Update existing short-term memory
-      const data = shortTermDoc.data();
-      const messages = data?.messages || [];
-      
-      // Add new messages and keep only last 12
-      messages.push(userMessage, assistantMessage);
-      const recentMessages = messages.slice(-12);
-
-      await shortTermRef.update({
-        messages: recentMessages,
-        updatedAt: timestamp
-      });
-    } else {
-      // Create new short-term memory
-      await shortTermRef.set({
-        id: `${conversationId}_${userId}`,
-        conversationId,
-        userId,
-        messages: [userMessage, assistantMessage],
-        windowSize: 12,
-        createdAt: timestamp,
-        updatedAt: timestamp
-      });
-    }
+  console.log(`Processing prompt: "${prompt.substring(0, 100)}..." in ${mode} mode`);
 
-    // Extract and save semantic memories from user input if it contains important information
-    const importantPatterns = [
-      /my name is|i am|i work|i live/i,
-      /i like|i prefer|i enjoy|i love/i,
-      /remember|important|note/i
-    ];
-
-    const hasImportantInfo = importantPatterns.some(pattern => pattern.test(userPrompt));
-    
-    if (hasImportantInfo) {
-      const semanticRef = db.collection('semanticMemories').doc();
-      await semanticRef.set({
-        id: semanticRef.id,
-        userId,
-        conversationId,
-        content: userPrompt,
-        embedding: [], // Would generate actual embedding in production
-        category: 'preference',
-        keywords: userPrompt.toLowerCase().split(' ').filter(word => word.length > 3),
-        importance: 0.8,
-        confidence: 0.9,
-        createdAt: timestamp,
-        lastAccessedAt: timestamp,
-        accessCount: 1,
-        relatedMemoryIds: [],
-        sourceMessageIds: [userMessage.messageId],
-        privacyLevel: 'full'
-      });
-    }
+  const subscriptionService = SubscriptionService.getInstance();
+  const operationType: OperationType = mask
+    ? (maskOperation as OperationType | undefined) || 'inpainting'
+    : (files.length > 0 ? 'edit' : 'generation');
+
+  // Premium operations such as masked edits are limited to plans that include their model tier
+  const featureGate = await subscriptionService.checkFeatureGate(userId, operationType);
+  if (!featureGate.allowed) {
+    const plan = await subscriptionService.getUserPlan(userId);
+    console.log(`⛔ ${operationType} not available on plan ${plan.id} for user ${userId}`);
+    sendFeatureGateBlocked(response, featureGate, plan);
+    return null;
+  }
 
-    console.log(`Saved conversation to memory: ${conversationId}`);
+  const memoryContext = await buildMemoryContext(userId, conversationId, prompt);
+  const contextualPrompt = buildContextualPrompt(memoryContext, prompt, mode, modelName);
 
-  } catch (error) {
-    console.error('Error saving to memory:', error);
-    // Don't throw - memory saving shouldn't block the response
+  const { breakdown } = contextualPrompt;
+  console.log(`Built contextual prompt with ${breakdown.total}/${breakdown.contextWindow - breakdown.reservedForOutput} tokens ` +
+    `(facts ${breakdown.facts}, episodes ${breakdown.episodes}, recent ${breakdown.recentMessages})`);
+
+  // Enforce the daily quota here so it can't be bypassed by calling the function directly.
+  // The slot is taken last, so nothing above can fail while holding it.
+  const usageLimit = await subscriptionService.reserveUsage(userId);
+  if (!usageLimit.allowed) {
+    console.log(`⛔ Usage limit reached for user ${userId}: ${usageLimit.used}/${usageLimit.limit}`);
+    sendUsageLimitExceeded(response, usageLimit);
+    return null;
   }
+
+  return {
+    userId,
+    prompt,
+    mode,
+    conversationId,
+    files,
+    mask,
+    lineage,
+    chatCandidates,
+    operationType,
+    usageLimit,
+    memoryContext,
+    contextualPrompt,
+    modelName
+  };
+};
+
+// A chat reply from the first candidate that gives one, each charged to its own rate limit bucket.
+// Every fallback is recorded as a model switch.
+const generateChatReply = (
+  prepared: PreparedGeneration,
+  signal?: AbortSignal,
+  onDelta?: (text: string) => void
+): Promise<ChatFailoverResult> => {
+  const { chatCandidates, userId, conversationId, contextualPrompt } = prepared;
+  const registry = ChatModelRegistry.getInstance();
+  return ChatFailover.getInstance().generate(chatCandidates, { prompt: contextualPrompt.text, signal }, {
+    limiter: ProviderRateLimiter.getInstance(),
+    estimatedTokens: contextualPrompt.breakdown.total,
+    onSwitch: (fromModel, toModel, reason) => registry.recordModelSwitch(userId, conversationId, fromModel, toModel, reason),
+    onDelta
+  });
+};
+
+// Responds to a chat turn no model would answer and returns true, or returns false for other errors
+const sendChatFailure = (response: Response, error: unknown): boolean => {
+  if (error instanceof ChatContentBlockedError) {
+    console.log(`⚠️ Generation blocked: ${error.blockedReason}`);
+    response.status(400).json({
+      success: false,
+      error: error.message,
+      errorType: error.blockedReason,
+      isImageGeneration: false,
+      provider: error.providerId
+    });
+    return true;
+  }
+  if (!(error instanceof ChatFailoverError)) {
+    return false;
+  }
+
+  console.log(`⛔ ${error.message}`);
+  const retryAfterMs = error.retryAfterMs;
+  if (retryAfterMs !== null) {
+    response.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+    response.status(429).json({
+      success: false,
+      error: `The chat models are busy right now, retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+      errorType: 'PROVIDER_RATE_LIMITED',
+      retryAfterMs
+    });
+    return true;
+  }
+  response.status(503).json({
+    success: false,
+    error: 'No chat model is available right now, please try again shortly',
+    errorType: 'MODEL_UNAVAILABLE',
+    attempts: error.attempts.map(({ providerId, modelId, errorType }) => ({ provider: providerId, model: modelId, errorType }))
+  });
+  return true;
 };
 
 // Main memory-enhanced generate function
-export const memoryEnhancedGenerate = async (request: EnhancedRequest, response: Response): Promise<void> => {
+export const memoryEnhancedGenerate = async (request: EnhancedRequest, response: Response, userId: string): Promise<void> => {
   console.log(`🧠 MEMORY-ENHANCED Generate called: ${request.method}`);
 
   if (request.method !== 'POST') {
@@ -257,185 +445,128 @@ export const memoryEnhancedGenerate = async (request: EnhancedRequest, response:
     return;
   }
 
+  let reservation: UsageReservation | null = null;
+  let completed = false;
   try {
-    // Verify authentication
-    const userId = await verifyAuth(request);
-    if (!userId) {
-      response.status(401).json({ error: 'Unauthorized' });
+    const prepared = await prepareGeneration(request, response, userId);
+    if (!prepared) {
       return;
     }
 
-    console.log(`Authenticated user: ${userId}`);
-
-    // Handle both JSON and multipart requests
-    const contentType = request.headers['content-type'] || '';
-    let prompt = '';
-    let mode = 'chat';
-    let conversationId = `conv_${Date.now()}`;
-    const files: Buffer[] = [];
-
-    if (contentType.includes('application/json')) {
-      // Handle JSON requests (text-only chat)
-      console.log('📝 Processing JSON request');
-      const body = request.body;
-      prompt = body.prompt || '';
-      mode = body.mode || 'chat';
-      conversationId = body.conversationId || `conv_${Date.now()}`;
-      // Keep any provided memory context / legacy history for downstream use
+    const { prompt, conversationId, files, mask, lineage, operationType, usageLimit, memoryContext, contextualPrompt, modelName } = prepared;
+    reservation = usageLimit;
+
+    console.log(`Using model: ${modelName}`);
+
+    // Generate response
+    const wantsImage = modelName.includes('image');
+    const startTime = Date.now();
+    let responseText = '';
+    let imageUrl: string | undefined;
+    let modelUsed = modelName;
+    let providerUsed = 'gemini';
+    let rateLimitWaitMs = 0;
+    let costUsd: number | undefined;
+    let tokenCount: ChatModelResult['tokenCount'] | undefined;
+
+    if (wantsImage) {
       try {
-        (request as any)._providedMemoryContext = body.memoryContext || null;
-        (request as any)._legacyConversationHistory = body.conversationHistory || null;
-      } catch {}
-
-      console.log(`JSON parsed - prompt: "${prompt.substring(0, 100)}...", mode: ${mode}`);
-    } else if (contentType.includes('multipart/form-data')) {
-      // Handle multipart requests (with file uploads)
-      console.log('📁 Processing multipart form data');
-      const bb = busboy({ headers: request.headers });
-
-      const parsePromise = new Promise<void>((resolve, reject) => {
-        bb.on('field', (fieldname: string, val: string) => {
-          console.log(`Field [${fieldname}]: ${val}`);
-          if (fieldname === 'prompt') prompt = val;
-          if (fieldname === 'mode') mode = val;
-          if (fieldname === 'conversationId') conversationId = val;
+        // Each provider in the chain waits on, and is charged to, its own shared bucket
+        const generated = await ImageProviderRegistry.getInstance().generate(usageLimit.plan.id, {
+          prompt: contextualPrompt.text,
+          images: files,
+          mask: mask || undefined
+        }, {
+          limiter: ProviderRateLimiter.getInstance(),
+          estimatedTokens: contextualPrompt.breakdown.total
         });
-
-        bb.on('file', (fieldname: string, file: any) => {
-          console.log(`File field: ${fieldname}`);
-          const chunks: Buffer[] = [];
-          file.on('data', (chunk: Buffer) => chunks.push(chunk));
-          file.on('end', () => {
-            if (chunks.length > 0) {
-              files.push(Buffer.concat(chunks));
+        imageUrl = generated.imageUrl;
+        responseText = generated.text;
+        modelUsed = generated.modelId;
+        providerUsed = generated.providerId;
+        rateLimitWaitMs = generated.rateLimitWaitMs;
+        costUsd = generated.costUsd;
+        tokenCount = generated.tokenCount;
+      } catch (error) {
+        // A photo-mode turn that only produced text (e.g. a question about an image) is still a valid reply
+        const textReply = error instanceof ImageGenerationFailedError
+          ? error.attempts.find(attempt => attempt.code === 'NO_IMAGE' && attempt.text)?.text
+          : undefined;
+        if (!textReply) {
+          const failure = describeImageProviderFailure(error);
+          if (failure) {
+            console.log(`⚠️ Image generation failed: ${failure.body.errorType}`);
+            if (failure.headers) {
+              response.set(failure.headers);
             }
-          });
-        });
-
-        bb.on('finish', () => resolve());
-        bb.on('error', (error: Error) => reject(error));
-      });
-
-      request.pipe(bb);
-      await parsePromise;
+            response.status(failure.status).json({ ...failure.body, model: modelName, provider: 'gemini' });
+            return;
+          }
+          throw error;
+        }
+        responseText = textReply;
+      }
     } else {
-      console.log(`❌ Unsupported content type: ${contentType}`);
-      response.status(400).json({ error: `Unsupported content type: ${contentType}` });
-      return;
-    }
-
-    if (!prompt) {
-      response.status(400).json({ error: 'Prompt is required' });
-      return;
-    }
-
-    console.log(`Processing prompt: "${prompt.substring(0, 100)}..." in ${mode} mode`);
-
-    // Build memory context
-        // Build or adopt memory context
-    let memoryContext: MemoryContext | null = null;
-    const provided = (request as any)._providedMemoryContext as any;
-    const legacyHistory = (request as any)._legacyConversationHistory as any[] | null;
-
-    if (provided) {
+      let reply: ChatFailoverResult;
       try {
-        const systemPrompt = `You are Pixtorai, a helpful multi-turn AI assistant.`;
-        const knownFacts: string[] = Array.isArray(provided.relevantSemanticMemories)
-          ? provided.relevantSemanticMemories
-              .map((m: any) => m?.content)
-              .filter((c: any) => typeof c === 'string')
-          : [];
-        const conversationHistory: string[] = Array.isArray(provided.relevantEpisodicMemories)
-          ? provided.relevantEpisodicMemories
-              .map((e: any) => e?.summary)
-              .filter((s: any) => typeof s === 'string')
-          : [];
-        const recentMessages: Array<{ role: string; content: string }> = provided?.shortTermMemory?.messages?.map((msg: any) => ({
-          role: msg?.role === 'assistant' ? 'assistant' : 'user',
-          content: String(msg?.content || '')
-        })) || [];
-
-        memoryContext = { systemPrompt, knownFacts, conversationHistory, recentMessages };
-        console.log('Using client-provided memory context:', {
-          facts: knownFacts.length,
-          episodes: conversationHistory.length,
-          msgs: recentMessages.length
-        });
-      } catch (e) {
-        console.warn('Failed to adopt provided memory context, will rebuild:', e);
-        memoryContext = null;
+        reply = await generateChatReply(prepared);
+      } catch (error) {
+        if (sendChatFailure(response, error)) {
+          return;
+        }
+        throw error;
       }
+      responseText = reply.text;
+      modelUsed = reply.modelId;
+      providerUsed = reply.providerId;
+      rateLimitWaitMs = reply.rateLimitWaitMs;
+      costUsd = reply.costUsd;
+      tokenCount = reply.tokenCount;
     }
+    const processingTime = Date.now() - startTime;
 
-    if (!memoryContext && Array.isArray(legacyHistory) && legacyHistory.length > 0) {
-      try {
-        memoryContext = {
-          systemPrompt: `You are Pixtorai, a helpful multi-turn AI assistant.`,
-          knownFacts: [],
-          conversationHistory: [],
-          recentMessages: legacyHistory.map((h: any) => ({
-            role: (h?.role || '').toLowerCase() === 'model' ? 'assistant' : 'user',
-            content: h?.parts?.[0]?.text || ''
-          }))
-        };
-        console.log('Using legacy conversationHistory for memory context');
-      } catch {}
-    }
+    const isImageGeneration = !!imageUrl;
 
-    if (!memoryContext) {
-      memoryContext = await buildMemoryContext(userId, conversationId, prompt);
+    if (!responseText && !isImageGeneration) {
+      throw new Error('Model returned an empty response');
     }
-    
-    // Build contextual prompt with memory
-    const contextualPrompt = buildContextualPrompt(memoryContext, prompt, mode);
-    
-    console.log(`Built contextual prompt with ${contextualPrompt.length} characters`);
-
-    // Initialize Gemini client
-    const apiKey = functions.config().gemini.api_key;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY not configured');
-    }
-
-    const genAI = new GoogleGenerativeAI(apiKey);
 
-    // Select appropriate model based on mode
-    const modelName = mode === 'photo' || mode === 'image' 
-      ? 'gemini-2.5-flash-image-preview'
-      : 'gemini-2.0-flash-exp';
+    console.log(`Generated response in ${processingTime}ms: image=${isImageGeneration}, text="${responseText.substring(0, 100)}..."`);
 
-    const model = genAI.getGenerativeModel({ model: modelName });
-    
-    console.log(`Using model: ${modelName}`);
-
-    // Prepare content parts
-    const parts: any[] = [{ text: contextualPrompt }];
-
-    // Add images if provided and model supports them
-    if (files.length > 0 && modelName.includes('image')) {
-      for (const fileBuffer of files) {
-        const base64 = fileBuffer.toString('base64');
-        parts.push({
-          inlineData: {
-            mimeType: 'image/jpeg', // Assuming JPEG for now
-            data: base64
-          }
-        });
-        console.log(`Added image to prompt (${fileBuffer.length} bytes)`);
+    // Persist the image so the message can reference a URL instead of carrying the bytes.
+    // If storage is unavailable the data URL is returned as before rather than losing the result.
+    let storedImage: StoredImage | null = null;
+    if (imageUrl) {
+      try {
+        storedImage = await GeneratedImageStore.getInstance().saveDataUrl(userId, imageUrl);
+      } catch (error) {
+        console.error('Error storing generated image, returning it inline:', error);
       }
     }
 
-    // Generate response
-    const startTime = Date.now();
-    const result = await model.generateContent(parts);
-    const responseText = result.response.text();
-    const processingTime = Date.now() - startTime;
+    // Only successful generations count against the quota; failed ones give their slot back
+    completed = true;
+    // A reply without an image is logged as the text generation it turned out to be
+    await SubscriptionService.getInstance().recordUsage(userId, isImageGeneration ? operationType : 'generation', {
+      modelId: modelUsed,
+      providerId: providerUsed,
+      processingTimeMs: processingTime,
+      costUsd,
+      tokenCount
+    });
 
-    console.log(`Generated response in ${processingTime}ms: "${responseText.substring(0, 100)}..."`);
+    // Image turns are remembered by their accompanying text, or a marker when there is none
+    const memoryText = responseText || (isImageGeneration ? `[Generated image for: ${prompt.substring(0, 200)}]` : '');
 
-    // Save to memory (async, don't wait)
-    saveToMemory(userId, conversationId, prompt, responseText, mode).catch(error => {
-      console.error('Background memory save error:', error);
+    // Saved before responding: Cloud Functions throttles the CPU once the response is sent, which
+    // would leave fact extraction and embedding unfinished. saveToMemory never throws.
+    await saveToMemory({
+      turnId: newTurnId(conversationId),
+      userId,
+      conversationId,
+      userPrompt: prompt,
+      response: memoryText,
+      modelProvider: providerUsed
     });
 
     // Return response with memory metadata in ChatInterface-compatible format
@@ -443,18 +574,27 @@ export const memoryEnhancedGenerate = async (request: EnhancedRequest, response:
       success: true,
       text: responseText,
       response: responseText, // Keep for backward compatibility
-      model: modelName,
-      modelUsed: modelName, // Add for ChatInterface compatibility
-      provider: 'gemini',
-      isImageGeneration: false, // Memory-enhanced generate is text-only for now
+      model: modelUsed,
+      modelUsed, // Add for ChatInterface compatibility
+      provider: providerUsed,
+      isImageGeneration,
+      imageUrl: storedImage?.url || imageUrl,
+      imageStoragePath: storedImage?.path,
+      imageContentHash: storedImage?.contentHash,
+      operationType,
+      parentImageId: isImageGeneration ? lineage?.parentImageId : undefined,
+      rootImageId: isImageGeneration ? lineage?.rootImageId : undefined,
+      originalImages: isImageGeneration && files.length > 0
+        ? files.map(file => `data:${file.mimeType};base64,${file.buffer.toString('base64')}`)
+        : undefined,
       processingTimeMs: processingTime,
-      memoryUsed: {
-        knownFacts: memoryContext.knownFacts.length,
-        conversationHistory: memoryContext.conversationHistory.length,
-        recentMessages: memoryContext.recentMessages.length
-      },
+      rateLimitWaitMs,
+      memoryUsed: buildMemoryUsed(memoryContext, contextualPrompt),
+      memoryReferences: contextualPrompt.references,
       conversationId,
-      contextLength: contextualPrompt.length
+      contextLength: contextualPrompt.text.length,
+      tokenBreakdown: contextualPrompt.breakdown,
+      usage: buildUsageSummary(usageLimit)
     });
 
   } catch (error) {
@@ -465,5 +605,157 @@ export const memoryEnhancedGenerate = async (request: EnhancedRequest, response:
       model: 'error',
       provider: 'gemini'
     });
+  } finally {
+    if (reservation && !completed) {
+      await SubscriptionService.getInstance().releaseUsage(reservation);
+    }
+  }
+};
+
+// Write one server-sent event
+const sendEvent = (response: Response, event: string, data: unknown): void => {
+  response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Streaming chat variant: emits `delta` events as tokens arrive, then a `done` event with metadata.
+// Errors before the stream opens are plain JSON; errors after it opens arrive as an `error` event.
+export const memoryEnhancedGenerateStream = async (request: EnhancedRequest, response: Response, userId: string): Promise<void> => {
+  console.log(`🧠 MEMORY-ENHANCED Stream called: ${request.method}`);
+
+  if (request.method !== 'POST') {
+    response.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  let reservation: UsageReservation | null = null;
+  let completed = false;
+  try {
+    const prepared = await prepareGeneration(request, response, userId);
+    if (!prepared) {
+      return;
+    }
+
+    const { prompt, conversationId, files, operationType, usageLimit, memoryContext, contextualPrompt, modelName } = prepared;
+    reservation = usageLimit;
+
+    if (files.length > 0 || modelName.includes('image')) {
+      response.status(400).json({ error: 'Streaming is only available in chat mode' });
+      return;
+    }
+
+    // The stream only opens with the first delta, so a turn no model answers is still a plain JSON error
+    const openStream = () => {
+      if (response.headersSent) {
+        return;
+      }
+      response.status(200);
+      response.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      response.flushHeaders();
+    };
+
+    // Stop generating (and skip saving memory) if the client goes away mid-stream
+    const abort = new AbortController();
+    response.on('close', () => {
+      if (!response.writableEnded) {
+        abort.abort();
+      }
+    });
+
+    const startTime = Date.now();
+    let reply: ChatFailoverResult;
+    try {
+      // GPT and Claude replies arrive whole and are sent as a single delta
+      reply = await generateChatReply(prepared, abort.signal, text => {
+        openStream();
+        sendEvent(response, 'delta', { text });
+      });
+    } catch (error) {
+      if (abort.signal.aborted) {
+        console.log(`Client disconnected from stream for conversation: ${conversationId}`);
+        return;
+      }
+      if (error instanceof ChatContentBlockedError && response.headersSent) {
+        console.log(`⚠️ Stream blocked: ${error.blockedReason}`);
+        sendEvent(response, 'error', { error: error.message, errorType: error.blockedReason });
+        response.end();
+        return;
+      }
+      if (!response.headersSent && sendChatFailure(response, error)) {
+        return;
+      }
+      throw error;
+    }
+
+    if (abort.signal.aborted) {
+      console.log(`Client disconnected from stream for conversation: ${conversationId}`);
+      return;
+    }
+
+    const { text: responseText, modelId: modelUsed, providerId: providerUsed, rateLimitWaitMs } = reply;
+    const processingTime = Date.now() - startTime;
+
+    console.log(`Streamed response in ${processingTime}ms: "${responseText.substring(0, 100)}..."`);
+
+    // The turn only counts, and is only remembered, once the stream has completed
+    completed = true;
+    await SubscriptionService.getInstance().recordUsage(userId, operationType, {
+      modelId: modelUsed,
+      providerId: providerUsed,
+      processingTimeMs: processingTime,
+      costUsd: reply.costUsd,
+      tokenCount: reply.tokenCount
+    });
+    await saveToMemory({
+      turnId: newTurnId(conversationId),
+      userId,
+      conversationId,
+      userPrompt: prompt,
+      response: responseText,
+      modelProvider: providerUsed
+    });
+
+    sendEvent(response, 'done', {
+      success: true,
+      text: responseText,
+      model: modelUsed,
+      modelUsed,
+      provider: providerUsed,
+      isImageGeneration: false,
+      processingTimeMs: processingTime,
+      rateLimitWaitMs,
+      memoryUsed: buildMemoryUsed(memoryContext, contextualPrompt),
+      memoryReferences: contextualPrompt.references,
+      conversationId,
+      contextLength: contextualPrompt.text.length,
+      tokenBreakdown: contextualPrompt.breakdown,
+      usage: buildUsageSummary(usageLimit)
+    });
+    response.end();
+
+  } catch (error) {
+    console.error('Memory-enhanced stream error:', error);
+    const message = error instanceof Error ? error.message : 'Generation failed';
+    if (!response.headersSent) {
+      response.status(500).json({
+        success: false,
+        error: message,
+        model: 'error',
+        provider: 'gemini'
+      });
+      return;
+    }
+    if (!response.writableEnded) {
+      sendEvent(response, 'error', { error: message, errorType: 'PROCESSING_ERROR' });
+      response.end();
+    }
+  } finally {
+    if (reservation && !completed) {
+      await SubscriptionService.getInstance().releaseUsage(reservation);
+    }
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,253 @@
+// Collecting a user's memories and rendering them as a downloadable file
+// JSON is the round-trippable bundle memory import reads back; Markdown is for reading and
+// CSV (one file per memory type, zipped) is for spreadsheets.
+import * as admin from 'firebase-admin';
+import { isCurrentMemory } from './semantic-memory-service';
+import { ExportFormat } from './memory-types';
+import { createZip } from './zip-archive';
+
+type Fields = admin.firestore.DocumentData;
+
+export interface MemoryExportBundle {
+  exportDate: string;
+  userId: string;
+  settings: Fields | null;
+  memories: {
+    semantic: Fields[];
+    episodic: Fields[];
+    shortTerm: Fields[];
+  };
+  summary: {
+    totalSemanticMemories: number;
+    totalEpisodicMemories: number;
+    totalShortTermContexts: number;
+  };
+}
+
+export interface ExportFile {
+  body: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+// ISO string for a Firestore timestamp, either live or already serialized, or an ISO string
+const isoDate = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+  if (typeof value === 'object' && value !== null) {
+    const seconds = (value as Fields)._seconds ?? (value as Fields).seconds;
+    if (typeof seconds === 'number') return new Date(seconds * 1000).toISOString();
+  }
+  return '';
+};
+
+// Timestamps become ISO strings so the bundle is plain JSON
+const serializeDates = (data: Fields): Fields => {
+  const result: Fields = {};
+  Object.keys(data).forEach(key => {
+    result[key] = data[key] instanceof admin.firestore.Timestamp ? isoDate(data[key]) : data[key];
+  });
+  return result;
+};
+
+export const buildMemoryExport = async (
+  db: admin.firestore.Firestore,
+  userId: string
+): Promise<MemoryExportBundle> => {
+  const [semanticSnapshot, episodicSnapshot, shortTermSnapshot, settingsSnapshot] = await Promise.all([
+    db.collection('semanticMemories').where('userId', '==', userId).get(),
+    db.collection('episodicMemories').where('userId', '==', userId).get(),
+    db.collection('shortTermMemories').where('userId', '==', userId).get(),
+    db.collection('memorySettings').doc(userId).get()
+  ]);
+
+  const serialize = (doc: admin.firestore.QueryDocumentSnapshot): Fields => ({ id: doc.id, ...serializeDates(doc.data()) });
+
+  return {
+    exportDate: new Date().toISOString(),
+    userId,
+    settings: settingsSnapshot.exists ? serializeDates(settingsSnapshot.data() || {}) : null,
+    memories: {
+      semantic: semanticSnapshot.docs.map(serialize),
+      episodic: episodicSnapshot.docs.map(serialize),
+      shortTerm: shortTermSnapshot.docs.map(doc => {
+        const data = serialize(doc);
+        return {
+          ...data,
+          messages: Array.isArray(data.messages) ? data.messages.map(serializeDates) : []
+        };
+      })
+    },
+    summary: {
+      totalSemanticMemories: semanticSnapshot.size,
+      totalEpisodicMemories: episodicSnapshot.size,
+      totalShortTermContexts: shortTermSnapshot.size
+    }
+  };
+};
+
+const day = (value: unknown): string => isoDate(value).split('T')[0];
+
+// Collapse to one line so user text can't break out of a list item or heading
+const inline = (value: unknown): string => String(value ?? '').replace(/\s+/g, ' ').trim();
+
+const list = (value: unknown): string[] => Array.isArray(value) ? value.map(inline).filter(Boolean) : [];
+
+const percent = (value: unknown): string => typeof value === 'number' ? `${Math.round(value * 100)}%` : '–';
+
+const renderMarkdown = (bundle: MemoryExportBundle): string => {
+  const { semantic, episodic, shortTerm } = bundle.memories;
+  const lines: string[] = [
+    '# Memory export',
+    '',
+    `Exported ${bundle.exportDate}`,
+    ''
+  ];
+
+  if (bundle.settings) {
+    lines.push('## Settings', '');
+    Object.keys(bundle.settings).sort()
+      .filter(key => !['userId', 'createdAt', 'updatedAt'].includes(key))
+      .forEach(key => lines.push(`- **${key}**: ${inline(bundle.settings?.[key])}`));
+    lines.push('');
+  }
+
+  const current = semantic.filter(isCurrentMemory);
+  const superseded = semantic.filter(memory => !isCurrentMemory(memory));
+  lines.push(`## Known facts (${current.length})`, '');
+  if (current.length === 0) lines.push('_None yet._', '');
+  const categories = Array.from(new Set(current.map(memory => memory.category || 'uncategorized'))).sort();
+  for (const category of categories) {
+    lines.push(`### ${inline(category)}`, '');
+    current
+      .filter(memory => (memory.category || 'uncategorized') === category)
+      .sort((a, b) => (b.importance || 0) - (a.importance || 0))
+      .forEach(memory => lines.push(
+        `- ${memory.pinned ? '📌 ' : ''}${inline(memory.content)} ` +
+        `_(importance ${percent(memory.importance)}, learned ${day(memory.createdAt)})_`
+      ));
+    lines.push('');
+  }
+  if (superseded.length > 0) {
+    lines.push('### No longer true', '');
+    superseded.forEach(memory => lines.push(
+      `- ~~${inline(memory.content)}~~ _(${day(memory.createdAt)} – ${day(memory.validUntil)})_`
+    ));
+    lines.push('');
+  }
+
+  lines.push(`## Episodes (${episodic.length})`, '');
+  if (episodic.length === 0) lines.push('_None yet._', '');
+  [...episodic]
+    .sort((a, b) => isoDate(b.createdAt).localeCompare(isoDate(a.createdAt)))
+    .forEach(episode => {
+      lines.push(`### ${day(episode.createdAt) || 'Undated'} · conversation ${inline(episode.conversationId)}`, '');
+      lines.push(inline(episode.summary), '');
+      const sections: Array<[string, string[]]> = [
+        ['Topics', list(episode.keyTopics)],
+        ['Goals', list(episode.userGoals)],
+        ['Outcomes', list(episode.mainOutcomes)]
+      ];
+      sections
+        .filter(([, items]) => items.length > 0)
+        .forEach(([label, items]) => lines.push(`**${label}:** ${items.join('; ')}`, ''));
+    });
+
+  lines.push(`## Recent conversation context (${shortTerm.length})`, '');
+  if (shortTerm.length === 0) lines.push('_None yet._', '');
+  shortTerm.forEach(window => {
+    lines.push(`### Conversation ${inline(window.conversationId)}`, '');
+    if (window.summary) {
+      lines.push(`> Earlier: ${inline(window.summary)}`, '');
+    }
+    (Array.isArray(window.messages) ? window.messages : []).forEach((message: Fields) => {
+      const speaker = message.role === 'assistant' ? 'Assistant' : 'You';
+      lines.push(`- **${speaker}** (${isoDate(message.timestamp)}): ${inline(message.content)}`);
+    });
+    lines.push('');
+  });
+
+  return lines.join('\n');
+};
+
+// Quote when needed, and neutralize leading characters spreadsheets would run as a formula
+const csvCell = (value: unknown): string => {
+  let text = Array.isArray(value) ? value.join('; ') : String(value ?? '');
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csv = (columns: string[], rows: Fields[]): string =>
+  [columns, ...rows.map(row => columns.map(column => row[column]))]
+    .map(cells => cells.map(csvCell).join(','))
+    .join('\r\n') + '\r\n';
+
+const renderCsvFiles = (bundle: MemoryExportBundle): Array<{ name: string; content: string }> => {
+  const { semantic, episodic, shortTerm } = bundle.memories;
+  // Short-term windows flatten to one row per message, with the running summary first
+  const messages = shortTerm.flatMap(window => [
+    ...(window.summary ? [{ conversationId: window.conversationId, role: 'summary', content: window.summary }] : []),
+    ...(Array.isArray(window.messages) ? window.messages : []).map((message: Fields) => ({
+      ...message,
+      conversationId: window.conversationId,
+      timestamp: isoDate(message.timestamp)
+    }))
+  ]);
+
+  const files = [
+    {
+      name: 'semantic-memories.csv',
+      content: csv(
+        ['id', 'content', 'category', 'importance', 'confidence', 'pinned', 'conversationId', 'privacyLevel',
+          'accessCount', 'createdAt', 'lastAccessedAt', 'supersededBy', 'validUntil'],
+        semantic.map(memory => ({ ...memory, validUntil: isoDate(memory.validUntil) }))
+      )
+    },
+    {
+      name: 'episodic-memories.csv',
+      content: csv(
+        ['id', 'conversationId', 'summary', 'keyTopics', 'userGoals', 'mainOutcomes', 'category', 'importance',
+          'messageCount', 'pinned', 'createdAt', 'updatedAt'],
+        episodic
+      )
+    },
+    {
+      name: 'short-term-messages.csv',
+      content: csv(['conversationId', 'messageId', 'role', 'modelProvider', 'timestamp', 'content'], messages)
+    }
+  ];
+
+  if (bundle.settings) {
+    const settings = bundle.settings;
+    files.push({
+      name: 'settings.csv',
+      content: csv(['setting', 'value'], Object.keys(settings).sort().map(key => ({ setting: key, value: settings[key] })))
+    });
+  }
+  return files;
+};
+
+export const renderMemoryExport = (bundle: MemoryExportBundle, format: ExportFormat): ExportFile => {
+  const basename = `pixtorai-memories-${bundle.userId}-${bundle.exportDate.split('T')[0]}`;
+
+  switch (format) {
+    case 'markdown':
+      return {
+        body: Buffer.from(renderMarkdown(bundle), 'utf8'),
+        contentType: 'text/markdown; charset=utf-8',
+        filename: `${basename}.md`
+      };
+    case 'csv':
+      return {
+        body: createZip(renderCsvFiles(bundle).map(file => ({ name: `${basename}/${file.name}`, content: file.content }))),
+        contentType: 'application/zip',
+        filename: `${basename}-csv.zip`
+      };
+    default:
+      return {
+        body: Buffer.from(JSON.stringify(bundle, null, 2), 'utf8'),
+        contentType: 'application/json; charset=utf-8',
+        filename: `${basename}.json`
+      };
+  }
+};
@@ -0,0 +1,542 @@
+// Restoring memories from a memoryExport bundle into the caller's account
+// Every item is validated and re-keyed to the caller; nothing is written until the whole
+// bundle has been checked. A replace is refused outright if any item is invalid, and writes the
+// new memories before deleting the old ones, so a failure part-way never leaves the account with
+// fewer memories than it started with.
+import * as admin from 'firebase-admin';
+import { EmbeddingService, cosineSimilarity, semanticMemoryText, episodicMemoryText } from './embedding-service';
+import { isCurrentMemory } from './semantic-memory-service';
+import { CONVERSATION_ID_PATTERN, EXPORT_FORMATS, ExportFormat, ImportCounts, ImportMode, ImportReport, ImportedMemoryType } from './memory-types';
+
+const MAX_ITEMS: Record<ImportedMemoryType, number> = { semantic: 2000, episodic: 500, shortTerm: 500 };
+const MAX_CONTENT_LENGTH = 2000;
+const MAX_SUMMARY_LENGTH = 10000;
+const MAX_WINDOW_MESSAGES = 100;
+const MAX_LIST_ITEMS = 100;
+const MAX_REPORTED_ITEMS = 200;
+const PRIVACY_LEVELS = ['full', 'limited', 'none'];
+const ROLES = ['user', 'assistant'];
+
+// Settings fields a bundle may restore, with the type each must have
+const IMPORTABLE_SETTINGS: Record<string, 'boolean' | 'number' | 'string'> = {
+  memoryEnabled: 'boolean',
+  shortTermMemoryEnabled: 'boolean',
+  semanticMemoryEnabled: 'boolean',
+  episodicMemoryEnabled: 'boolean',
+  allowCrossConversationMemory: 'boolean',
+  allowModelProviderSharing: 'boolean',
+  adaptiveModelSelection: 'boolean',
+  dataRetentionDays: 'number',
+  memoryImportanceThreshold: 'number',
+  maxSemanticMemories: 'number',
+  maxEpisodicMemories: 'number',
+  exportFormat: 'string',
+  preferredModelProvider: 'string'
+};
+
+// The bundle as a whole is unusable; reported as a 400 with the reasons
+export class ImportBundleError extends Error {
+  constructor(message: string, public readonly details: string[] = []) {
+    super(message);
+    this.name = 'ImportBundleError';
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+interface ParsedItem {
+  index: number;
+  sourceId: string | null; // the item's id in the exporting account, for relinking
+  text: string; // what duplicates are judged on; empty for short-term windows
+  fields: Fields;
+}
+
+const emptyCounts = (): ImportCounts => ({ semantic: 0, episodic: 0, shortTerm: 0 });
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const normalizeText = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Exports write ISO strings; raw Firestore timestamps serialize as { _seconds, _nanoseconds }
+const parseTimestamp = (value: unknown): admin.firestore.Timestamp | null => {
+  if (typeof value === 'string') {
+    const millis = Date.parse(value);
+    return isNaN(millis) ? null : admin.firestore.Timestamp.fromMillis(millis);
+  }
+  if (typeof value === 'number' && isFinite(value)) {
+    return admin.firestore.Timestamp.fromMillis(value);
+  }
+  if (isObject(value)) {
+    const seconds = value._seconds ?? value.seconds;
+    const nanoseconds = value._nanoseconds ?? value.nanoseconds ?? 0;
+    if (typeof seconds === 'number' && typeof nanoseconds === 'number') {
+      return new admin.firestore.Timestamp(seconds, nanoseconds);
+    }
+  }
+  return null;
+};
+
+// Typed accessors over one bundle item that collect a message for each invalid field
+const fieldReader = (item: Fields, errors: string[]) => ({
+  text(key: string, maxLength: number, required = false): string | undefined {
+    const value = item[key];
+    if (value === undefined || value === null) {
+      if (required) errors.push(`${key} is required`);
+      return undefined;
+    }
+    if (typeof value !== 'string' || (required && !value.trim()) || value.length > maxLength) {
+      errors.push(`${key} must be ${required ? 'a non-empty' : 'a'} string of at most ${maxLength} characters`);
+      return undefined;
+    }
+    return value.trim();
+  },
+  conversationId(required: boolean): string | undefined {
+    const value = item.conversationId;
+    if (value === undefined || value === null) {
+      if (required) errors.push('conversationId is required');
+      return undefined;
+    }
+    if (typeof value !== 'string' || !CONVERSATION_ID_PATTERN.test(value)) {
+      errors.push('conversationId must be 1-128 letters, digits, underscores or hyphens');
+      return undefined;
+    }
+    return value;
+  },
+  fraction(key: string): number | undefined {
+    const value = item[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+      errors.push(`${key} must be a number between 0 and 1`);
+      return undefined;
+    }
+    return value;
+  },
+  count(key: string): number | undefined {
+    const value = item[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      errors.push(`${key} must be a non-negative integer`);
+      return undefined;
+    }
+    return value;
+  },
+  flag(key: string): boolean | undefined {
+    const value = item[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'boolean') {
+      errors.push(`${key} must be a boolean`);
+      return undefined;
+    }
+    return value;
+  },
+  oneOf(key: string, options: string[]): string | undefined {
+    const value = item[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'string' || !options.includes(value)) {
+      errors.push(`${key} must be one of: ${options.join(', ')}`);
+      return undefined;
+    }
+    return value;
+  },
+  strings(key: string, maxLength = 500): string[] {
+    const value = item[key];
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || value.length > MAX_LIST_ITEMS ||
+      value.some(entry => typeof entry !== 'string' || entry.length > maxLength)) {
+      errors.push(`${key} must be a list of at most ${MAX_LIST_ITEMS} strings`);
+      return [];
+    }
+    return value;
+  },
+  timestamp(key: string): admin.firestore.Timestamp | undefined {
+    const value = item[key];
+    if (value === undefined || value === null) return undefined;
+    const timestamp = parseTimestamp(value);
+    if (!timestamp) {
+      errors.push(`${key} must be an ISO date`);
+      return undefined;
+    }
+    return timestamp;
+  }
+});
+
+// Drop undefined fields so Firestore doesn't reject the write
+const compact = (fields: Fields): Fields => {
+  const result: Fields = {};
+  Object.keys(fields).forEach(key => {
+    if (fields[key] !== undefined) result[key] = fields[key];
+  });
+  return result;
+};
+
+const parseSemantic = (item: Fields, errors: string[]): Omit<ParsedItem, 'index'> => {
+  const read = fieldReader(item, errors);
+  const content = read.text('content', MAX_CONTENT_LENGTH, true) || '';
+  const createdAt = read.timestamp('createdAt');
+
+  return {
+    sourceId: typeof item.id === 'string' ? item.id : null,
+    text: content,
+    fields: compact({
+      content,
+      category: read.text('category', 50),
+      keywords: read.strings('keywords', 100),
+      importance: read.fraction('importance'),
+      confidence: read.fraction('confidence'),
+      pinned: read.flag('pinned'),
+      excludeFromContext: read.flag('excludeFromContext'),
+      conversationId: read.conversationId(false),
+      sourceMessageIds: read.strings('sourceMessageIds', 300),
+      relatedMemoryIds: [],
+      privacyLevel: read.oneOf('privacyLevel', PRIVACY_LEVELS) || 'full',
+      accessCount: read.count('accessCount'),
+      createdAt,
+      lastAccessedAt: read.timestamp('lastAccessedAt') || createdAt,
+      // Links are kept as source ids here and re-pointed once every item has a new id
+      supersedes: read.strings('supersedes', 300),
+      supersededBy: read.text('supersededBy', 300) || null,
+      validUntil: read.timestamp('validUntil') || null
+    })
+  };
+};
+
+const parseEpisodic = (item: Fields, errors: string[]): Omit<ParsedItem, 'index'> => {
+  const read = fieldReader(item, errors);
+  const summary = read.text('summary', MAX_SUMMARY_LENGTH, true) || '';
+  const timespan = isObject(item.timespan) ? item.timespan : {};
+  const startTime = parseTimestamp(timespan.startTime);
+  const endTime = parseTimestamp(timespan.endTime);
+
+  return {
+    sourceId: typeof item.id === 'string' ? item.id : null,
+    text: summary,
+    fields: compact({
+      conversationId: read.conversationId(true),
+      summary,
+      keyTopics: read.strings('keyTopics'),
+      mainOutcomes: read.strings('mainOutcomes'),
+      userGoals: read.strings('userGoals'),
+      assistantActions: read.strings('assistantActions'),
+      modelProvidersUsed: read.strings('modelProvidersUsed', 50),
+      messageCount: read.count('messageCount'),
+      category: read.text('category', 50),
+      importance: read.fraction('importance'),
+      pinned: read.flag('pinned'),
+      excludeFromContext: read.flag('excludeFromContext'),
+      timespan: startTime && endTime
+        ? { startTime, endTime, duration: Math.round((endTime.toMillis() - startTime.toMillis()) / 60000) }
+        : undefined,
+      createdAt: read.timestamp('createdAt'),
+      updatedAt: read.timestamp('updatedAt')
+    })
+  };
+};
+
+const parseShortTerm = (item: Fields, errors: string[]): Omit<ParsedItem, 'index'> => {
+  const read = fieldReader(item, errors);
+  const messages = Array.isArray(item.messages) ? item.messages : null;
+  if (!messages || messages.length > MAX_WINDOW_MESSAGES) {
+    errors.push(`messages must be a list of at most ${MAX_WINDOW_MESSAGES} messages`);
+  }
+
+  const parsedMessages = (messages || []).map((message: unknown, position) => {
+    const messageErrors: string[] = [];
+    const fields = isObject(message) ? message : {};
+    const readMessage = fieldReader(fields, messageErrors);
+    const parsed = compact({
+      messageId: readMessage.text('messageId', 300) || `imported_${position}`,
+      content: readMessage.text('content', MAX_SUMMARY_LENGTH, true),
+      role: readMessage.oneOf('role', ROLES),
+      modelProvider: readMessage.text('modelProvider', 50) || 'unknown',
+      timestamp: readMessage.timestamp('timestamp') || admin.firestore.Timestamp.now(),
+      importance: readMessage.fraction('importance') ?? 0.5
+    });
+    if (!parsed.role) messageErrors.push('role is required');
+    messageErrors.forEach(error => errors.push(`messages[${position}].${error}`));
+    return parsed;
+  });
+
+  return {
+    sourceId: typeof item.id === 'string' ? item.id : null,
+    text: '',
+    fields: compact({
+      conversationId: read.conversationId(true),
+      messages: parsedMessages,
+      overflow: [],
+      summary: read.text('summary', MAX_SUMMARY_LENGTH) || '',
+      summarizedMessageCount: read.count('summarizedMessageCount') || 0,
+      messageCount: read.count('messageCount') ?? parsedMessages.length,
+      windowSize: read.count('windowSize'),
+      createdAt: read.timestamp('createdAt'),
+      updatedAt: read.timestamp('updatedAt')
+    })
+  };
+};
+
+const PARSERS: Record<ImportedMemoryType, (item: Fields, errors: string[]) => Omit<ParsedItem, 'index'>> = {
+  semantic: parseSemantic,
+  episodic: parseEpisodic,
+  shortTerm: parseShortTerm
+};
+
+const COLLECTIONS: Record<ImportedMemoryType, string> = {
+  semantic: 'semanticMemories',
+  episodic: 'episodicMemories',
+  shortTerm: 'shortTermMemories'
+};
+
+// Accepts the memoryExport response as saved, or just its `data`, under `bundle`
+const readBundle = (body: Fields): { memories: Record<ImportedMemoryType, unknown[]>; settings: Fields | null } => {
+  const wrapped = isObject(body.bundle) ? body.bundle : body;
+  const bundle = isObject(wrapped.data) ? wrapped.data : wrapped;
+  if (!isObject(bundle.memories)) {
+    throw new ImportBundleError('Bundle must have a memories object', ['memories is required']);
+  }
+
+  const errors: string[] = [];
+  const memories: Record<ImportedMemoryType, unknown[]> = { semantic: [], episodic: [], shortTerm: [] };
+  for (const type of Object.keys(COLLECTIONS) as ImportedMemoryType[]) {
+    const list = bundle.memories[type] ?? [];
+    if (!Array.isArray(list)) {
+      errors.push(`memories.${type} must be a list`);
+    } else if (list.length > MAX_ITEMS[type]) {
+      errors.push(`memories.${type} has ${list.length} items; at most ${MAX_ITEMS[type]} can be imported at once`);
+    }
+    memories[type] = Array.isArray(list) ? list : [];
+  }
+  if (bundle.settings !== undefined && bundle.settings !== null && !isObject(bundle.settings)) {
+    errors.push('settings must be an object');
+  }
+  if (errors.length > 0) {
+    throw new ImportBundleError('Invalid memory bundle', errors);
+  }
+
+  return { memories, settings: isObject(bundle.settings) ? bundle.settings : null };
+};
+
+const commitInBatches = async (
+  db: admin.firestore.Firestore,
+  writes: Array<(batch: admin.firestore.WriteBatch) => void>
+): Promise<void> => {
+  // Firestore batches are capped at 500 writes
+  for (let start = 0; start < writes.length; start += 500) {
+    const batch = db.batch();
+    writes.slice(start, start + 500).forEach(write => write(batch));
+    await batch.commit();
+  }
+};
+
+/**
+ * Import a memoryExport bundle for `userId`. Merge keeps existing memories, skips bundle items
+ * that duplicate them and skips invalid items; replace swaps the user's memories for the bundle's
+ * and only proceeds when every item is valid. In both modes items that duplicate an earlier item
+ * in the bundle are skipped. Settings are restored only when asked for. Throws ImportBundleError
+ * when the bundle itself is malformed, or for a replace with invalid items.
+ */
+export const importMemories = async (
+  db: admin.firestore.Firestore,
+  userId: string,
+  body: Fields,
+  mode: ImportMode,
+  importSettings: boolean
+): Promise<ImportReport> => {
+  const { memories, settings } = readBundle(body);
+  const report: ImportReport = {
+    mode,
+    imported: emptyCounts(),
+    skipped: emptyCounts(),
+    rejected: emptyCounts(),
+    removed: emptyCounts(),
+    settingsImported: false,
+    details: { skipped: [], rejected: [] }
+  };
+
+  // Validate everything before touching the account
+  const parsed = {} as Record<ImportedMemoryType, ParsedItem[]>;
+  for (const type of Object.keys(COLLECTIONS) as ImportedMemoryType[]) {
+    parsed[type] = [];
+    memories[type].forEach((item, index) => {
+      const errors: string[] = [];
+      const result = isObject(item) ? PARSERS[type](item, errors) : null;
+      if (!result) errors.push('item must be an object');
+
+      if (errors.length > 0 || !result) {
+        report.rejected[type]++;
+        if (report.details.rejected.length < MAX_REPORTED_ITEMS) {
+          report.details.rejected.push({ type, index, errors });
+        }
+      } else {
+        parsed[type].push({ ...result, index });
+      }
+    });
+  }
+
+  // Replacing with part of a bundle would silently lose the memories the invalid items stood for
+  const rejectedItems = report.details.rejected;
+  if (mode === 'replace' && rejectedItems.length > 0) {
+    throw new ImportBundleError(
+      'Replace import refused: some memories in the bundle are invalid',
+      rejectedItems.map(({ type, index, errors }) => `memories.${type}[${index}]: ${errors.join('; ')}`)
+    );
+  }
+
+  // Replace compares the bundle only with itself; the old memories are deleted once it is written
+  const existing = {} as Record<ImportedMemoryType, admin.firestore.QueryDocumentSnapshot[]>;
+  const replaced: admin.firestore.QueryDocumentSnapshot[] = [];
+  for (const type of Object.keys(COLLECTIONS) as ImportedMemoryType[]) {
+    const snapshot = await db.collection(COLLECTIONS[type]).where('userId', '==', userId).get();
+    if (mode === 'replace') {
+      report.removed[type] = snapshot.size;
+      replaced.push(...snapshot.docs);
+      existing[type] = [];
+    } else {
+      existing[type] = snapshot.docs;
+    }
+  }
+
+  const embeddings = EmbeddingService.getInstance();
+  const timestamp = admin.firestore.Timestamp.now();
+  const writes: Array<(batch: admin.firestore.WriteBatch) => void> = [];
+  const skip = (type: ImportedMemoryType, item: ParsedItem, duplicateOf: string) => {
+    report.skipped[type]++;
+    if (report.details.skipped.length < MAX_REPORTED_ITEMS) {
+      report.details.skipped.push({ type, index: item.index, duplicateOf });
+    }
+  };
+
+  // Semantic and episodic items are deduplicated by similarity to current memories and to the
+  // items accepted before them; old ids map to the new (or duplicated) memory for relinking
+  const newIds = new Map<string, string>();
+  const accepted = {} as Record<'semantic' | 'episodic', Array<{ item: ParsedItem; id: string; embedding: number[] }>>;
+  for (const type of ['semantic', 'episodic'] as const) {
+    const textOf = type === 'semantic' ? semanticMemoryText : episodicMemoryText;
+    const current = existing[type].filter(doc => isCurrentMemory(doc.data()));
+    const [currentVectors, stored] = await Promise.all([
+      embeddings.storedVectors(current, textOf),
+      embeddings.embedManyForStorage(parsed[type].map(item => item.text))
+    ]);
+    const seen = new Map<string, string>();
+    current.forEach(doc => seen.set(normalizeText(textOf(doc.data())), doc.id));
+    const existingIds = new Set(existing[type].map(doc => doc.id));
+
+    accepted[type] = [];
+    parsed[type].forEach((item, position) => {
+      const vector = stored[position].embedding;
+      const sameEpisode = type === 'episodic'
+        ? `epi_${item.fields.conversationId}_${userId}`
+        : null;
+      let duplicateOf = seen.get(normalizeText(item.text)) ||
+        (sameEpisode && existingIds.has(sameEpisode) ? sameEpisode : undefined);
+
+      if (!duplicateOf && vector.length > 0) {
+        const threshold = embeddings.duplicateThreshold;
+        const index = currentVectors.findIndex(other => cosineSimilarity(vector, other) >= threshold);
+        duplicateOf = index >= 0
+          ? current[index].id
+          : accepted[type].find(other => cosineSimilarity(vector, other.embedding) >= threshold)?.id;
+      }
+      if (!duplicateOf && sameEpisode && accepted[type].some(other => other.id === sameEpisode)) {
+        duplicateOf = sameEpisode;
+      }
+
+      if (duplicateOf) {
+        skip(type, item, duplicateOf);
+        if (item.sourceId) newIds.set(item.sourceId, duplicateOf);
+        return;
+      }
+
+      const id = sameEpisode || db.collection(COLLECTIONS[type]).doc().id;
+      seen.set(normalizeText(item.text), id);
+      if (item.sourceId) newIds.set(item.sourceId, id);
+      accepted[type].push({ item, id, embedding: vector });
+      item.fields = { ...item.fields, ...stored[position] };
+    });
+  }
+
+  for (const { item, id } of accepted.semantic) {
+    const { supersedes, supersededBy } = item.fields as { supersedes: string[]; supersededBy: string | null };
+    writes.push(batch => batch.set(db.collection(COLLECTIONS.semantic).doc(id), {
+      ...item.fields,
+      id,
+      userId,
+      importance: item.fields.importance ?? 0.5,
+      confidence: item.fields.confidence ?? 0.5,
+      accessCount: item.fields.accessCount ?? 0,
+      createdAt: item.fields.createdAt || timestamp,
+      lastAccessedAt: item.fields.lastAccessedAt || timestamp,
+      // Links to memories outside the bundle keep their old id: still superseded, history incomplete
+      supersedes: supersedes.map(source => newIds.get(source) || source),
+      supersededBy: supersededBy ? newIds.get(supersededBy) || supersededBy : null,
+      importedAt: timestamp
+    }));
+  }
+
+  for (const { item, id } of accepted.episodic) {
+    writes.push(batch => batch.set(db.collection(COLLECTIONS.episodic).doc(id), {
+      ...item.fields,
+      id,
+      userId,
+      importance: item.fields.importance ?? 0.5,
+      createdAt: item.fields.createdAt || timestamp,
+      updatedAt: item.fields.updatedAt || timestamp,
+      importedAt: timestamp
+    }));
+  }
+
+  // A conversation has one short-term window; merge keeps the one already there
+  const windows = new Set(existing.shortTerm.map(doc => doc.id));
+  for (const item of parsed.shortTerm) {
+    const id = `${item.fields.conversationId}_${userId}`;
+    if (windows.has(id)) {
+      skip('shortTerm', item, id);
+      continue;
+    }
+    windows.add(id);
+    writes.push(batch => batch.set(db.collection(COLLECTIONS.shortTerm).doc(id), {
+      ...item.fields,
+      id,
+      userId,
+      createdAt: item.fields.createdAt || timestamp,
+      updatedAt: item.fields.updatedAt || timestamp,
+      importedAt: timestamp
+    }));
+    report.imported.shortTerm++;
+  }
+
+  report.imported.semantic = accepted.semantic.length;
+  report.imported.episodic = accepted.episodic.length;
+
+  if (importSettings && settings) {
+    const restored: Fields = {};
+    Object.keys(IMPORTABLE_SETTINGS).forEach(key => {
+      if (typeof settings[key] === IMPORTABLE_SETTINGS[key]) restored[key] = settings[key];
+    });
+    if (!EXPORT_FORMATS.includes(restored.exportFormat as ExportFormat)) {
+      delete restored.exportFormat;
+    }
+    writes.push(batch => batch.set(db.collection('memorySettings').doc(userId), {
+      ...restored,
+      userId,
+      updatedAt: timestamp
+    }, { merge: true }));
+    report.settingsImported = true;
+  }
+
+  await commitInBatches(db, writes);
+
+  // Episodes and short-term windows are keyed by conversation, so the bundle may have just
+  // overwritten some of the old documents in place; those must not be deleted now
+  if (replaced.length > 0) {
+    const written = new Set([
+      ...accepted.semantic.map(({ id }) => `${COLLECTIONS.semantic}/${id}`),
+      ...accepted.episodic.map(({ id }) => `${COLLECTIONS.episodic}/${id}`),
+      ...Array.from(windows).map(id => `${COLLECTIONS.shortTerm}/${id}`)
+    ]);
+    await commitInBatches(db, replaced
+      .filter(doc => !written.has(`${doc.ref.parent.id}/${doc.id}`))
+      .map(doc => (batch: admin.firestore.WriteBatch) => { batch.delete(doc.ref); }));
+  }
+
+  return report;
+};
@@ -0,0 +1,210 @@
+// Scheduled enforcement of each user's memory retention settings
+// Expired memories, memories below the importance threshold and anything over the per-user
+// limits are deleted in batches, and every run leaves an audit record in memoryRetentionRuns.
+// Takes the Firestore instance and clock as arguments so a run can be pointed at the emulator.
+import * as admin from 'firebase-admin';
+import { parseMemorySettings } from './memory-settings';
+import { isCurrentMemory, relinkSuperseded } from './semantic-memory-service';
+import { MemorySettings, PurgeCounts, PurgeReason, RetentionRunRecord, UserPurgeResult } from './memory-types';
+
+interface RetentionPolicy {
+  retentionDays: number; // 0 keeps documents forever
+  importanceThreshold: number | null; // null for collections without an importance
+  maxCount: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USERS_PER_PAGE = 100;
+const MAX_AUDITED_USERS = 200;
+const MAX_AUDITED_ERRORS = 50;
+
+const emptyCounts = (): PurgeCounts => ({ expired: 0, belowThreshold: 0, overLimit: 0 });
+
+const toMillis = (value?: { toMillis?: () => number }): number => value?.toMillis?.() || 0;
+
+// A memory's age runs from when it was last created, edited or used
+const lastActiveAt = (data: admin.firestore.DocumentData): number =>
+  Math.max(toMillis(data.createdAt), toMillis(data.updatedAt), toMillis(data.lastAccessedAt));
+
+/**
+ * Which documents a policy removes, and why. Pinned memories are always kept. Expiry and the
+ * importance threshold apply first; what survives is trimmed to the limit, superseded memories
+ * first, then the least important, then the oldest.
+ */
+export const selectForPurge = (
+  docs: admin.firestore.QueryDocumentSnapshot[],
+  policy: RetentionPolicy,
+  now: Date
+): Map<string, PurgeReason> => {
+  const reasons = new Map<string, PurgeReason>();
+  const cutoff = now.getTime() - policy.retentionDays * DAY_MS;
+  const kept: admin.firestore.QueryDocumentSnapshot[] = [];
+
+  for (const doc of docs) {
+    const data = doc.data();
+    if (data.pinned === true) {
+      kept.push(doc);
+    } else if (policy.retentionDays > 0 && lastActiveAt(data) < cutoff) {
+      reasons.set(doc.id, 'expired');
+    } else if (policy.importanceThreshold !== null &&
+      typeof data.importance === 'number' && data.importance < policy.importanceThreshold) {
+      reasons.set(doc.id, 'belowThreshold');
+    } else {
+      kept.push(doc);
+    }
+  }
+
+  if (policy.maxCount !== null && kept.length > policy.maxCount) {
+    kept
+      .filter(doc => doc.data().pinned !== true)
+      .sort((a, b) =>
+        Number(isCurrentMemory(a.data())) - Number(isCurrentMemory(b.data())) ||
+        (a.data().importance || 0) - (b.data().importance || 0) ||
+        toMillis(a.data().createdAt) - toMillis(b.data().createdAt)
+      )
+      .slice(0, kept.length - policy.maxCount)
+      .forEach(doc => reasons.set(doc.id, 'overLimit'));
+  }
+
+  return reasons;
+};
+
+// Apply a policy to one of the user's collections, writing in batches of up to 500. Memories
+// superseded by a purged one are relinked so they don't stay hidden behind a deleted fact; only
+// semantic memories supersede one another, so elsewhere there is nothing to relink.
+const purgeCollection = async (
+  db: admin.firestore.Firestore,
+  collection: string,
+  userId: string,
+  policy: RetentionPolicy,
+  now: Date
+): Promise<PurgeCounts> => {
+  const snapshot = await db.collection(collection).where('userId', '==', userId).get();
+  const reasons = selectForPurge(snapshot.docs, policy, now);
+  const doomed = snapshot.docs.filter(doc => reasons.has(doc.id));
+  const writes: Array<[admin.firestore.DocumentReference, Record<string, unknown> | null]> = [
+    ...doomed.map((doc): [admin.firestore.DocumentReference, null] => [doc.ref, null]),
+    ...relinkSuperseded(snapshot.docs, new Set(reasons.keys()))
+  ];
+
+  for (let start = 0; start < writes.length; start += 500) {
+    const batch = db.batch();
+    for (const [ref, update] of writes.slice(start, start + 500)) {
+      if (update) {
+        batch.update(ref, update);
+      } else {
+        batch.delete(ref);
+      }
+    }
+    await batch.commit();
+  }
+
+  const counts = emptyCounts();
+  reasons.forEach(reason => counts[reason]++);
+  return counts;
+};
+
+export const purgeUserMemories = async (
+  db: admin.firestore.Firestore,
+  userId: string,
+  settings: MemorySettings,
+  now: Date
+): Promise<UserPurgeResult> => {
+  const threshold = settings.memoryImportanceThreshold > 0 ? settings.memoryImportanceThreshold : null;
+
+  // One collection at a time, so at most one batch is in flight per user
+  const semantic = await purgeCollection(db, 'semanticMemories', userId, {
+    retentionDays: settings.dataRetentionDays,
+    importanceThreshold: threshold,
+    maxCount: settings.maxSemanticMemories
+  }, now);
+  const episodic = await purgeCollection(db, 'episodicMemories', userId, {
+    retentionDays: settings.dataRetentionDays,
+    importanceThreshold: threshold,
+    maxCount: settings.maxEpisodicMemories
+  }, now);
+  // Short-term windows only expire; they have no importance and are one per conversation
+  const shortTerm = await purgeCollection(db, 'shortTermMemories', userId, {
+    retentionDays: settings.dataRetentionDays,
+    importanceThreshold: null,
+    maxCount: null
+  }, now);
+
+  return { userId, semantic, episodic, shortTerm };
+};
+
+const deletedCount = (result: Omit<UserPurgeResult, 'userId'>): number =>
+  [result.semantic, result.episodic, result.shortTerm]
+    .reduce((total, counts) => total + counts.expired + counts.belowThreshold + counts.overLimit, 0);
+
+/**
+ * Purge every user with a memorySettings document and record the run. Users who have never
+ * saved settings have the defaults, which keep memories forever and are already held to the
+ * default limits when memories are written. Returns the audit record's id.
+ */
+export const runRetentionPurge = async (
+  db: admin.firestore.Firestore,
+  now: Date = new Date()
+): Promise<string> => {
+  const startedAt = admin.firestore.Timestamp.fromDate(now);
+  const totals = { semantic: emptyCounts(), episodic: emptyCounts(), shortTerm: emptyCounts() };
+  const users: UserPurgeResult[] = [];
+  const errors: Array<{ userId: string; message: string }> = [];
+  let usersProcessed = 0;
+  let usersWithDeletions = 0;
+
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+  for (;;) {
+    let page = db.collection('memorySettings')
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(USERS_PER_PAGE);
+    if (lastDoc) {
+      page = page.startAfter(lastDoc);
+    }
+
+    const snapshot = await page.get();
+    if (snapshot.empty) break;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+
+    for (const settingsDoc of snapshot.docs) {
+      const userId = settingsDoc.id;
+      try {
+        const result = await purgeUserMemories(db, userId, parseMemorySettings(settingsDoc.data()), now);
+        usersProcessed++;
+
+        if (deletedCount(result) > 0) {
+          usersWithDeletions++;
+          if (users.length < MAX_AUDITED_USERS) {
+            users.push(result);
+          }
+          for (const key of ['semantic', 'episodic', 'shortTerm'] as const) {
+            for (const reason of Object.keys(totals[key]) as PurgeReason[]) {
+              totals[key][reason] += result[key][reason];
+            }
+          }
+        }
+      } catch (error) {
+        console.error(`Error purging memories for user ${userId}:`, error);
+        if (errors.length < MAX_AUDITED_ERRORS) {
+          errors.push({ userId, message: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    if (snapshot.size < USERS_PER_PAGE) break;
+  }
+
+  const record: RetentionRunRecord = {
+    startedAt,
+    finishedAt: admin.firestore.Timestamp.now(),
+    usersProcessed,
+    totals,
+    users,
+    usersTruncated: usersWithDeletions > users.length,
+    errors
+  };
+  const ref = await db.collection('memoryRetentionRuns').add(record);
+
+  console.log(`🗓️ Retention run ${ref.id}: ${usersProcessed} users, ${deletedCount(totals)} memories deleted, ${errors.length} errors`);
+  return ref.id;
+};
@@ -0,0 +1,46 @@
+// Server-side view of a user's memory settings
+import * as admin from 'firebase-admin';
+import { MemorySettings, DEFAULT_MEMORY_SETTINGS, EXPORT_FORMATS, ExportFormat } from './memory-types';
+import { MODEL_PROVIDER_PREFERENCES, ModelProviderPreference } from './chat-model-types';
+
+// Missing fields fall back to the defaults the client writes for new users
+export const parseMemorySettings = (data: admin.firestore.DocumentData): MemorySettings => {
+  const flag = (key: keyof MemorySettings) =>
+    typeof data[key] === 'boolean' ? data[key] as boolean : DEFAULT_MEMORY_SETTINGS[key] as boolean;
+  const limit = (key: keyof MemorySettings) =>
+    typeof data[key] === 'number' && data[key] > 0 ? data[key] as number : DEFAULT_MEMORY_SETTINGS[key] as number;
+
+  return {
+    memoryEnabled: flag('memoryEnabled'),
+    shortTermMemoryEnabled: flag('shortTermMemoryEnabled'),
+    semanticMemoryEnabled: flag('semanticMemoryEnabled'),
+    episodicMemoryEnabled: flag('episodicMemoryEnabled'),
+    allowCrossConversationMemory: flag('allowCrossConversationMemory'),
+    // 0 is meaningful for both: keep forever, and purge nothing by importance
+    dataRetentionDays: typeof data.dataRetentionDays === 'number' && data.dataRetentionDays >= 0
+      ? Math.floor(data.dataRetentionDays)
+      : DEFAULT_MEMORY_SETTINGS.dataRetentionDays,
+    memoryImportanceThreshold: typeof data.memoryImportanceThreshold === 'number' &&
+      data.memoryImportanceThreshold >= 0 && data.memoryImportanceThreshold <= 1
+      ? data.memoryImportanceThreshold
+      : DEFAULT_MEMORY_SETTINGS.memoryImportanceThreshold,
+    maxSemanticMemories: limit('maxSemanticMemories'),
+    maxEpisodicMemories: limit('maxEpisodicMemories'),
+    exportFormat: EXPORT_FORMATS.includes(data.exportFormat)
+      ? data.exportFormat as ExportFormat
+      : DEFAULT_MEMORY_SETTINGS.exportFormat,
+    preferredModelProvider: MODEL_PROVIDER_PREFERENCES.includes(data.preferredModelProvider)
+      ? data.preferredModelProvider as ModelProviderPreference
+      : DEFAULT_MEMORY_SETTINGS.preferredModelProvider
+  };
+};
+
+export const loadMemorySettings = async (userId: string): Promise<MemorySettings> => {
+  try {
+    const settingsDoc = await admin.firestore().collection('memorySettings').doc(userId).get();
+    return parseMemorySettings(settingsDoc.data() || {});
+  } catch (error) {
+    console.error('Error loading memory settings:', error);
+    return DEFAULT_MEMORY_SETTINGS;
+  }
+};
@@ -0,0 +1,159 @@
+// Conversation memory types for Firebase Functions
+import * as admin from 'firebase-admin';
+import { ModelProviderPreference } from './chat-model-types';
+
+// Conversation ids are client-generated, e.g. image_1712345678901_k3j9x2a1b
+export const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export const EXPORT_FORMATS = ['json', 'markdown', 'csv'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Per-user switches stored in memorySettings/{userId}; mirrors lib/types/memory.ts
+export interface MemorySettings {
+  memoryEnabled: boolean;
+  shortTermMemoryEnabled: boolean;
+  semanticMemoryEnabled: boolean;
+  episodicMemoryEnabled: boolean;
+  allowCrossConversationMemory: boolean;
+  dataRetentionDays: number; // 0 keeps memories forever
+  memoryImportanceThreshold: number; // memories less important than this are purged
+  maxSemanticMemories: number;
+  maxEpisodicMemories: number;
+  exportFormat: ExportFormat;
+  preferredModelProvider: ModelProviderPreference; // GPT or Claude answer chat turns when configured
+}
+
+export const DEFAULT_MEMORY_SETTINGS: MemorySettings = {
+  memoryEnabled: true,
+  shortTermMemoryEnabled: true,
+  semanticMemoryEnabled: true,
+  episodicMemoryEnabled: true,
+  allowCrossConversationMemory: true,
+  dataRetentionDays: 0,
+  memoryImportanceThreshold: 0.3,
+  maxSemanticMemories: 1000,
+  maxEpisodicMemories: 100,
+  exportFormat: 'json',
+  preferredModelProvider: 'auto'
+};
+
+export type TurnRole = 'user' | 'assistant';
+
+// One message in a shortTermMemories window
+export interface ShortTermMessage {
+  messageId: string;
+  content: string;
+  role: TurnRole;
+  modelProvider: string;
+  timestamp: admin.firestore.Timestamp;
+  importance: number;
+}
+
+// Which memories a request may draw on: with cross-conversation memory off, only those learned in
+// this conversation. Memories the user excluded never qualify.
+export interface MemoryScope {
+  conversationId: string;
+  allowCrossConversation: boolean;
+}
+
+// A completed exchange, as recorded after a successful generation
+export interface ConversationTurn {
+  turnId: string; // from newTurnId(); message ids are `${turnId}_user` and `${turnId}_assistant`
+  userId: string;
+  conversationId: string;
+  userPrompt: string;
+  response: string;
+  modelProvider: string;
+}
+
+// ':' never appears in a conversation id, so the conversation a message came from can be
+// read back from the message id
+export const newTurnId = (conversationId: string): string => `${conversationId}:${Date.now()}`;
+
+// The conversation a message id belongs to, or null for ids written before turn ids carried it
+export const conversationOfMessage = (messageId: string): string | null => {
+  const separator = messageId.indexOf(':');
+  return separator > 0 ? messageId.substring(0, separator) : null;
+};
+
+export interface EpisodeSummary {
+  summary: string;
+  keyTopics: string[];
+  mainOutcomes: string[];
+  userGoals: string[];
+  assistantActions: string[];
+}
+
+// Where a packed prompt's tokens went, as reported back to the client
+export interface TokenBreakdown {
+  model: string;
+  tokenizer: string;
+  contextWindow: number;
+  reservedForOutput: number;
+  system: number; // system prompt and mode instructions
+  facts: number;
+  summary: number; // running summary of this conversation's earlier turns
+  episodes: number;
+  recentMessages: number;
+  prompt: number;
+  total: number;
+  dropped: {
+    facts: number;
+    episodes: number;
+    recentMessages: number;
+  };
+  truncated: boolean;
+}
+
+export type MemoryReferenceType = 'semantic' | 'episodic' | 'shortTerm';
+
+// One memory item that made it into a reply's prompt; mirrored in lib/types/memory.ts.
+// Short-term references point at a window message id, or at the window itself for its summary.
+export interface MemoryReference {
+  type: MemoryReferenceType;
+  id: string;
+  preview: string;
+}
+
+export type PurgeReason = 'expired' | 'belowThreshold' | 'overLimit';
+
+export type PurgeCounts = Record<PurgeReason, number>;
+
+// What one retention run deleted for one user, per collection
+export interface UserPurgeResult {
+  userId: string;
+  semantic: PurgeCounts;
+  episodic: PurgeCounts;
+  shortTerm: PurgeCounts;
+}
+
+// The audit record each run writes to memoryRetentionRuns
+export interface RetentionRunRecord {
+  startedAt: admin.firestore.Timestamp;
+  finishedAt: admin.firestore.Timestamp;
+  usersProcessed: number;
+  totals: Omit<UserPurgeResult, 'userId'>;
+  users: UserPurgeResult[]; // users something was deleted for, capped
+  usersTruncated: boolean;
+  errors: Array<{ userId: string; message: string }>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export type ImportedMemoryType = 'semantic' | 'episodic' | 'shortTerm';
+
+export type ImportCounts = Record<ImportedMemoryType, number>;
+
+// Outcome of POST /memory/import; the item lists are capped, the counts are not
+export interface ImportReport {
+  mode: ImportMode;
+  imported: ImportCounts;
+  skipped: ImportCounts; // duplicates of existing memories or of earlier items in the bundle
+  rejected: ImportCounts; // failed validation
+  removed: ImportCounts; // existing memories deleted by replace mode
+  settingsImported: boolean;
+  details: {
+    skipped: Array<{ type: ImportedMemoryType; index: number; duplicateOf: string }>;
+    rejected: Array<{ type: ImportedMemoryType; index: number; errors: string[] }>;
+  };
+}
@@ -0,0 +1,151 @@
+// Provider rate limiter
+// Token buckets per model provider in providerRateLimits/{providerId}, shared by every function
+// instance, plus the per-caller route buckets in routeRateLimits/{bucketId}. Buckets are only
+// touched here, in Admin SDK transactions timed by the server clock; clients can neither read nor
+// write them.
+import * as admin from 'firebase-admin';
+
+export interface ProviderRateLimits {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+// Keyed by ChatProviderId; image providers name the bucket they draw on with rateLimitKey
+export const PROVIDER_RATE_LIMITS: Record<string, ProviderRateLimits> = {
+  gemini: { requestsPerMinute: 60, tokensPerMinute: 1000000 },
+  gpt: { requestsPerMinute: 60, tokensPerMinute: 150000 },
+  claude: { requestsPerMinute: 60, tokensPerMinute: 80000 }
+};
+
+export interface RateLimitPermit {
+  granted: boolean;
+  waitedMs: number; // time spent queued before the permit was granted
+  retryAfterMs?: number; // when denied, how long until the request would fit
+}
+
+// The parts of ProviderRateLimiter that chat failover and image fallback charge providers through
+export type ProviderLimiter = Pick<ProviderRateLimiter, 'acquire' | 'recordTokens'>;
+
+interface BucketState {
+  requests: number;
+  tokens: number;
+  updatedAt: number; // ms since epoch
+}
+
+export class ProviderRateLimiter {
+  private static instance: ProviderRateLimiter;
+  private db: admin.firestore.Firestore;
+
+  // Longest a caller is queued before the request is rejected instead
+  private readonly MAX_QUEUE_WAIT_MS = 10 * 1000;
+
+  private constructor() {
+    this.db = admin.firestore();
+  }
+
+  public static getInstance(): ProviderRateLimiter {
+    if (!ProviderRateLimiter.instance) {
+      ProviderRateLimiter.instance = new ProviderRateLimiter();
+    }
+    return ProviderRateLimiter.instance;
+  }
+
+  /**
+   * Take one request and `estimatedTokens` tokens from the provider's buckets, waiting for them
+   * to refill if that fits within the queue limit. Providers without limits are always admitted.
+   */
+  async acquire(providerId: string, estimatedTokens: number, maxWaitMs: number = this.MAX_QUEUE_WAIT_MS): Promise<RateLimitPermit> {
+    const limits = PROVIDER_RATE_LIMITS[providerId];
+    if (!limits) {
+      return { granted: true, waitedMs: 0 };
+    }
+    return this.take(this.db.collection('providerRateLimits').doc(providerId), limits, estimatedTokens, maxWaitMs);
+  }
+
+  // One request from a caller's route bucket; routes count requests only and never queue
+  async acquireRequest(bucketId: string, requestsPerMinute: number): Promise<RateLimitPermit> {
+    const limits = { requestsPerMinute, tokensPerMinute: 0 };
+    return this.take(this.db.collection('routeRateLimits').doc(bucketId), limits, 0, 0);
+  }
+
+  private async take(
+    ref: admin.firestore.DocumentReference,
+    limits: ProviderRateLimits,
+    estimatedTokens: number,
+    maxWaitMs: number
+  ): Promise<RateLimitPermit> {
+    const startTime = Date.now();
+    while (true) {
+      let waitMs: number;
+      try {
+        waitMs = await this.tryTake(ref, limits, estimatedTokens);
+      } catch (error) {
+        // Don't block requests because the limiter itself is unavailable
+        console.error(`Error checking rate limit ${ref.id}:`, error);
+        return { granted: true, waitedMs: Date.now() - startTime };
+      }
+
+      const waitedMs = Date.now() - startTime;
+      if (waitMs === 0) {
+        return { granted: true, waitedMs };
+      }
+      if (waitedMs + waitMs > maxWaitMs) {
+        return { granted: false, waitedMs, retryAfterMs: waitMs };
+      }
+
+      console.log(`⏳ ${ref.id} rate limit reached, queueing for ${waitMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  /**
+   * Charge tokens the provider actually used beyond the estimate taken in acquire().
+   * The bucket may go negative, which makes later callers wait for it to recover.
+   */
+  async recordTokens(providerId: string, extraTokens: number): Promise<void> {
+    if (extraTokens <= 0 || !PROVIDER_RATE_LIMITS[providerId]) return;
+
+    try {
+      await this.db.collection('providerRateLimits').doc(providerId).update({
+        tokens: admin.firestore.FieldValue.increment(-extraTokens)
+      });
+    } catch (error) {
+      console.error('Error recording provider token usage:', error);
+    }
+  }
+
+  // Returns 0 when the request was admitted, otherwise the wait until it would be
+  private async tryTake(ref: admin.firestore.DocumentReference, limits: ProviderRateLimits, estimatedTokens: number): Promise<number> {
+    const { requestsPerMinute, tokensPerMinute } = limits;
+    const requestRate = requestsPerMinute / 60000; // per ms
+    const tokenRate = tokensPerMinute / 60000;
+    // A single request larger than the whole bucket could never be admitted otherwise
+    const tokenCost = Math.min(estimatedTokens, tokensPerMinute);
+
+    return this.db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(ref);
+      const now = Date.now();
+      const stored = snapshot.exists ? snapshot.data() as BucketState : null;
+
+      const elapsed = stored ? Math.max(0, now - stored.updatedAt) : 0;
+      const bucket: BucketState = {
+        requests: stored ? Math.min(requestsPerMinute, stored.requests + elapsed * requestRate) : requestsPerMinute,
+        tokens: stored ? Math.min(tokensPerMinute, stored.tokens + elapsed * tokenRate) : tokensPerMinute,
+        updatedAt: now
+      };
+
+      if (bucket.requests >= 1 && bucket.tokens >= tokenCost) {
+        transaction.set(ref, {
+          requests: bucket.requests - 1,
+          tokens: bucket.tokens - tokenCost,
+          updatedAt: now
+        });
+        return 0;
+      }
+
+      const requestWait = bucket.requests >= 1 ? 0 : (1 - bucket.requests) / requestRate;
+      const tokenWait = bucket.tokens >= tokenCost ? 0 : (tokenCost - bucket.tokens) / tokenRate;
+      return Math.max(1, Math.ceil(Math.max(requestWait, tokenWait)));
+    });
+  }
+}
@@ -0,0 +1,253 @@
+// Declarative routing for the `api` Cloud Function
+// One route table drives dispatch, authentication, rate limits, the 404/405 responses and the
+// OpenAPI document
+
+import { Request, Response } from 'firebase-functions';
+import { verifyAuthToken } from './firebase-admin';
+import { RateLimitPermit } from './provider-rate-limiter';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// `user` routes require a Firebase ID token; `public` routes authenticate themselves (e.g. Stripe signatures)
+export type RouteAuth = 'user' | 'public';
+
+// Coarse cost class of a route; each class has its own request budget per caller
+export type RateLimitClass = 'generation' | 'standard' | 'bulk' | 'webhook';
+
+// Requests per minute for one caller (the user, or the client IP on public routes); null is unlimited
+export const ROUTE_RATE_LIMITS: Record<RateLimitClass, number | null> = {
+  generation: 20,
+  standard: 120,
+  bulk: 10,
+  webhook: null // Stripe signs its deliveries and retries them on failure
+};
+
+// Takes one request from the named bucket, rejecting rather than queueing when it is empty
+export type RouteRateLimiter = (bucketId: string, requestsPerMinute: number) => Promise<RateLimitPermit>;
+
+// The router has already verified the ID token of `user` routes, so their handlers get the uid
+export type UserRouteHandler = (request: Request, response: Response, userId: string) => Promise<unknown>;
+export type PublicRouteHandler = (request: Request, response: Response) => Promise<unknown>;
+
+interface RouteBase {
+  method: HttpMethod;
+  path: string; // e.g. '/memory/semantic/:id', relative to the /api prefix
+  operationId: string;
+  summary: string;
+  tag: string;
+  rateLimit: RateLimitClass;
+}
+
+export type RouteDefinition =
+  | RouteBase & { auth: 'user'; handler: UserRouteHandler }
+  | RouteBase & { auth: 'public'; handler: PublicRouteHandler };
+
+// A path matching a route's pattern, or naming the parameter that could not be decoded
+export type PathMatch =
+  | { params: Record<string, string> }
+  | { invalidParam: string };
+
+interface MatchedRoute {
+  route: RouteDefinition;
+  match: PathMatch;
+}
+
+const API_PREFIX = '/api';
+
+// Requests arrive as both /api/route (hosting rewrite) and /route (direct function URL)
+const normalizePath = (path: string): string => {
+  let normalized = path || '/';
+  if (normalized === API_PREFIX || normalized.startsWith(`${API_PREFIX}/`)) {
+    normalized = normalized.substring(API_PREFIX.length) || '/';
+  }
+  if (normalized.length > 1 && normalized.endsWith('/')) {
+    normalized = normalized.replace(/\/+$/, '');
+  }
+  return normalized;
+};
+
+// Parameter values end up in Firestore doc ids, so malformed escapes and encoded slashes are refused
+const decodeParam = (value: string): string | null => {
+  try {
+    const decoded = decodeURIComponent(value);
+    return decoded.includes('/') ? null : decoded;
+  } catch {
+    return null;
+  }
+};
+
+export const matchPath = (pattern: string, path: string): PathMatch | null => {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = path.split('/').filter(Boolean);
+
+  if (patternSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    const expected = patternSegments[i];
+    const actual = pathSegments[i];
+    if (expected.startsWith(':')) {
+      const decoded = decodeParam(actual);
+      if (decoded === null) {
+        return { invalidParam: expected.substring(1) };
+      }
+      params[expected.substring(1)] = decoded;
+    } else if (expected !== actual) {
+      return null;
+    }
+  }
+  return { params };
+};
+
+export class Router {
+  constructor(
+    private readonly routes: RouteDefinition[],
+    private readonly rateLimiter: RouteRateLimiter,
+    private readonly verifyToken: (authHeader: string | null) => Promise<string | null> = verifyAuthToken
+  ) {}
+
+  async dispatch(request: Request, response: Response): Promise<void> {
+    const path = normalizePath(request.path);
+    const method = request.method.toUpperCase();
+
+    const candidates: MatchedRoute[] = [];
+    for (const route of this.routes) {
+      const match = matchPath(route.path, path);
+      if (match) {
+        candidates.push({ route, match });
+      }
+    }
+
+    if (candidates.length === 0) {
+      console.log(`❌ No route found for: ${method} ${request.path}`);
+      response.status(404).json({
+        error: 'Function not found',
+        path: request.path,
+        method,
+        availableRoutes: this.routes.map(route => `${route.method} ${API_PREFIX}${route.path}`)
+      });
+      return;
+    }
+
+    const matched = candidates.find(candidate => candidate.route.method === method);
+    if (!matched) {
+      const allowed = Array.from(new Set(candidates.map(candidate => candidate.route.method)));
+      response.set('Allow', allowed.join(', '));
+      response.status(405).json({
+        error: 'Method not allowed',
+        path: request.path,
+        method,
+        allowedMethods: allowed
+      });
+      return;
+    }
+
+    const { route, match } = matched;
+    if ('invalidParam' in match) {
+      response.status(400).json({ error: `Invalid path parameter: ${match.invalidParam}` });
+      return;
+    }
+
+    let userId: string | null = null;
+    if (route.auth === 'user') {
+      userId = await this.verifyToken(request.headers.authorization || null);
+      if (!userId) {
+        response.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+    }
+
+    const caller = userId ? `user_${userId}` : `ip_${request.ip || 'unknown'}`;
+    if (!(await this.admit(route, caller, response))) {
+      return;
+    }
+
+    request.params = { ...request.params, ...match.params };
+    console.log(`🎯 Routing to ${route.operationId}`);
+    if (route.auth === 'user') {
+      await route.handler(request, response, userId as string);
+    } else {
+      await route.handler(request, response);
+    }
+  }
+
+  // Charges the caller's bucket for the route's class, or answers 429 and returns false
+  private async admit(route: RouteDefinition, caller: string, response: Response): Promise<boolean> {
+    const requestsPerMinute = ROUTE_RATE_LIMITS[route.rateLimit];
+    if (requestsPerMinute === null) {
+      return true;
+    }
+
+    const permit = await this.rateLimiter(`${route.rateLimit}_${caller}`, requestsPerMinute);
+    if (permit.granted) {
+      return true;
+    }
+
+    const retryAfterMs = permit.retryAfterMs || 0;
+    console.log(`⛔ ${caller} is over the ${route.rateLimit} rate limit`);
+    response.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+    response.status(429).json({
+      error: `Too many requests, retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+      errorType: 'RATE_LIMITED',
+      rateLimit: route.rateLimit,
+      retryAfterMs
+    });
+    return false;
+  }
+
+  // OpenAPI 3 description of the route table
+  openApiDocument(): Record<string, unknown> {
+    const paths: Record<string, Record<string, unknown>> = {};
+
+    for (const route of this.routes) {
+      const openApiPath = `${API_PREFIX}${route.path.replace(/:([A-Za-z0-9_]+)/g, '{$1}')}`;
+      const pathParams = (route.path.match(/:([A-Za-z0-9_]+)/g) || []).map(param => ({
+        name: param.substring(1),
+        in: 'path',
+        required: true,
+        schema: { type: 'string' }
+      }));
+
+      const requestsPerMinute = ROUTE_RATE_LIMITS[route.rateLimit];
+      paths[openApiPath] = paths[openApiPath] || {};
+      paths[openApiPath][route.method.toLowerCase()] = {
+        operationId: route.operationId,
+        summary: route.summary,
+        tags: [route.tag],
+        ...(pathParams.length > 0 ? { parameters: pathParams } : {}),
+        ...(route.auth === 'user' ? { security: [{ bearerAuth: [] }] } : {}),
+        'x-rate-limit': { class: route.rateLimit, requestsPerMinute },
+        responses: {
+          200: { description: 'Success' },
+          ...(pathParams.length > 0 ? { 400: { description: 'Malformed path parameter' } } : {}),
+          ...(route.auth === 'user' ? { 401: { description: 'Missing or invalid Firebase ID token' } } : {}),
+          405: { description: 'Method not allowed' },
+          ...(requestsPerMinute !== null
+            ? { 429: { description: `More than ${requestsPerMinute} ${route.rateLimit} requests a minute from this caller` } }
+            : {}),
+          500: { description: 'Internal server error' }
+        }
+      };
+    }
+
+    return {
+      openapi: '3.0.3',
+      info: {
+        title: 'Pixtorai API',
+        version: '1.0.0'
+      },
+      paths,
+      components: {
+        securitySchemes: {
+          bearerAuth: {
+            type: 'http',
+            scheme: 'bearer',
+            bearerFormat: 'Firebase ID token'
+          }
+        }
+      }
+    };
+  }
+}
@@ -0,0 +1,316 @@
+// Route table for the `api` Cloud Function
+// Paths are relative to /api; both /api/route and /route are accepted
+
+import { Router, RouteDefinition } from './router';
+import { ProviderRateLimiter } from './provider-rate-limiter';
+import { subscriptionCheckout } from './subscription-checkout';
+import { subscriptionPortal } from './subscription-portal';
+import { subscriptionUsage } from './subscription-usage';
+import { subscriptionWebhook } from './subscription-webhook';
+import {
+  memoryStats,
+  memorySearch,
+  memoryToggle,
+  memoryExport,
+  memoryImport,
+  memoryClear,
+  memoryContext,
+  memoryForgetConversation,
+  memoryResetConversation,
+  memoryGet,
+  memoryHistory,
+  memoryUpdate,
+  memoryDelete
+} from './memory-api';
+import { memoryEnhancedGenerate, memoryEnhancedGenerateStream } from './memory-enhanced-generate';
+import { imageMigrateLocal } from './image-migration';
+import { conversationsRebuild, conversationDelete } from './conversation-api';
+
+const routes: RouteDefinition[] = [
+  // Generation
+  {
+    method: 'POST',
+    path: '/generate-image',
+    operationId: 'memoryEnhancedGenerate',
+    summary: 'Generate a chat reply or image with conversation memory',
+    tag: 'generation',
+    auth: 'user',
+    rateLimit: 'generation',
+    handler: memoryEnhancedGenerate
+  },
+  {
+    method: 'POST',
+    path: '/generate-image-v2',
+    operationId: 'memoryEnhancedGenerateV2',
+    summary: 'Generate a chat reply or image with conversation memory (v2)',
+    tag: 'generation',
+    auth: 'user',
+    rateLimit: 'generation',
+    handler: memoryEnhancedGenerate
+  },
+  {
+    method: 'POST',
+    path: '/generate-image-v2/stream',
+    operationId: 'memoryEnhancedGenerateStream',
+    summary: 'Stream a chat reply with conversation memory as server-sent events',
+    tag: 'generation',
+    auth: 'user',
+    rateLimit: 'generation',
+    handler: memoryEnhancedGenerateStream
+  },
+
+  // Images
+  {
+    method: 'POST',
+    path: '/images/migrate-local',
+    operationId: 'migrateLocalImage',
+    summary: 'Move a generated image kept in browser storage into Cloud Storage',
+    tag: 'images',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: imageMigrateLocal
+  },
+
+  // Conversations
+  {
+    method: 'POST',
+    path: '/conversations/rebuild',
+    operationId: 'rebuildConversations',
+    summary: 'Recreate the caller\'s conversation list from their messages',
+    tag: 'conversations',
+    auth: 'user',
+    rateLimit: 'bulk',
+    handler: conversationsRebuild
+  },
+  {
+    method: 'DELETE',
+    path: '/conversations/:id',
+    operationId: 'deleteConversation',
+    summary: 'Delete a conversation with its messages, images and memories',
+    tag: 'conversations',
+    auth: 'user',
+    rateLimit: 'bulk',
+    handler: conversationDelete
+  },
+
+  // Subscriptions
+  {
+    method: 'POST',
+    path: '/subscription/checkout',
+    operationId: 'subscriptionCheckout',
+    summary: 'Create a Stripe Checkout session for a plan',
+    tag: 'subscription',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: subscriptionCheckout
+  },
+  {
+    method: 'POST',
+    path: '/subscription/portal',
+    operationId: 'subscriptionPortal',
+    summary: 'Create a Stripe billing portal session',
+    tag: 'subscription',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: subscriptionPortal
+  },
+  {
+    method: 'GET',
+    path: '/subscription/usage',
+    operationId: 'subscriptionUsage',
+    summary: 'Get daily and monthly usage for the current plan',
+    tag: 'subscription',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: subscriptionUsage
+  },
+  {
+    method: 'POST',
+    path: '/subscription/webhook',
+    operationId: 'subscriptionWebhook',
+    summary: 'Receive Stripe webhook events',
+    tag: 'subscription',
+    auth: 'public',
+    rateLimit: 'webhook',
+    handler: subscriptionWebhook
+  },
+
+  // Memory
+  {
+    method: 'GET',
+    path: '/memory/stats',
+    operationId: 'memoryStats',
+    summary: 'Get memory usage statistics',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: memoryStats
+  },
+  {
+    method: 'GET',
+    path: '/memory/search',
+    operationId: 'memorySearch',
+    summary: 'Search semantic and episodic memories',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: memorySearch
+  },
+  {
+    method: 'POST',
+    path: '/memory/toggle',
+    operationId: 'memoryToggle',
+    summary: 'Update memory settings toggles',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: memoryToggle
+  },
+  {
+    method: 'POST',
+    path: '/memory/export',
+    operationId: 'memoryExport',
+    summary: 'Export all memories',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'bulk',
+    handler: memoryExport
+  },
+  {
+    method: 'POST',
+    path: '/memory/import',
+    operationId: 'importMemories',
+    summary: 'Restore memories from an export bundle',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'bulk',
+    handler: memoryImport
+  },
+  {
+    method: 'DELETE',
+    path: '/memory/clear',
+    operationId: 'memoryClear',
+    summary: 'Permanently delete all memories',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'bulk',
+    handler: memoryClear
+  },
+  {
+    method: 'POST',
+    path: '/memory/context',
+    operationId: 'memoryContext',
+    summary: 'Build conversation context for a model request',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: memoryContext
+  },
+  {
+    method: 'DELETE',
+    path: '/memory/conversations/:id',
+    operationId: 'forgetConversationMemory',
+    summary: 'Forget the memories learned from one conversation',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'bulk',
+    handler: memoryForgetConversation
+  },
+  {
+    method: 'DELETE',
+    path: '/memory/conversations/:id/context',
+    operationId: 'resetConversationContext',
+    summary: 'Clear the recent turns and running summary of one conversation',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: memoryResetConversation
+  },
+  {
+    method: 'GET',
+    path: '/memory/semantic/:id',
+    operationId: 'getSemanticMemory',
+    summary: 'Get a single semantic memory (known fact)',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: memoryGet('semantic')
+  },
+  {
+    method: 'GET',
+    path: '/memory/semantic/:id/history',
+    operationId: 'getSemanticMemoryHistory',
+    summary: 'List every version of a known fact, including those it superseded',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: memoryHistory
+  },
+  {
+    method: 'PATCH',
+    path: '/memory/semantic/:id',
+    operationId: 'updateSemanticMemory',
+    summary: 'Edit the content, category or importance of a semantic memory, or pin it',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: memoryUpdate('semantic')
+  },
+  {
+    method: 'DELETE',
+    path: '/memory/semantic/:id',
+    operationId: 'deleteSemanticMemory',
+    summary: 'Permanently delete a semantic memory',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: memoryDelete('semantic')
+  },
+  {
+    method: 'GET',
+    path: '/memory/episodic/:id',
+    operationId: 'getEpisodicMemory',
+    summary: 'Get a single episodic memory (conversation summary)',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: memoryGet('episodic')
+  },
+  {
+    method: 'PATCH',
+    path: '/memory/episodic/:id',
+    operationId: 'updateEpisodicMemory',
+    summary: 'Edit the content, category or importance of an episodic memory, or pin it',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: memoryUpdate('episodic')
+  },
+  {
+    method: 'DELETE',
+    path: '/memory/episodic/:id',
+    operationId: 'deleteEpisodicMemory',
+    summary: 'Permanently delete an episodic memory',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: memoryDelete('episodic')
+  },
+
+  // Meta
+  {
+    method: 'GET',
+    path: '/openapi.json',
+    operationId: 'openApiDocument',
+    summary: 'OpenAPI description of this API',
+    tag: 'meta',
+    auth: 'public',
+    rateLimit: 'standard',
+    handler: async (_request, response) => {
+      response.status(200).json(apiRouter.openApiDocument());
+    }
+  }
+];
+
+export const apiRouter = new Router(routes, (bucketId, requestsPerMinute) =>
+  ProviderRateLimiter.getInstance().acquireRequest(bucketId, requestsPerMinute));
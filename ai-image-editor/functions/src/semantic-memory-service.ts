@@ -0,0 +1,455 @@
+// Semantic memory: durable facts and preferences extracted from what users tell the assistant
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { EmbeddingService, RankedDocument, semanticMemoryText } from './embedding-service';
+import { ExtractedFact, ExtractionTurn, FactCategory, FactExtractor, FactExtractorBackend } from './fact-extraction-types';
+import { GeminiFactExtractor } from './gemini-fact-extractor';
+import { StubFactExtractor } from './stub-fact-extractor';
+import { ConversationTurn, MemoryScope, MemorySettings, conversationOfMessage } from './memory-types';
+
+// Facts in categories that shape future answers rank above incidental context when evicting
+const CATEGORY_IMPORTANCE: Record<FactCategory, number> = {
+  preference: 0.8,
+  style: 0.8,
+  fact: 0.75,
+  skill: 0.7,
+  context: 0.6
+};
+
+const KEYWORD_STOPWORDS = new Set([
+  'this', 'that', 'with', 'have', 'will', 'from', 'they', 'know', 'want', 'been', 'good', 'much',
+  'some', 'time', 'very', 'when', 'come', 'here', 'just', 'like', 'long', 'make', 'many', 'over',
+  'such', 'take', 'than', 'them', 'well', 'your'
+]);
+
+// Stored with each memory for keyword search; recomputed whenever the content is edited
+export const extractKeywords = (content: string): string[] => {
+  const words = content.toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 3 && !KEYWORD_STOPWORDS.has(word));
+  return Array.from(new Set(words)).slice(0, 10);
+};
+
+// Superseded memories are kept as the history of a fact but are never retrieved
+export const isCurrentMemory = (data: admin.firestore.DocumentData): boolean => !data.supersededBy;
+
+// Memories stored while cross-conversation memory was off stay private to their conversation,
+// and memories the user marked "don't use again" are left out everywhere
+export const isInScope = (data: admin.firestore.DocumentData, scope: MemoryScope): boolean =>
+  data.excludeFromContext !== true && (
+    data.conversationId === scope.conversationId ||
+    (scope.allowCrossConversation && (data.privacyLevel || 'full') === 'full')
+  );
+
+// Whether a source message came from the conversation; ids from before turn ids carried their
+// conversation are attributed to the one the memory was created in
+const isFromConversation = (messageId: string, data: admin.firestore.DocumentData, conversationId: string): boolean => {
+  const source = conversationOfMessage(messageId);
+  return source !== null ? source === conversationId : data.conversationId === conversationId;
+};
+
+type SupersessionUpdate = { supersededBy: string | null; validUntil?: null };
+
+/**
+ * Updates that keep supersession links intact once `deleted` memories are gone. A memory
+ * replaced by a deleted one points at that memory's own replacement instead, or becomes
+ * current again when there is none left, since the statement that replaced it is gone.
+ * `docs` must include the deleted memories so their replacements can be followed.
+ */
+export const relinkSuperseded = (
+  docs: admin.firestore.QueryDocumentSnapshot[],
+  deleted: Set<string>
+): Array<[admin.firestore.DocumentReference, SupersessionUpdate]> => {
+  const replacementOf = new Map(docs.map(doc => [doc.id, doc.data().supersededBy as string | null | undefined]));
+
+  return docs
+    .filter(doc => !deleted.has(doc.id) && deleted.has(doc.data().supersededBy))
+    .map((doc): [admin.firestore.DocumentReference, SupersessionUpdate] => {
+      const visited = new Set<string>();
+      let next: string | null | undefined = doc.data().supersededBy;
+      while (next && deleted.has(next) && !visited.has(next)) {
+        visited.add(next);
+        next = replacementOf.get(next);
+      }
+      const replacement = next && !deleted.has(next) ? next : null;
+      return [doc.ref, replacement ? { supersededBy: replacement } : { supersededBy: null, validUntil: null }];
+    });
+};
+
+// How many of the updates made a memory current again
+export const countRestored = (updates: Array<[admin.firestore.DocumentReference, SupersessionUpdate]>): number =>
+  updates.filter(([, update]) => update.supersededBy === null).length;
+
+export interface ForgetReport {
+  deleted: number; // learned only from the conversation
+  updated: number; // also learned elsewhere; the conversation's sources were removed
+  restored: number; // superseded by a deleted memory, so current again
+}
+
+export interface DeleteReport {
+  restored: number; // memories the deleted one had superseded, current again
+}
+
+export class SemanticMemoryService {
+  private static instance: SemanticMemoryService;
+  private db: admin.firestore.Firestore;
+  private extractor: FactExtractor;
+  private fallback = new StubFactExtractor();
+  private readonly MIN_CONFIDENCE = 0.5;
+  private readonly CONTRADICTION_CANDIDATES = 5;
+  private readonly MAX_HISTORY_LENGTH = 50;
+  // Most current memories read for retrieval and comparison: the default per-user limit
+  private readonly MAX_CURRENT_MEMORIES = 1000;
+  private readonly IN_QUERY_LIMIT = 30;
+
+  // Select with FACT_EXTRACTOR or `firebase functions:config:set memory.fact_extractor=stub`;
+  // defaults to Gemini when an API key is configured
+  private constructor() {
+    this.db = admin.firestore();
+
+    const configured = process.env.FACT_EXTRACTOR || functions.config().memory?.fact_extractor;
+    const backend: FactExtractorBackend = configured === 'stub' || configured === 'gemini'
+      ? configured
+      : functions.config().gemini?.api_key ? 'gemini' : 'stub';
+
+    this.extractor = backend === 'gemini' ? new GeminiFactExtractor() : this.fallback;
+    console.log(`🧠 Using ${this.extractor.id} fact extraction`);
+  }
+
+  public static getInstance(): SemanticMemoryService {
+    if (!SemanticMemoryService.instance) {
+      SemanticMemoryService.instance = new SemanticMemoryService();
+    }
+    return SemanticMemoryService.instance;
+  }
+
+  // The user's current memories most similar to the query, best first, limited to those
+  // visible from a conversation when a scope is given
+  async findRelevant(userId: string, query: string, limit: number, scope?: MemoryScope): Promise<RankedDocument[]> {
+    const docs = (await this.currentMemories(userId)).filter(doc => !scope || isInScope(doc.data(), scope));
+    const ranked = await EmbeddingService.getInstance().rank(docs, query, semanticMemoryText);
+    return ranked.slice(0, limit);
+  }
+
+  /**
+   * Extract facts from a completed turn and store them. A fact that restates an existing
+   * memory is merged into it rather than stored again, and memories the fact contradicts
+   * are superseded by it. Returns the ids of the memories created or reinforced.
+   */
+  async rememberFromTurn(turn: ConversationTurn, settings: MemorySettings): Promise<string[]> {
+    const facts = (await this.extractFacts({
+      user: { id: `${turn.turnId}_user`, content: turn.userPrompt },
+      assistant: { id: `${turn.turnId}_assistant`, content: turn.response }
+    })).filter(fact => fact.confidence >= this.MIN_CONFIDENCE);
+
+    // Facts are compared only with the memories this conversation could retrieve, so a private or
+    // excluded memory is never superseded or reinforced from elsewhere
+    const scope = { conversationId: turn.conversationId, allowCrossConversation: settings.allowCrossConversationMemory };
+
+    // One at a time, so two facts from the same turn can't both miss each other as duplicates
+    const memoryIds: string[] = [];
+    let created = 0;
+    let superseded = 0;
+    for (const fact of facts) {
+      const { contradicted, duplicate } = await this.compareWithMemories(turn.userId, fact, scope);
+
+      if (duplicate) {
+        await this.reinforce(duplicate.doc, fact, contradicted);
+        memoryIds.push(duplicate.doc.id);
+      } else {
+        memoryIds.push(await this.store(turn, fact, settings, contradicted));
+        created++;
+      }
+      superseded += contradicted.length;
+    }
+
+    if (created > 0) {
+      await this.enforceLimit(turn.userId, settings.maxSemanticMemories);
+    }
+    if (facts.length > 0) {
+      console.log(`🧠 Extracted ${facts.length} facts for user ${turn.userId} (${created} new, ${superseded} superseded)`);
+    }
+    return memoryIds;
+  }
+
+  /**
+   * Every version of the fact a memory belongs to, oldest first: the memories it superseded,
+   * transitively, and those that superseded it. Null if the memory isn't the user's.
+   */
+  async getHistory(userId: string, memoryId: string): Promise<admin.firestore.DocumentSnapshot[] | null> {
+    const collection = this.db.collection('semanticMemories');
+    const start = await collection.doc(memoryId).get();
+    if (!start.exists || start.data()?.userId !== userId) {
+      return null;
+    }
+
+    const versions = new Map<string, admin.firestore.DocumentSnapshot>([[start.id, start]]);
+    let frontier = [start];
+    while (frontier.length > 0 && versions.size < this.MAX_HISTORY_LENGTH) {
+      const linked = new Set<string>();
+      for (const version of frontier) {
+        const data = version.data() || {};
+        for (const id of [...(data.supersedes || []), data.supersededBy]) {
+          if (typeof id === 'string' && !versions.has(id)) linked.add(id);
+        }
+      }
+      if (linked.size === 0) break;
+
+      const snapshots = await this.db.getAll(...Array.from(linked).map(id => collection.doc(id)));
+      // Deleted versions leave a gap in the chain rather than ending it
+      frontier = snapshots.filter(snapshot => snapshot.exists && snapshot.data()?.userId === userId);
+      frontier.forEach(snapshot => versions.set(snapshot.id, snapshot));
+    }
+
+    return Array.from(versions.values()).sort((a, b) =>
+      (a.data()?.createdAt?.toMillis?.() || 0) - (b.data()?.createdAt?.toMillis?.() || 0)
+    );
+  }
+
+  /**
+   * Remove what was learned from a conversation. Memories sourced only from it are deleted;
+   * those also learned elsewhere just lose its messages as sources. Memories that a deleted
+   * one had superseded are relinked as in relinkSuperseded.
+   */
+  async forgetConversation(userId: string, conversationId: string): Promise<ForgetReport> {
+    const snapshot = await this.db.collection('semanticMemories')
+      .where('userId', '==', userId)
+      .get();
+
+    const deleted = new Set<string>();
+    const updates = new Map<string, string[]>();
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const sources: string[] = data.sourceMessageIds || [];
+      const remaining = sources.filter(id => !isFromConversation(id, data, conversationId));
+      if (remaining.length === 0 && (sources.length > 0 || data.conversationId === conversationId)) {
+        deleted.add(doc.id);
+      } else if (remaining.length < sources.length) {
+        updates.set(doc.id, remaining);
+      }
+    }
+
+    const relinked = relinkSuperseded(snapshot.docs, deleted);
+
+    // A null update deletes the document
+    const writes: Array<[admin.firestore.DocumentReference, Record<string, unknown> | null]> = [
+      ...snapshot.docs
+        .filter(doc => deleted.has(doc.id))
+        .map((doc): [admin.firestore.DocumentReference, null] => [doc.ref, null]),
+      ...snapshot.docs
+        .filter(doc => updates.has(doc.id))
+        .map((doc): [admin.firestore.DocumentReference, Record<string, unknown>] =>
+          [doc.ref, { sourceMessageIds: updates.get(doc.id) }]),
+      ...relinked
+    ];
+    await this.commitWrites(writes);
+
+    return { deleted: deleted.size, updated: updates.size, restored: countRestored(relinked) };
+  }
+
+  // Delete one of the user's memories, relinking those it had superseded
+  async deleteMemory(userId: string, memoryId: string): Promise<DeleteReport> {
+    const snapshot = await this.db.collection('semanticMemories')
+      .where('userId', '==', userId)
+      .get();
+
+    const target = snapshot.docs.find(doc => doc.id === memoryId);
+    if (!target) {
+      return { restored: 0 };
+    }
+
+    const relinked = relinkSuperseded(snapshot.docs, new Set([memoryId]));
+    await this.commitWrites([[target.ref, null], ...relinked]);
+    return { restored: countRestored(relinked) };
+  }
+
+  // A null update deletes the document. Firestore batches are capped at 500 writes.
+  private async commitWrites(
+    writes: Array<[admin.firestore.DocumentReference, Record<string, unknown> | null]>
+  ): Promise<void> {
+    for (let start = 0; start < writes.length; start += 500) {
+      const batch = this.db.batch();
+      for (const [ref, update] of writes.slice(start, start + 500)) {
+        if (update) {
+          batch.update(ref, update);
+        } else {
+          batch.delete(ref);
+        }
+      }
+      await batch.commit();
+    }
+  }
+
+  private async currentMemories(userId: string): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+    const snapshot = await this.db.collection('semanticMemories')
+      .where('userId', '==', userId)
+      .where('supersededBy', '==', null)
+      .limit(this.MAX_CURRENT_MEMORIES)
+      .get();
+    return snapshot.docs.filter(doc => isCurrentMemory(doc.data()));
+  }
+
+  // The user's memories that the given ones had replaced
+  private async supersededByAny(userId: string, ids: string[]): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+    const docs: admin.firestore.QueryDocumentSnapshot[] = [];
+    for (let start = 0; start < ids.length; start += this.IN_QUERY_LIMIT) {
+      const snapshot = await this.db.collection('semanticMemories')
+        .where('userId', '==', userId)
+        .where('supersededBy', 'in', ids.slice(start, start + this.IN_QUERY_LIMIT))
+        .get();
+      docs.push(...snapshot.docs);
+    }
+    return docs;
+  }
+
+  /**
+   * Closely related current memories that the new fact makes untrue, and the closest remaining
+   * memory that restates it, if any. The memories are ranked against the fact once for both.
+   */
+  private async compareWithMemories(
+    userId: string,
+    fact: ExtractedFact,
+    scope: MemoryScope
+  ): Promise<{ contradicted: admin.firestore.QueryDocumentSnapshot[]; duplicate: RankedDocument | undefined }> {
+    const docs = (await this.currentMemories(userId)).filter(doc => isInScope(doc.data(), scope));
+    const { relevant, duplicates } = await EmbeddingService.getInstance().rankWithDuplicates(docs, fact.content, semanticMemoryText);
+
+    const related = relevant.slice(0, this.CONTRADICTION_CANDIDATES).map(result => result.doc);
+    let contradicted: admin.firestore.QueryDocumentSnapshot[] = [];
+    if (related.length > 0) {
+      const statements = related.map(doc => semanticMemoryText(doc.data()));
+      let indices: number[];
+      try {
+        indices = await this.extractor.findContradicted(fact, statements);
+      } catch (error) {
+        console.error('Contradiction check failed, falling back to local rules:', error);
+        indices = this.extractor === this.fallback ? [] : await this.fallback.findContradicted(fact, statements);
+      }
+      contradicted = indices.map(index => related[index]);
+    }
+
+    const contradictedIds = new Set(contradicted.map(doc => doc.id));
+    return { contradicted, duplicate: duplicates.find(result => !contradictedIds.has(result.doc.id)) };
+  }
+
+  private async extractFacts(turn: ExtractionTurn): Promise<ExtractedFact[]> {
+    try {
+      return await this.extractor.extract(turn);
+    } catch (error) {
+      console.error('Fact extraction failed, falling back to local rules:', error);
+      return this.extractor === this.fallback ? [] : this.fallback.extract(turn);
+    }
+  }
+
+  private async store(
+    turn: ConversationTurn,
+    fact: ExtractedFact,
+    settings: MemorySettings,
+    contradicted: admin.firestore.QueryDocumentSnapshot[]
+  ): Promise<string> {
+    const timestamp = admin.firestore.Timestamp.now();
+    const ref = this.db.collection('semanticMemories').doc();
+    const { embedding, embeddingModel } = await EmbeddingService.getInstance().embedForStorage(fact.content);
+
+    const batch = this.db.batch();
+    batch.set(ref, {
+      id: ref.id,
+      userId: turn.userId,
+      conversationId: turn.conversationId,
+      content: fact.content,
+      embedding,
+      embeddingModel,
+      category: fact.category,
+      keywords: extractKeywords(fact.content),
+      importance: CATEGORY_IMPORTANCE[fact.category],
+      confidence: fact.confidence,
+      extractedBy: this.extractor.id,
+      createdAt: timestamp,
+      lastAccessedAt: timestamp,
+      accessCount: 1,
+      relatedMemoryIds: [],
+      sourceMessageIds: fact.sourceMessageIds,
+      privacyLevel: settings.allowCrossConversationMemory ? 'full' : 'limited',
+      supersedes: contradicted.map(doc => doc.id),
+      supersededBy: null,
+      validUntil: null
+    });
+    this.supersede(batch, contradicted, ref.id, timestamp);
+    await batch.commit();
+
+    return ref.id;
+  }
+
+  // Seeing a fact again raises confidence in it; the stored wording is kept
+  private async reinforce(
+    doc: admin.firestore.QueryDocumentSnapshot,
+    fact: ExtractedFact,
+    contradicted: admin.firestore.QueryDocumentSnapshot[]
+  ): Promise<void> {
+    const timestamp = admin.firestore.Timestamp.now();
+    const batch = this.db.batch();
+    batch.update(doc.ref, {
+      confidence: Math.max(doc.data().confidence || 0, fact.confidence),
+      sourceMessageIds: admin.firestore.FieldValue.arrayUnion(...fact.sourceMessageIds),
+      lastAccessedAt: timestamp,
+      accessCount: admin.firestore.FieldValue.increment(1),
+      ...(contradicted.length > 0
+        ? { supersedes: admin.firestore.FieldValue.arrayUnion(...contradicted.map(old => old.id)) }
+        : {})
+    });
+    this.supersede(batch, contradicted, doc.id, timestamp);
+    await batch.commit();
+  }
+
+  // Retire memories in favour of the one that contradicts them; they stay readable as history
+  private supersede(
+    batch: admin.firestore.WriteBatch,
+    docs: admin.firestore.QueryDocumentSnapshot[],
+    supersededBy: string,
+    validUntil: admin.firestore.Timestamp
+  ): void {
+    for (const doc of docs) {
+      batch.update(doc.ref, { supersededBy, validUntil });
+    }
+  }
+
+  /**
+   * Drop the least important unpinned memories once the user is over their limit, superseded
+   * ones first. Only the memory count is read until there is something to evict; memories the
+   * evicted ones had superseded are relinked as in deleteMemory.
+   */
+  private async enforceLimit(userId: string, maxMemories: number): Promise<void> {
+    const memories = this.db.collection('semanticMemories').where('userId', '==', userId);
+    const total = (await memories.count().get()).data().count;
+
+    const excess = total - maxMemories;
+    if (excess <= 0) {
+      return;
+    }
+
+    const superseded = await memories.where('supersededBy', '!=', null).limit(excess).get();
+    const evictable = [...superseded.docs, ...await this.currentMemories(userId)]
+      .filter(doc => !doc.data().pinned)
+      .sort((a, b) =>
+        Number(isCurrentMemory(a.data())) - Number(isCurrentMemory(b.data())) ||
+        (a.data().importance || 0) - (b.data().importance || 0) ||
+        (a.data().createdAt?.toMillis?.() || 0) - (b.data().createdAt?.toMillis?.() || 0)
+      )
+      .slice(0, excess);
+    if (evictable.length === 0) {
+      return;
+    }
+
+    const evicted = new Set(evictable.map(doc => doc.id));
+    const relinked = relinkSuperseded(
+      [...evictable, ...await this.supersededByAny(userId, Array.from(evicted))],
+      evicted
+    );
+    await this.commitWrites([
+      ...evictable.map((doc): [admin.firestore.DocumentReference, null] => [doc.ref, null]),
+      ...relinked
+    ]);
+    console.log(`🧹 Evicted ${evictable.length} semantic memories for user ${userId}`);
+  }
+}
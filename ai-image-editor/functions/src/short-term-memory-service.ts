@@ -0,0 +1,225 @@
+// Short-term memory: a sliding window of the latest messages in each conversation, plus a
+// running summary of everything that has scrolled out of it
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ConversationTurn, ShortTermMessage } from './memory-types';
+
+export interface ShortTermWindow {
+  messages: ShortTermMessage[];
+  messageCount: number; // every message ever appended, not just those still in the window
+  overflowCount: number; // messages that have left the window but aren't in the summary yet
+}
+
+export interface ConversationMemory {
+  windowId: string; // the shortTermMemories document
+  summary: string; // earlier turns of this conversation, '' until the window first overflows
+  messages: ShortTermMessage[];
+}
+
+const SUMMARY_MODEL = 'gemini-2.0-flash-exp';
+
+export class ShortTermMemoryService {
+  private static instance: ShortTermMemoryService;
+  private db: admin.firestore.Firestore;
+  private readonly WINDOW_SIZE = 12;
+  private readonly MAX_SUMMARY_CHARS = 4000;
+
+  private constructor() {
+    this.db = admin.firestore();
+  }
+
+  public static getInstance(): ShortTermMemoryService {
+    if (!ShortTermMemoryService.instance) {
+      ShortTermMemoryService.instance = new ShortTermMemoryService();
+    }
+    return ShortTermMemoryService.instance;
+  }
+
+  async getConversationMemory(conversationId: string, userId: string): Promise<ConversationMemory> {
+    const snapshot = await this.memoryRef(conversationId, userId).get();
+    const data = snapshot.data();
+    if (!data) {
+      return { windowId: snapshot.id, summary: '', messages: [] };
+    }
+
+    const messages: ShortTermMessage[] = data.messages || [];
+    return {
+      windowId: snapshot.id,
+      summary: typeof data.summary === 'string' ? data.summary : '',
+      messages: messages.filter(message => message && typeof message.content === 'string')
+    };
+  }
+
+  /**
+   * Append both sides of a turn in a transaction so overlapping requests don't drop messages.
+   * Messages pushed out of the window are parked in `overflow` until foldOverflow() folds them
+   * into the summary, so nothing is lost if summarizing fails or the function is cut short.
+   */
+  async appendTurn(turn: ConversationTurn): Promise<ShortTermWindow> {
+    const ref = this.memoryRef(turn.conversationId, turn.userId);
+    const timestamp = admin.firestore.Timestamp.now();
+    const turnMessages: ShortTermMessage[] = [
+      {
+        messageId: `${turn.turnId}_user`,
+        content: turn.userPrompt,
+        role: 'user',
+        modelProvider: turn.modelProvider,
+        timestamp,
+        importance: 0.7
+      },
+      {
+        messageId: `${turn.turnId}_assistant`,
+        content: turn.response,
+        role: 'assistant',
+        modelProvider: turn.modelProvider,
+        timestamp,
+        importance: 0.6
+      }
+    ];
+
+    return this.db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(ref);
+      const data = snapshot.data();
+      const combined: ShortTermMessage[] = [...(data?.messages || []), ...turnMessages];
+      const messages = combined.slice(-this.WINDOW_SIZE);
+      const overflow: ShortTermMessage[] = [...(data?.overflow || []), ...combined.slice(0, -this.WINDOW_SIZE)];
+      // Windows written before messageCount existed start counting from what they hold
+      const messageCount = (data?.messageCount ?? data?.messages?.length ?? 0) + turnMessages.length;
+
+      if (snapshot.exists) {
+        transaction.update(ref, { messages, overflow, messageCount, updatedAt: timestamp });
+      } else {
+        transaction.set(ref, {
+          id: ref.id,
+          conversationId: turn.conversationId,
+          userId: turn.userId,
+          messages,
+          overflow,
+          summary: '',
+          summarizedMessageCount: 0,
+          messageCount,
+          windowSize: this.WINDOW_SIZE,
+          createdAt: timestamp,
+          updatedAt: timestamp
+        });
+      }
+
+      return { messages, messageCount, overflowCount: overflow.length };
+    });
+  }
+
+  // Fold parked overflow messages into the conversation's running summary
+  async foldOverflow(conversationId: string, userId: string): Promise<void> {
+    const ref = this.memoryRef(conversationId, userId);
+    const snapshot = await ref.get();
+    const data = snapshot.data();
+    const overflow: ShortTermMessage[] = data?.overflow || [];
+    if (!data || overflow.length === 0) {
+      return;
+    }
+
+    const previousSummary: string = data.summary || '';
+    const summarizedMessageCount: number = data.summarizedMessageCount || 0;
+    const summary = await this.summarize(previousSummary, overflow);
+    const folded = new Set(overflow.map(message => message.messageId));
+
+    const applied = await this.db.runTransaction(async transaction => {
+      const current = (await transaction.get(ref)).data();
+      // Another request folded first; whatever is still parked gets folded next turn
+      if (!current || (current.summarizedMessageCount || 0) !== summarizedMessageCount) {
+        return false;
+      }
+
+      transaction.update(ref, {
+        summary,
+        summarizedMessageCount: summarizedMessageCount + folded.size,
+        overflow: (current.overflow || []).filter((message: ShortTermMessage) => !folded.has(message.messageId)),
+        summaryUpdatedAt: admin.firestore.Timestamp.now()
+      });
+      return true;
+    });
+
+    if (applied) {
+      console.log(`🧾 Folded ${folded.size} messages into the summary for conversation ${conversationId}`);
+    }
+  }
+
+  // Drop the window, parked overflow and running summary; the next turn starts a fresh window.
+  // Returns whether there was anything to clear.
+  async clearConversation(conversationId: string, userId: string): Promise<boolean> {
+    const ref = this.memoryRef(conversationId, userId);
+    const snapshot = await ref.get();
+    if (!snapshot.exists) {
+      return false;
+    }
+
+    await ref.delete();
+    console.log(`🧽 Cleared short-term memory for conversation ${conversationId}`);
+    return true;
+  }
+
+  private async summarize(previousSummary: string, messages: ShortTermMessage[]): Promise<string> {
+    const transcript = messages
+      .map(message => `${message.role.toUpperCase()}: ${message.content}`)
+      .join('\n');
+
+    try {
+      const apiKey = functions.config().gemini?.api_key;
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY not configured');
+      }
+
+      const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+        model: SUMMARY_MODEL,
+        generationConfig: { temperature: 0.2 }
+      });
+      const result = await model.generateContent(`You maintain the running summary of a conversation between a user and an AI assistant.
+Update the summary with the turns below. Keep every instruction, preference, constraint and decision the user has given, especially early ones, and note what the assistant produced. Drop small talk. Reply with the updated summary only, at most 250 words.
+
+CURRENT SUMMARY:
+${previousSummary || '(none yet)'}
+
+TURNS TO ADD:
+${transcript}`);
+
+      const summary = result.response.text().trim();
+      if (!summary) {
+        throw new Error('Summary response was empty');
+      }
+      return summary.substring(0, this.MAX_SUMMARY_CHARS);
+    } catch (error) {
+      console.error('Error summarizing overflow, using extractive summary:', error);
+      return this.appendExtract(previousSummary, messages);
+    }
+  }
+
+  // Keeps the user's side of each turn; when over the size cap the earliest lines are kept
+  // along with as many of the latest as fit, since first instructions matter most
+  private appendExtract(previousSummary: string, messages: ShortTermMessage[]): string {
+    const lines = [
+      ...previousSummary.split('\n').filter(Boolean),
+      ...messages
+        .filter(message => message.role === 'user')
+        .map(message => `- User: ${message.content.replace(/\s+/g, ' ').substring(0, 200)}`)
+    ];
+
+    const head = lines.slice(0, 5);
+    const tail: string[] = [];
+    let length = head.join('\n').length;
+    for (let i = lines.length - 1; i >= head.length; i--) {
+      if (length + lines[i].length + 1 > this.MAX_SUMMARY_CHARS) {
+        break;
+      }
+      tail.unshift(lines[i]);
+      length += lines[i].length + 1;
+    }
+
+    const skipped = lines.length - head.length - tail.length;
+    return [...head, ...(skipped > 0 ? ['- …'] : []), ...tail].join('\n');
+  }
+
+  private memoryRef(conversationId: string, userId: string): admin.firestore.DocumentReference {
+    return this.db.collection('shortTermMemories').doc(`${conversationId}_${userId}`);
+  }
+}
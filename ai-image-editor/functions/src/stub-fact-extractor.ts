@@ -0,0 +1,150 @@
+// Deterministic local fact extractor for tests and the emulator
+// Recognizes common first-person statements in the user message and rewrites them as
+// normalized third-person facts ("I really love watercolours" -> "Loves watercolours"), and reads
+// those statements back to spot when a new fact reverses an old one
+import { ExtractedFact, ExtractionTurn, FactCategory, FactExtractor } from './fact-extraction-types';
+
+interface FactRule {
+  pattern: RegExp;
+  category: FactCategory;
+  confidence: number;
+  normalize: (match: RegExpExecArray) => string;
+}
+
+const THIRD_PERSON: Record<string, string> = {
+  like: 'Likes', love: 'Loves', enjoy: 'Enjoys', prefer: 'Prefers', hate: 'Hates', dislike: 'Dislikes',
+  work: 'Works', live: 'Lives', study: 'Studies'
+};
+
+// Checked in order; a clause is claimed by the first rule that matches it
+const RULES: FactRule[] = [
+  {
+    pattern: /\bmy (?:preferred |favou?rite )?(?:art |visual |writing )?style is ([^.!?,;]+)/i,
+    category: 'style',
+    confidence: 0.9,
+    normalize: match => `Preferred style is ${match[1]}`
+  },
+  {
+    pattern: /\bi (?:like|prefer|want) (?:things |images |it |them )?(?:in|with) (?:an? )?([^.!?,;]+ style)\b/i,
+    category: 'style',
+    confidence: 0.8,
+    normalize: match => `Prefers ${match[1]}`
+  },
+  {
+    pattern: /\bi (?:don't|do not|no longer) (?:really )?(?:like|enjoy|want) ([^.!?,;]+)/i,
+    category: 'preference',
+    confidence: 0.85,
+    normalize: match => `Doesn't like ${match[1].replace(/\s+any ?more$/i, '')}`
+  },
+  {
+    pattern: /\bi (?:really |absolutely )?(like|love|enjoy|prefer|hate|dislike) ([^.!?,;]+)/i,
+    category: 'preference',
+    confidence: 0.85,
+    normalize: match => `${THIRD_PERSON[match[1].toLowerCase()]} ${match[2]}`
+  },
+  {
+    pattern: /\bmy name is ([^.!?,;]+)/i,
+    category: 'fact',
+    confidence: 0.95,
+    normalize: match => `Name is ${match[1]}`
+  },
+  {
+    pattern: /\bi (work|live|study) (as|at|in|for) ([^.!?,;]+)/i,
+    category: 'fact',
+    confidence: 0.9,
+    normalize: match => `${THIRD_PERSON[match[1].toLowerCase()]} ${match[2].toLowerCase()} ${match[3]}`
+  },
+  {
+    pattern: /\bi(?: am|'m) (?:a|an) ([^.!?,;]+)/i,
+    category: 'fact',
+    confidence: 0.8,
+    normalize: match => `Is a ${match[1]}`
+  },
+  {
+    pattern: /\bi (?:can|know how to) ([^.!?,;]+)/i,
+    category: 'skill',
+    confidence: 0.75,
+    normalize: match => `Can ${match[1]}`
+  },
+  {
+    pattern: /\bi(?: am|'m) (?:working on|building|planning|preparing) ([^.!?,;]+)/i,
+    category: 'context',
+    confidence: 0.7,
+    normalize: match => `Working on ${match[1]}`
+  },
+  {
+    pattern: /\b(?:remember that|important:|note:) ([^.!?]+)/i,
+    category: 'context',
+    confidence: 0.7,
+    normalize: match => match[1]
+  }
+];
+
+const MIN_FACT_LENGTH = 8;
+
+// How normalized facts are read back when checking for contradictions
+const POSITIVE_PREFERENCE = /^(?:likes|loves|enjoys|prefers) (.+)$/i;
+const NEGATIVE_PREFERENCE = /^(?:hates|dislikes|doesn't like|does not like) (.+)$/i;
+// Attributes a person has one of at a time
+const SINGLE_VALUED = /^(name is|preferred style is|lives in|works as) (.+)$/i;
+
+const normalizeValue = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9\u00c0-\u024f]+/g, ' ').trim();
+
+// A comparable reading of a fact, or null when the rules can't tell what it asserts
+const readFact = (content: string): { key: string; value: string } | null => {
+  const text = content.trim().replace(/\.$/, '');
+  let match = POSITIVE_PREFERENCE.exec(text);
+  if (match) return { key: `likes:${normalizeValue(match[1])}`, value: 'yes' };
+  match = NEGATIVE_PREFERENCE.exec(text);
+  if (match) return { key: `likes:${normalizeValue(match[1])}`, value: 'no' };
+  match = SINGLE_VALUED.exec(text);
+  if (match) return { key: match[1].toLowerCase(), value: normalizeValue(match[2]) };
+  return null;
+};
+
+export class StubFactExtractor implements FactExtractor {
+  readonly id = 'stub';
+
+  async extract(turn: ExtractionTurn): Promise<ExtractedFact[]> {
+    const facts: ExtractedFact[] = [];
+    const seen = new Set<string>();
+
+    for (const clause of turn.user.content.split(/[.!?\n]+|\b(?:and|but) (?=i\b)/i)) {
+      for (const rule of RULES) {
+        const match = rule.pattern.exec(clause);
+        if (!match) continue;
+
+        const content = rule.normalize(match).trim().replace(/\s+/g, ' ');
+        if (content.length >= MIN_FACT_LENGTH && !seen.has(content.toLowerCase())) {
+          seen.add(content.toLowerCase());
+          facts.push({
+            content,
+            category: rule.category,
+            confidence: rule.confidence,
+            sourceMessageIds: [turn.user.id]
+          });
+        }
+        break;
+      }
+    }
+
+    return facts;
+  }
+
+  // Opposite feelings about the same thing, or a new value for a single-valued attribute
+  async findContradicted(fact: ExtractedFact, existing: string[]): Promise<number[]> {
+    const reading = readFact(fact.content);
+    if (!reading) {
+      return [];
+    }
+
+    return existing.reduce<number[]>((contradicted, statement, index) => {
+      const other = readFact(statement);
+      if (other && other.key === reading.key && other.value !== reading.value) {
+        contradicted.push(index);
+      }
+      return contradicted;
+    }, []);
+  }
+}
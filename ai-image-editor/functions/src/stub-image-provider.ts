@@ -0,0 +1,106 @@
+// Deterministic local image provider for tests and the emulator
+// Renders a small solid-colour PNG whose colour is derived from the prompt (and source images)
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import {
+  ImageProvider,
+  ImageProviderCapabilities,
+  ImageProviderCost,
+  ImageGenerationRequest,
+  ImageGenerationResult
+} from './image-provider-types';
+
+const STUB_SIZE = 8;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (buffer: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+};
+
+const solidPng = (red: number, green: number, blue: number): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(STUB_SIZE, 0);
+  header.writeUInt32BE(STUB_SIZE, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour RGB
+  header[10] = 0;
+  header[11] = 0;
+  header[12] = 0;
+
+  const row = Buffer.alloc(1 + STUB_SIZE * 3);
+  for (let x = 0; x < STUB_SIZE; x++) {
+    row[1 + x * 3] = red;
+    row[2 + x * 3] = green;
+    row[3 + x * 3] = blue;
+  }
+  const pixels = Buffer.concat(Array.from({ length: STUB_SIZE }, () => row));
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(pixels)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+};
+
+export class StubImageProvider implements ImageProvider {
+  readonly id = 'local-stub';
+  readonly modelId = 'local-stub';
+  readonly capabilities: ImageProviderCapabilities = {
+    generate: true,
+    edit: true,
+    inpaint: true,
+    maxInputImages: 3
+  };
+  readonly cost: ImageProviderCost = { perImageUsd: 0 };
+
+  async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    return this.render(request, 'generate');
+  }
+
+  async edit(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    return this.render(request, 'edit');
+  }
+
+  private render(request: ImageGenerationRequest, operation: 'generate' | 'edit'): ImageGenerationResult {
+    const hash = createHash('sha256').update(operation).update(request.prompt);
+    for (const image of [...(request.images || []), ...(request.mask ? [request.mask] : [])]) {
+      hash.update(image.buffer);
+    }
+    const digest = hash.digest();
+    const png = solidPng(digest[0], digest[1], digest[2]);
+
+    return {
+      imageUrl: `data:image/png;base64,${png.toString('base64')}`,
+      mimeType: 'image/png',
+      text: `Stub ${operation} for: ${request.prompt.substring(0, 80)}`,
+      providerId: this.id,
+      modelId: this.modelId,
+      costUsd: 0
+    };
+  }
+}
@@ -1,5 +1,4 @@
 import * as functions from 'firebase-functions';
-import { verifyAuthToken } from './firebase-admin';
 import Stripe from 'stripe';
 
 function getStripe() {
@@ -9,20 +8,12 @@ function getStripe() {
   });
 }
 
-export const subscriptionCheckout = async (req: functions.Request, res: functions.Response) => {
+export const subscriptionCheckout = async (req: functions.Request, res: functions.Response, userId: string) => {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    // Verify authentication
-    const authHeader = req.headers.authorization;
-    const userId = await verifyAuthToken(authHeader || null);
-    
-    if (!userId) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
-
     const { planId, successUrl, cancelUrl } = req.body;
     
     if (!planId || !successUrl || !cancelUrl) {
@@ -1,6 +1,17 @@
 // Simplified Subscription Service for Firebase Functions
 import * as admin from 'firebase-admin';
-import { Plan, UserSubscription, DailyUsage, DEFAULT_PLANS } from './subscription-types';
+import {
+  Plan,
+  UserSubscription,
+  DailyUsage,
+  UsageLimitResult,
+  UsageReservation,
+  UsageDetails,
+  FeatureGateResult,
+  OperationType,
+  DEFAULT_PLANS,
+  OPERATION_MODEL_REQUIREMENTS
+} from './subscription-types';
 
 export class SubscriptionService {
   private static instance: SubscriptionService;
@@ -22,6 +33,15 @@ export class SubscriptionService {
     return DEFAULT_PLANS.find(plan => plan.id === planId) || null;
   }
 
+  // Get the next plan up with a higher daily limit, if any
+  getSuggestedPlan(planId: string): Plan | undefined {
+    const current = this.getPlanById(planId);
+    const currentLimit = current?.dailyLimit ?? 0;
+    return DEFAULT_PLANS
+      .filter(plan => plan.isActive && plan.dailyLimit > currentLimit)
+      .sort((a, b) => a.dailyLimit - b.dailyLimit)[0];
+  }
+
   // Get user's current subscription
   async getUserSubscription(userId: string): Promise<UserSubscription | null> {
     try {
@@ -153,87 +173,193 @@ export class SubscriptionService {
     }
   }
 
-  // Record usage for a user
-  async recordUsage(userId: string, operationType: string = 'generation'): Promise<boolean> {
+  // Take a slot from today's quota before an operation runs, so concurrent requests can't all
+  // pass a check made at limit - 1. The slot is given back with releaseUsage if the operation fails.
+  async reserveUsage(userId: string): Promise<UsageReservation> {
     const today = new Date().toISOString().split('T')[0];
     const usageId = `${userId}_${today}`;
-    
+    const plan = await this.getUserPlan(userId);
+    const resetAt = this.getNextMidnightET();
+
     try {
       const usageRef = this.db.collection('dailyUsage').doc(usageId);
-      
-      await this.db.runTransaction(async (transaction) => {
+
+      const { reserved, used } = await this.db.runTransaction(async (transaction) => {
         const usageDoc = await transaction.get(usageRef);
-        
+        const currentUsage: number = usageDoc.exists ? usageDoc.data()!.usedOperations || 0 : 0;
+
+        if (currentUsage >= plan.dailyLimit) {
+          return { reserved: false, used: currentUsage };
+        }
+
         if (!usageDoc.exists) {
-          // Create new usage record
-          const newUsage = {
+          transaction.set(usageRef, {
             id: usageId,
             userId,
             date: today,
             usedOperations: 1,
-            resetAt: admin.firestore.Timestamp.fromDate(this.getNextMidnightET()),
+            resetAt: admin.firestore.Timestamp.fromDate(resetAt),
             createdAt: admin.firestore.Timestamp.now(),
             updatedAt: admin.firestore.Timestamp.now()
-          };
-          transaction.set(usageRef, newUsage);
+          });
         } else {
-          // Increment existing usage
-          const currentUsage = usageDoc.data()!.usedOperations || 0;
           transaction.update(usageRef, {
             usedOperations: currentUsage + 1,
             updatedAt: admin.firestore.Timestamp.now()
           });
         }
+        return { reserved: true, used: currentUsage + 1 };
       });
-      
-      // Log the usage event
-      const eventRef = this.db.collection('usageEvents').doc();
-      await eventRef.set({
+
+      if (!reserved) {
+        return {
+          allowed: false,
+          reason: `Daily limit of ${plan.dailyLimit} operations reached. Upgrade your plan for higher limits.`,
+          used,
+          limit: plan.dailyLimit,
+          remaining: 0,
+          resetAt,
+          plan,
+          suggestedPlan: this.getSuggestedPlan(plan.id),
+          usageId: null
+        };
+      }
+
+      return {
+        allowed: true,
+        used,
+        limit: plan.dailyLimit,
+        remaining: Math.max(0, plan.dailyLimit - used),
+        resetAt,
+        plan,
+        usageId
+      };
+    } catch (error) {
+      console.error('Error reserving usage:', error);
+      // Allow operation on error to prevent blocking users
+      return {
+        allowed: true,
+        used: 0,
+        limit: plan.dailyLimit,
+        remaining: plan.dailyLimit,
+        resetAt,
+        plan,
+        usageId: null
+      };
+    }
+  }
+
+  // Give back a reserved slot when the operation it was taken for didn't complete
+  async releaseUsage(reservation: UsageReservation): Promise<void> {
+    if (!reservation.usageId) return;
+
+    try {
+      const usageRef = this.db.collection('dailyUsage').doc(reservation.usageId);
+      await this.db.runTransaction(async (transaction) => {
+        const usageDoc = await transaction.get(usageRef);
+        if (!usageDoc.exists) return;
+        const currentUsage = usageDoc.data()!.usedOperations || 0;
+        transaction.update(usageRef, {
+          usedOperations: Math.max(0, currentUsage - 1),
+          updatedAt: admin.firestore.Timestamp.now()
+        });
+      });
+    } catch (error) {
+      console.error('Error releasing usage:', error);
+    }
+  }
+
+  // Log a completed operation; its quota slot was already taken by reserveUsage
+  async recordUsage(userId: string, operationType: OperationType = 'generation', details: UsageDetails = {}): Promise<void> {
+    const today = new Date().toISOString().split('T')[0];
+
+    try {
+      await this.db.collection('usageEvents').add({
         userId,
         date: today,
         operationType,
-        modelTier: 'premium',
-        modelId: 'gemini-2.5-flash-image-preview',
+        modelTier: OPERATION_MODEL_REQUIREMENTS[operationType],
+        modelId: details.modelId || 'gemini-2.5-flash-image-preview',
+        providerId: details.providerId || null,
+        processingTimeMs: details.processingTimeMs ?? null,
+        costUsd: details.costUsd ?? null,
+        inputTokens: details.tokenCount?.input ?? null,
+        outputTokens: details.tokenCount?.output ?? null,
         success: true,
         createdAt: admin.firestore.Timestamp.now()
       });
-      
-      return true;
     } catch (error) {
       console.error('Error recording usage:', error);
-      return false;
     }
   }
 
   // Check if user can perform an operation
-  async checkUsageLimit(userId: string): Promise<{ allowed: boolean; reason?: string; remaining?: number }> {
+  async checkUsageLimit(userId: string): Promise<UsageLimitResult> {
     try {
       const [plan, todayUsage] = await Promise.all([
         this.getUserPlan(userId),
         this.getTodayUsage(userId)
       ]);
       
-      const remaining = Math.max(0, plan.dailyLimit - todayUsage.usedOperations);
+      const used = todayUsage.usedOperations;
+      const remaining = Math.max(0, plan.dailyLimit - used);
       
-      if (todayUsage.usedOperations >= plan.dailyLimit) {
+      if (used >= plan.dailyLimit) {
         return {
           allowed: false,
           reason: `Daily limit of ${plan.dailyLimit} operations reached. Upgrade your plan for higher limits.`,
-          remaining: 0
+          used,
+          limit: plan.dailyLimit,
+          remaining: 0,
+          resetAt: todayUsage.resetAt,
+          plan,
+          suggestedPlan: this.getSuggestedPlan(plan.id)
         };
       }
       
       return {
         allowed: true,
-        remaining
+        used,
+        limit: plan.dailyLimit,
+        remaining,
+        resetAt: todayUsage.resetAt,
+        plan
       };
     } catch (error) {
       console.error('Error checking usage limit:', error);
       // Allow operation on error to prevent blocking users
-      return { allowed: true };
+      const plan = DEFAULT_PLANS[0];
+      return {
+        allowed: true,
+        used: 0,
+        limit: plan.dailyLimit,
+        remaining: plan.dailyLimit,
+        resetAt: this.getNextMidnightET(),
+        plan
+      };
     }
   }
 
+  // Check if the user's plan includes the model tier an operation needs
+  async checkFeatureGate(userId: string, operationType: OperationType): Promise<FeatureGateResult> {
+    const plan = await this.getUserPlan(userId);
+    const requiredTier = OPERATION_MODEL_REQUIREMENTS[operationType];
+
+    if (!plan.allowedTiers.includes(requiredTier)) {
+      const suggestedPlan = DEFAULT_PLANS.find(candidate =>
+        candidate.isActive && candidate.id !== 'free' && candidate.allowedTiers.includes(requiredTier)
+      );
+      return {
+        allowed: false,
+        reason: `${operationType} requires ${suggestedPlan?.displayName || 'higher'} plan`,
+        suggestedPlan,
+        requiredTier
+      };
+    }
+
+    return { allowed: true };
+  }
+
   private getNextMidnightET(): Date {
     const now = new Date();
     const et = new Date(now.toLocaleString("en-US", {timeZone: "America/New_York"}));
@@ -1,5 +1,10 @@
 // Simplified subscription types for Firebase Functions
 
+// Mirrors ModelTier and OperationType in lib/types/subscription.ts
+export type ModelTier = 'lite' | 'secondary' | 'premium';
+
+export type OperationType = 'generation' | 'edit' | 'upscale' | 'background_removal' | 'object_removal' | 'inpainting';
+
 export interface Plan {
   id: string;
   name: string;
@@ -8,6 +13,7 @@ export interface Plan {
   currency: string;
   interval: 'month' | 'year';
   dailyLimit: number;
+  allowedTiers: ModelTier[];
   features: string[];
   isActive: boolean;
 }
@@ -36,6 +42,37 @@ export interface DailyUsage {
   updatedAt: Date;
 }
 
+export interface UsageLimitResult {
+  allowed: boolean;
+  reason?: string;
+  used: number;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  plan: Plan;
+  suggestedPlan?: Plan;
+}
+
+// A slot taken from today's quota before an operation runs; used and remaining include it
+export interface UsageReservation extends UsageLimitResult {
+  usageId: string | null; // dailyUsage doc holding the slot, null when nothing was reserved
+}
+
+export interface FeatureGateResult {
+  allowed: boolean;
+  reason?: string;
+  suggestedPlan?: Plan;
+  requiredTier?: ModelTier;
+}
+
+export interface UsageDetails {
+  modelId?: string;
+  providerId?: string;
+  processingTimeMs?: number;
+  costUsd?: number; // what the provider charged for the call, from its pricing
+  tokenCount?: { input: number; output: number }; // chat turns only
+}
+
 export interface GetUsageResponse {
   today: {
     used: number;
@@ -60,6 +97,7 @@ export const DEFAULT_PLANS: Plan[] = [
     currency: 'usd',
     interval: 'month',
     dailyLimit: 5,
+    allowedTiers: ['lite'],
     features: ['Basic image generation', '5 images per day'],
     isActive: true
   },
@@ -71,6 +109,7 @@ export const DEFAULT_PLANS: Plan[] = [
     currency: 'usd',
     interval: 'month',
     dailyLimit: 50,
+    allowedTiers: ['lite'],
     features: ['High-quality image generation', '50 images per day', 'Priority processing'],
     isActive: true
   },
@@ -82,6 +121,7 @@ export const DEFAULT_PLANS: Plan[] = [
     currency: 'usd',
     interval: 'month',
     dailyLimit: 150,
+    allowedTiers: ['lite', 'secondary'],
     features: ['Premium models', '150 images per day', 'Advanced editing', 'Priority support'],
     isActive: true
   },
@@ -93,7 +133,18 @@ export const DEFAULT_PLANS: Plan[] = [
     currency: 'usd',
     interval: 'month',
     dailyLimit: 300,
+    allowedTiers: ['lite', 'secondary', 'premium'],
     features: ['All premium features', '300 images per day', 'Commercial license', '24/7 support'],
     isActive: true
   }
-];
\ No newline at end of file
+];
+
+// Model tier each operation needs; mirrors OPERATION_MODEL_REQUIREMENTS in lib/config/subscription.ts
+export const OPERATION_MODEL_REQUIREMENTS: Record<OperationType, ModelTier> = {
+  generation: 'lite',
+  edit: 'lite',
+  upscale: 'secondary',
+  background_removal: 'lite',
+  object_removal: 'premium',
+  inpainting: 'premium'
+};
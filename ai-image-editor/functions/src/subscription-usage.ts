@@ -1,22 +1,13 @@
 import * as functions from 'firebase-functions';
-import { verifyAuthToken } from './firebase-admin';
 import { SubscriptionService } from './subscription-service';
 import { GetUsageResponse } from './subscription-types';
 
-export const subscriptionUsage = async (req: functions.Request, res: functions.Response) => {
+export const subscriptionUsage = async (req: functions.Request, res: functions.Response, userId: string) => {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    // Verify authentication
-    const authHeader = req.headers.authorization;
-    const userId = await verifyAuthToken(authHeader || null);
-    
-    if (!userId) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
-
     const subscriptionService = SubscriptionService.getInstance();
     
     // Get current plan and subscription
@@ -0,0 +1,119 @@
+// Token counting for prompt budgeting
+// Calibrated per tokenizer family rather than exact: counts are deterministic and err slightly
+// high, so a prompt packed to a budget never overflows the model window
+
+export interface TokenCounter {
+  id: string;
+  count(text: string): number;
+}
+
+export interface ModelTokenLimits {
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+// Keyed by model id; the chat models are registered in chat-model-registry.ts
+export const MODEL_TOKEN_LIMITS: Record<string, ModelTokenLimits> = {
+  'gemini-2.0-flash-exp': { contextWindow: 32000, maxOutputTokens: 8192 },
+  'gemini-2.5-flash-image-preview': { contextWindow: 32000, maxOutputTokens: 8192 },
+  'gpt-4-turbo': { contextWindow: 128000, maxOutputTokens: 4096 },
+  'gpt-4-vision-preview': { contextWindow: 128000, maxOutputTokens: 4096 },
+  'claude-3-5-sonnet-20241022': { contextWindow: 200000, maxOutputTokens: 8192 }
+};
+
+const DEFAULT_TOKEN_LIMITS: ModelTokenLimits = { contextWindow: 32000, maxOutputTokens: 8192 };
+
+interface TokenizerProfile {
+  wholeWordLength: number; // words up to this many letters are usually a single token
+  lettersPerToken: number; // longer words split into pieces of roughly this size
+  digitsPerToken: number;
+}
+
+// Rough shapes of each family's tokenizer on English text, rounded towards over-counting
+const PROFILES: Record<'gemini' | 'gpt' | 'claude', TokenizerProfile> = {
+  gemini: { wholeWordLength: 7, lettersPerToken: 4, digitsPerToken: 1 },
+  gpt: { wholeWordLength: 7, lettersPerToken: 4, digitsPerToken: 3 },
+  claude: { wholeWordLength: 6, lettersPerToken: 3.5, digitsPerToken: 1 }
+};
+
+// Letter runs, digit runs, whitespace runs, and any other single character
+const PIECE_PATTERN = /[A-Za-z\u00c0-\u024f]+|[0-9]+|\s+|[^A-Za-z\u00c0-\u024f0-9\s]/g;
+
+class CalibratedTokenCounter implements TokenCounter {
+  readonly id: string;
+
+  constructor(family: string, private readonly profile: TokenizerProfile) {
+    this.id = `calibrated-${family}`;
+  }
+
+  count(text: string): number {
+    let tokens = 0;
+    for (const piece of text.match(PIECE_PATTERN) || []) {
+      tokens += this.countPiece(piece);
+    }
+    return tokens;
+  }
+
+  private countPiece(piece: string): number {
+    if (/\s/.test(piece[0])) {
+      // A single space merges into the next word; newlines and indentation cost a token
+      return piece === ' ' ? 0 : 1;
+    }
+    if (/[0-9]/.test(piece[0])) {
+      return Math.ceil(piece.length / this.profile.digitsPerToken);
+    }
+    if (/[A-Za-z\u00c0-\u024f]/.test(piece[0])) {
+      const { wholeWordLength, lettersPerToken } = this.profile;
+      return piece.length <= wholeWordLength
+        ? 1
+        : 1 + Math.ceil((piece.length - wholeWordLength) / lettersPerToken);
+    }
+    // Punctuation, symbols and non-Latin scripts: about one token per character
+    return 1;
+  }
+}
+
+const counters = new Map<string, TokenCounter>();
+
+const familyOf = (modelName: string): 'gemini' | 'gpt' | 'claude' => {
+  if (modelName.startsWith('gpt')) return 'gpt';
+  if (modelName.startsWith('claude')) return 'claude';
+  return 'gemini';
+};
+
+export const getTokenCounter = (modelName: string): TokenCounter => {
+  const family = familyOf(modelName);
+  let counter = counters.get(family);
+  if (!counter) {
+    counter = new CalibratedTokenCounter(family, PROFILES[family]);
+    counters.set(family, counter);
+  }
+  return counter;
+};
+
+export const getModelTokenLimits = (modelName: string): ModelTokenLimits =>
+  MODEL_TOKEN_LIMITS[modelName] || DEFAULT_TOKEN_LIMITS;
+
+// Longest whole-word prefix of `text` that fits in `maxTokens` including the ellipsis
+export const truncateToTokens = (text: string, maxTokens: number, counter: TokenCounter): string => {
+  if (counter.count(text) <= maxTokens) {
+    return text;
+  }
+
+  // Alternating words and whitespace; only prefixes that end on a word are tried
+  const pieces = text.split(/(\s+)/);
+  const prefix = (words: number) => `${pieces.slice(0, words * 2 - 1).join('')} …`;
+
+  let low = 0;
+  let high = Math.ceil(pieces.length / 2);
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (counter.count(prefix(mid)) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low > 0 ? prefix(low) : '';
+};
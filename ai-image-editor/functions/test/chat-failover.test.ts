@@ -0,0 +1,173 @@
+// Chat failover against scripted providers: retries, the circuit breaker and the fallback order
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ChatFailover, ChatFailoverError, CircuitBreaker } from '../src/chat-failover';
+import {
+  ChatContentBlockedError,
+  ChatModelError,
+  ChatModelErrorType,
+  ChatModelProvider,
+  ChatModelResult,
+  ChatProviderId
+} from '../src/chat-model-types';
+
+// Answers each call with the next scripted step: a reply, or the type of error to throw
+const scripted = (id: ChatProviderId, steps: (string | ChatModelErrorType)[], streams = false) => {
+  const provider = {
+    id,
+    modelId: `${id}-model`,
+    pricing: { inputPer1kUsd: 0, outputPer1kUsd: 0 },
+    calls: 0,
+    isConfigured: () => true,
+    async generate(): Promise<ChatModelResult> {
+      const step = steps[Math.min(provider.calls++, steps.length - 1)];
+      if (step.endsWith('_error') || step === 'content_blocked') {
+        throw step === 'content_blocked'
+          ? new ChatContentBlockedError('Blocked', id, 'SAFETY_VIOLATION')
+          : new ChatModelError(`${id} failed`, id, step as ChatModelErrorType);
+      }
+      return { text: step, providerId: id, modelId: provider.modelId, tokenCount: { input: 10, output: 5 }, costUsd: 0 };
+    },
+    stream: undefined as ChatModelProvider['stream']
+  };
+  if (streams) {
+    provider.stream = async (request, onDelta) => {
+      onDelta('partial ');
+      return provider.generate();
+    };
+  }
+  return provider;
+};
+
+// Retries and circuit changes are logged; keep them out of the test output
+beforeEach(() => mock.method(console, 'log', () => {}));
+afterEach(() => mock.restoreAll());
+
+const failover = (breaker = new CircuitBreaker()) => new ChatFailover(breaker, 2, 0);
+
+describe('ChatFailover', () => {
+  it('retries transient errors on the same provider', async () => {
+    const gemini = scripted('gemini', ['server_error', 'network_error', 'hello']);
+    const result = await failover().generate([gemini], { prompt: 'hi' });
+    assert.equal(result.text, 'hello');
+    assert.equal(gemini.calls, 3);
+  });
+
+  it('does not retry errors another attempt would repeat', async () => {
+    const gpt = scripted('gpt', ['authentication_error', 'hello']);
+    const gemini = scripted('gemini', ['from gemini']);
+    const result = await failover().generate([gpt, gemini], { prompt: 'hi' });
+    assert.equal(result.providerId, 'gemini');
+    assert.equal(gpt.calls, 1);
+  });
+
+  it('falls back in order once retries run out, recording each switch', async () => {
+    const gpt = scripted('gpt', ['rate_limit_error']);
+    const gemini = scripted('gemini', ['server_error']);
+    const claude = scripted('claude', ['from claude']);
+    const switches: string[] = [];
+    const result = await failover().generate([gpt, gemini, claude], { prompt: 'hi' }, {
+      onSwitch: async (from, to) => { switches.push(`${from}->${to}`); }
+    });
+    assert.equal(result.text, 'from claude');
+    assert.equal(gpt.calls, 3);
+    assert.equal(gemini.calls, 3);
+    assert.deepEqual(switches, ['gpt-model->gemini-model', 'gemini-model->claude-model']);
+  });
+
+  it('falls back when a provider returns nothing', async () => {
+    const gpt = scripted('gpt', ['']);
+    const gemini = scripted('gemini', ['from gemini']);
+    assert.equal((await failover().generate([gpt, gemini], { prompt: 'hi' })).text, 'from gemini');
+  });
+
+  it('reports every attempt when no provider answers', async () => {
+    const gemini = scripted('gemini', ['server_error']);
+    const claude = scripted('claude', ['network_error']);
+    await assert.rejects(failover().generate([gemini, claude], { prompt: 'hi' }), (error: unknown) => {
+      assert.ok(error instanceof ChatFailoverError);
+      assert.deepEqual(error.attempts.map(attempt => attempt.errorType), ['server_error', 'network_error']);
+      assert.equal(error.retryAfterMs, null);
+      return true;
+    });
+  });
+
+  it('does not fall back when the content is blocked', async () => {
+    const gemini = scripted('gemini', ['content_blocked']);
+    const claude = scripted('claude', ['from claude']);
+    await assert.rejects(failover().generate([gemini, claude], { prompt: 'hi' }), ChatContentBlockedError);
+    assert.equal(claude.calls, 0);
+  });
+
+  it('skips rate-limited providers and reports when one will have room', async () => {
+    const limiter = {
+      acquire: async (providerId: string) => providerId === 'gpt'
+        ? { granted: false, waitedMs: 10000, retryAfterMs: 4000 }
+        : { granted: true, waitedMs: 250 },
+      recordTokens: async () => {}
+    };
+    const gpt = scripted('gpt', ['from gpt']);
+    const gemini = scripted('gemini', ['from gemini']);
+    const result = await failover().generate([gpt, gemini], { prompt: 'hi' }, { limiter, estimatedTokens: 100 });
+    assert.equal(result.providerId, 'gemini');
+    assert.equal(result.rateLimitWaitMs, 250);
+    assert.equal(gpt.calls, 0);
+
+    await assert.rejects(failover().generate([gpt], { prompt: 'hi' }, { limiter }), (error: unknown) => {
+      assert.ok(error instanceof ChatFailoverError);
+      assert.equal(error.retryAfterMs, 4000);
+      return true;
+    });
+  });
+
+  it('streams whole replies from providers that cannot stream', async () => {
+    const deltas: string[] = [];
+    await failover().generate([scripted('gpt', ['hello'])], { prompt: 'hi' }, { onDelta: text => deltas.push(text) });
+    assert.deepEqual(deltas, ['hello']);
+  });
+
+  it('neither retries nor falls back once part of a reply has been streamed', async () => {
+    const gemini = scripted('gemini', ['server_error', 'hello'], true);
+    const claude = scripted('claude', ['from claude']);
+    await assert.rejects(failover().generate([gemini, claude], { prompt: 'hi' }, { onDelta: () => {} }), ChatModelError);
+    assert.equal(gemini.calls, 1);
+    assert.equal(claude.calls, 0);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('skips a provider after repeated failures until the cooldown has passed', async () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(3, 60000, () => now);
+    const gpt = scripted('gpt', ['server_error']);
+    const gemini = scripted('gemini', ['from gemini']);
+
+    // Each turn that gives up on a provider counts once, however often it retried
+    for (let turn = 0; turn < 3; turn++) {
+      assert.equal(breaker.isOpen('gpt'), false);
+      await failover(breaker).generate([gpt, gemini], { prompt: 'hi' });
+    }
+    assert.equal(breaker.isOpen('gpt'), true);
+
+    const before = gpt.calls;
+    const result = await failover(breaker).generate([gpt, gemini], { prompt: 'hi' });
+    assert.equal(result.providerId, 'gemini');
+    assert.equal(gpt.calls, before);
+
+    // After the cooldown one probe goes through; its failure opens the circuit again
+    now = 60000;
+    await failover(breaker).generate([gpt, gemini], { prompt: 'hi' });
+    assert.equal(gpt.calls, before + 3);
+    assert.equal(breaker.isOpen('gpt'), true);
+  });
+
+  it('counts only consecutive failures', () => {
+    const breaker = new CircuitBreaker(2, 60000, () => 0);
+    breaker.recordFailure('claude');
+    breaker.recordSuccess('claude');
+    breaker.recordFailure('claude');
+    assert.equal(breaker.isOpen('claude'), false);
+    breaker.recordFailure('claude');
+    assert.equal(breaker.isOpen('claude'), true);
+  });
+});
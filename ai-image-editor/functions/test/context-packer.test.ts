@@ -0,0 +1,81 @@
+// Priority packing of memory sections into a token budget
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { packSections } from '../src/context-packer';
+import { TokenCounter } from '../src/token-counter';
+
+// One token per character keeps the arithmetic in these tests readable
+const chars: TokenCounter = { id: 'chars', count: text => text.length };
+
+// A header costs its text, its newline and the blank line before the section: 'F:' is 4 tokens
+const HEADER_TOKENS = 4;
+
+describe('packSections', () => {
+  it('keeps everything that fits and counts header and separators', () => {
+    const packed = packSections([
+      { key: 'facts', header: 'F:', items: ['one', 'two'], separator: '\n' }
+    ], 100, chars);
+
+    assert.equal(packed.facts.text, 'F:\none\ntwo');
+    assert.deepEqual(packed.facts.indices, [0, 1]);
+    assert.equal(packed.facts.tokens, HEADER_TOKENS + 4 + 4);
+    assert.equal(packed.facts.dropped, 0);
+    assert.equal(packed.facts.truncated, false);
+  });
+
+  it('fills sections in priority order and leaves later ones what remains', () => {
+    const packed = packSections([
+      { key: 'facts', header: 'F:', items: ['x'.repeat(10)], separator: '\n' },
+      { key: 'episodes', header: 'E:', items: ['y'.repeat(10)], separator: '\n' }
+    ], 20, chars);
+
+    assert.equal(packed.facts.tokens, HEADER_TOKENS + 11);
+    assert.equal(packed.episodes.text, '');
+    assert.equal(packed.episodes.tokens, 0);
+    assert.equal(packed.episodes.dropped, 1);
+  });
+
+  it('keeps the newest chronological items and emits them in order', () => {
+    const packed = packSections([
+      { key: 'recent', header: 'R:', items: ['m1', 'm2', 'm3'], separator: '\n', newestLast: true }
+    ], HEADER_TOKENS + 6, chars);
+
+    assert.equal(packed.recent.text, 'R:\nm2\nm3');
+    assert.deepEqual(packed.recent.indices, [1, 2]);
+    assert.equal(packed.recent.dropped, 1);
+  });
+
+  it('truncates the first item that does not fit when enough room is left', () => {
+    const budget = HEADER_TOKENS + 40;
+    const packed = packSections([
+      { key: 'facts', header: 'F:', items: ['word '.repeat(20).trim(), 'never reached'], separator: '\n' }
+    ], budget, chars);
+
+    assert.equal(packed.facts.truncated, true);
+    assert.equal(packed.facts.kept.length, 1);
+    assert.match(packed.facts.kept[0], /^word( word)* …$/);
+    assert.equal(packed.facts.dropped, 1);
+    assert.ok(packed.facts.tokens <= budget);
+  });
+
+  it('drops an item rather than keep a uselessly short fragment', () => {
+    const packed = packSections([
+      { key: 'facts', header: 'F:', items: ['word '.repeat(20).trim()], separator: '\n' }
+    ], HEADER_TOKENS + 10, chars);
+
+    assert.equal(packed.facts.text, '');
+    assert.equal(packed.facts.truncated, false);
+    assert.equal(packed.facts.dropped, 1);
+  });
+
+  it('never exceeds the budget', () => {
+    const items = Array.from({ length: 30 }, (_, index) => `memory number ${index} ${'detail '.repeat(index % 7)}`);
+    for (let budget = 0; budget <= 400; budget += 17) {
+      const packed = packSections([
+        { key: 'facts', header: 'KNOWN FACTS:', items, separator: '\n' },
+        { key: 'recent', header: 'RECENT CONVERSATION:', items, separator: '\n', newestLast: true }
+      ], budget, chars);
+      assert.ok(packed.facts.tokens + packed.recent.tokens <= budget, `budget ${budget}`);
+    }
+  });
+});
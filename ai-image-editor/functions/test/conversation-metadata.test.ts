@@ -0,0 +1,66 @@
+// Conversation docs: folding messages in one at a time must agree with rebuilding from the thread
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as admin from 'firebase-admin';
+import { ConversationMessage, applyMessage, summarizeConversation } from '../src/conversation-metadata';
+import { conversationDocId } from '../src/conversation-types';
+
+const at = (minute: number): admin.firestore.Timestamp =>
+  admin.firestore.Timestamp.fromMillis(Date.UTC(2026, 2, 1, 12, minute));
+
+const message = (id: string, minute: number, fields: admin.firestore.DocumentData): ConversationMessage =>
+  ({ id, data: { conversationId: 'image_1', conversationType: 'image', timestamp: at(minute), ...fields } });
+
+const thread = [
+  message('m1', 0, { isUser: true, text: 'Make the sky purple', images: ['https://cdn.example/upload.png'] }),
+  message('m2', 1, { isUser: false, text: '', generatedImage: 'https://cdn.example/first.png' }),
+  message('m3', 2, { isUser: true, text: 'Now add stars' }),
+  message('m4', 3, { isUser: false, text: 'Added a starfield', generatedImage: 'https://cdn.example/second.png' })
+];
+
+// Only the fields derived from messages; settings and server timestamps aren't compared
+const derived = (doc: admin.firestore.DocumentData) => ({
+  title: doc.title,
+  type: doc.type,
+  messageCount: doc.messageCount,
+  lastMessage: doc.lastMessage,
+  thumbnail: doc.thumbnail,
+  createdAt: doc.createdAt.toMillis(),
+  lastMessageAt: doc.lastMessageAt.toMillis()
+});
+
+const fold = (messages: ConversationMessage[]): admin.firestore.DocumentData =>
+  messages.slice(1).reduce<admin.firestore.DocumentData>(
+    (doc, next) => ({ ...doc, ...applyMessage(doc, next, true) }),
+    summarizeConversation('image_1', 'user-1', messages.slice(0, 1))
+  );
+
+describe('applyMessage', () => {
+  it('matches a full rebuild when messages arrive in order', () => {
+    assert.deepEqual(derived(fold(thread)), derived(summarizeConversation('image_1', 'user-1', thread)));
+  });
+
+  it('matches a full rebuild when messages arrive out of order', () => {
+    const shuffled = [thread[2], thread[0], thread[3], thread[1]];
+    assert.deepEqual(derived(fold(shuffled)), derived(summarizeConversation('image_1', 'user-1', thread)));
+  });
+
+  it('counts a message once however often its trigger is delivered', () => {
+    const doc = fold(thread);
+    assert.equal(applyMessage(doc, thread[3], true).messageCount, undefined);
+  });
+
+  it('does not count edits', () => {
+    const doc = fold(thread.slice(0, 2));
+    const edited = message('m1', 0, { isUser: true, text: 'Make the sky violet' });
+    const update = applyMessage(doc, edited, false);
+    assert.equal(update.messageCount, undefined);
+    assert.equal(update.title, 'Make the sky violet');
+  });
+});
+
+describe('conversationDocId', () => {
+  it('keys conversations by owner so clients cannot collide on an id', () => {
+    assert.notEqual(conversationDocId('alice', 'text_1'), conversationDocId('bob', 'text_1'));
+  });
+});
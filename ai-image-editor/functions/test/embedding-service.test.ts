@@ -0,0 +1,116 @@
+// Embedding-based ranking with the local hashing embedder: stable vectors, cosine order, and how
+// vectors from another model or a failing backend are handled
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as admin from 'firebase-admin';
+import { EmbeddingService, cosineSimilarity, semanticMemoryText } from '../src/embedding-service';
+import { HashingEmbedder } from '../src/hashing-embedder';
+import { Embedder } from '../src/embedding-types';
+
+interface BackfillWrite {
+  id: string;
+  update: admin.firestore.DocumentData;
+}
+
+// Memory documents whose refs record the embeddings written back to them
+const memoryDocs = (memories: { id: string; content: string; embedding?: number[]; embeddingModel?: string }[]) => {
+  const writes: BackfillWrite[] = [];
+  const firestore = {
+    batch: () => {
+      const pending: BackfillWrite[] = [];
+      return {
+        update: (ref: { id: string }, update: admin.firestore.DocumentData) => pending.push({ id: ref.id, update }),
+        commit: async () => { writes.push(...pending); }
+      };
+    }
+  };
+  const docs = memories.map(({ id, ...data }) =>
+    ({ id, ref: { id, firestore }, data: () => data }) as unknown as admin.firestore.QueryDocumentSnapshot);
+  return { docs, writes };
+};
+
+const failingEmbedder: Embedder = {
+  id: 'remote-768',
+  dimension: 768,
+  relevanceThreshold: 0.6,
+  duplicateThreshold: 0.9,
+  embed: async () => { throw new Error('embedding API unavailable'); }
+};
+
+// Backend choice, backfills and fallbacks are logged; keep them out of the test output
+beforeEach(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'error', () => {});
+});
+afterEach(() => mock.restoreAll());
+
+describe('HashingEmbedder', () => {
+  it('gives the same unit vector for the same text', async () => {
+    const [first] = await new HashingEmbedder().embed(['Prefers watercolour illustrations']);
+    const [second] = await new HashingEmbedder().embed(['Prefers watercolour illustrations']);
+    assert.deepEqual(first, second);
+    assert.equal(first.length, 256);
+    assert.ok(Math.abs(Math.hypot(...first) - 1) < 1e-9);
+  });
+
+  it('places related phrasings closer than unrelated ones', async () => {
+    const [query, related, unrelated] = await new HashingEmbedder().embed([
+      'prefer watercolours', 'Preferred watercolour style', 'Works as a tax accountant'
+    ]);
+    assert.ok(cosineSimilarity(query, related) > cosineSimilarity(query, unrelated));
+  });
+});
+
+describe('EmbeddingService.rank', () => {
+  const memories = [
+    { id: 'tax', content: 'Works as a tax accountant' },
+    { id: 'watercolour', content: 'Prefers watercolour illustrations' },
+    { id: 'painting', content: 'Enjoys painting landscapes in watercolour' },
+    { id: 'empty', content: '   ' }
+  ];
+
+  it('orders documents by cosine similarity, best first', async () => {
+    const { docs } = memoryDocs(memories);
+    const ranked = await new EmbeddingService(new HashingEmbedder()).rank(docs, 'watercolour illustrations', semanticMemoryText, -1);
+    assert.deepEqual(ranked.map(result => result.doc.id), ['watercolour', 'painting', 'tax']);
+    assert.ok(ranked[0].score > ranked[1].score && ranked[1].score > ranked[2].score);
+  });
+
+  it('drops matches below the minimum score', async () => {
+    const { docs } = memoryDocs(memories);
+    const ranked = await new EmbeddingService(new HashingEmbedder()).rank(docs, 'watercolour illustrations', semanticMemoryText, 0.5);
+    assert.deepEqual(ranked.map(result => result.doc.id), ['watercolour']);
+  });
+
+  it('re-embeds vectors stored by another model and saves the new ones', async () => {
+    const embedder = new HashingEmbedder();
+    const [current] = await embedder.embed([memories[2].content]);
+    const { docs, writes } = memoryDocs([
+      { ...memories[1], embedding: new Array(768).fill(0.1), embeddingModel: 'remote-768' },
+      { ...memories[2], embedding: current, embeddingModel: embedder.id }
+    ]);
+
+    const ranked = await new EmbeddingService(embedder).rank(docs, 'watercolour illustrations', semanticMemoryText, 0);
+    assert.deepEqual(ranked.map(result => result.doc.id), ['watercolour', 'painting']);
+
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(writes.map(write => write.id), ['watercolour']);
+    assert.equal(writes[0].update.embeddingModel, embedder.id);
+    assert.deepEqual(writes[0].update.embedding, (await embedder.embed([memories[1].content]))[0]);
+  });
+
+  it('falls back to local keyword scoring when the embedding backend fails', async () => {
+    const { docs, writes } = memoryDocs([
+      { ...memories[0], embedding: new Array(768).fill(0.1), embeddingModel: 'remote-768' },
+      { ...memories[1], embedding: new Array(768).fill(0.1), embeddingModel: 'remote-768' }
+    ]);
+
+    // The stored remote vectors are identical, so only rescoring the text can tell them apart
+    const ranked = await new EmbeddingService(failingEmbedder).rank(docs, 'watercolour illustrations', semanticMemoryText);
+    assert.deepEqual(ranked.map(result => result.doc.id), ['watercolour']);
+
+    // Fallback vectors aren't comparable with the configured model's, so nothing is written back
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(writes, []);
+  });
+});
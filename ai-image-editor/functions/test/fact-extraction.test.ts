@@ -0,0 +1,193 @@
+// Fact extraction: the stub's rules, sanitizing model output, and superseding contradicted facts.
+// The end-to-end supersession and eviction tests run against the Firestore emulator when FIRESTORE_EMULATOR_HOST is set.
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as admin from 'firebase-admin';
+import { StubFactExtractor } from '../src/stub-fact-extractor';
+import { sanitizeFacts } from '../src/gemini-fact-extractor';
+import { extractKeywords } from '../src/semantic-memory-service';
+import { ExtractedFact, ExtractionTurn } from '../src/fact-extraction-types';
+import { DEFAULT_MEMORY_SETTINGS } from '../src/memory-types';
+
+const turn = (content: string): ExtractionTurn => ({
+  user: { id: 't1_user', content },
+  assistant: { id: 't1_assistant', content: 'Sounds good!' }
+});
+
+const fact = (content: string): ExtractedFact =>
+  ({ content, category: 'preference', confidence: 0.9, sourceMessageIds: ['t1_user'] });
+
+describe('StubFactExtractor.extract', () => {
+  const extractor = new StubFactExtractor();
+
+  it('rewrites first-person statements as categorized third-person facts', async () => {
+    const facts = await extractor.extract(turn(
+      'My name is Ada Park. I really love watercolours and I work as a wedding photographer! I can draw in ink.'
+    ));
+    assert.deepEqual(facts.map(({ content, category }) => ({ content, category })), [
+      { content: 'Name is Ada Park', category: 'fact' },
+      { content: 'Loves watercolours', category: 'preference' },
+      { content: 'Works as a wedding photographer', category: 'fact' },
+      { content: 'Can draw in ink', category: 'skill' }
+    ]);
+    assert.ok(facts.every(extracted => extracted.sourceMessageIds[0] === 't1_user'));
+  });
+
+  it('reads negations and styles before the general preference rule', async () => {
+    const facts = await extractor.extract(turn("I don't like neon colours anymore. My favourite style is art nouveau"));
+    assert.deepEqual(facts.map(extracted => extracted.content), ["Doesn't like neon colours", 'Preferred style is art nouveau']);
+  });
+
+  it('finds nothing in requests and drops repeats', async () => {
+    assert.deepEqual(await extractor.extract(turn('Make the sky purple please')), []);
+    const facts = await extractor.extract(turn('I love cats. I love cats!'));
+    assert.equal(facts.length, 1);
+  });
+});
+
+describe('StubFactExtractor.findContradicted', () => {
+  const extractor = new StubFactExtractor();
+
+  it('flags opposite feelings about the same thing', async () => {
+    const existing = ['Loves watercolours', 'Likes jazz', 'Works as a wedding photographer'];
+    assert.deepEqual(await extractor.findContradicted(fact("Doesn't like watercolours"), existing), [0]);
+  });
+
+  it('flags a new value for a single-valued attribute', async () => {
+    const existing = ['Lives in Lisbon', 'Lives in Lisbon.', 'Name is Ada'];
+    assert.deepEqual(await extractor.findContradicted(fact('Lives in Porto'), existing), [0, 1]);
+    assert.deepEqual(await extractor.findContradicted(fact('Lives in lisbon'), existing), []);
+  });
+
+  it('leaves statements it cannot read alone', async () => {
+    assert.deepEqual(await extractor.findContradicted(fact('Working on a picture book'), ['Working on a comic']), []);
+  });
+});
+
+describe('sanitizeFacts', () => {
+  it('keeps well-formed facts and normalizes their whitespace', () => {
+    const facts = sanitizeFacts([
+      { content: '  Prefers   watercolour illustrations ', category: 'style', confidence: 0.8, sourceMessageIds: ['t1_user'] }
+    ], turn(''));
+    assert.deepEqual(facts, [
+      { content: 'Prefers watercolour illustrations', category: 'style', confidence: 0.8, sourceMessageIds: ['t1_user'] }
+    ]);
+  });
+
+  it('drops malformed, empty and out-of-range facts', () => {
+    const facts = sanitizeFacts([
+      null,
+      'Likes jazz',
+      { category: 'preference', confidence: 0.9 },
+      { content: '   ', category: 'preference', confidence: 0.9 },
+      { content: 'Likes jazz', category: 'hobby', confidence: 0.9 },
+      { content: 'Likes jazz', category: 'preference', confidence: 1.5 },
+      { content: 'Likes jazz', category: 'preference', confidence: -0.1 },
+      { content: 'Likes jazz', category: 'preference', confidence: 'high' },
+      { content: 'Likes jazz', category: 'preference', confidence: NaN },
+      { content: 'Likes blues', category: 'preference', confidence: 0 }
+    ], turn(''));
+    assert.deepEqual(facts.map(extracted => extracted.content), ['Likes blues']);
+  });
+
+  it('returns nothing for output that is not an array', () => {
+    assert.deepEqual(sanitizeFacts({ content: 'Likes jazz', category: 'preference' }, turn('')), []);
+  });
+
+  it('defaults a missing confidence and cites only messages from the turn', () => {
+    const [extracted] = sanitizeFacts([
+      { content: 'Likes jazz', category: 'preference', sourceMessageIds: ['other_user', 't1_assistant', 7] }
+    ], turn(''));
+    assert.equal(extracted.confidence, 0.5);
+    assert.deepEqual(extracted.sourceMessageIds, ['t1_assistant']);
+
+    const [uncited] = sanitizeFacts([{ content: 'Likes jazz', category: 'preference', sourceMessageIds: ['forged'] }], turn(''));
+    assert.deepEqual(uncited.sourceMessageIds, ['t1_user']);
+  });
+
+  it('caps the number and length of facts', () => {
+    const raw = Array.from({ length: 8 }, (_, index) => ({ content: `Likes topic ${index} ${'x'.repeat(400)}`, category: 'preference' }));
+    const facts = sanitizeFacts(raw, turn(''));
+    assert.equal(facts.length, 5);
+    assert.ok(facts.every(extracted => extracted.content.length === 300));
+  });
+});
+
+describe('extractKeywords', () => {
+  it('keeps distinct, meaningful words without punctuation', () => {
+    assert.deepEqual(
+      extractKeywords('Prefers WATERCOLOUR illustrations, with soft edges; watercolour over ink.'),
+      ['prefers', 'watercolour', 'illustrations', 'soft', 'edges']
+    );
+  });
+
+  it('keeps at most ten', () => {
+    assert.equal(extractKeywords(Array.from({ length: 15 }, (_, index) => `keyword${index}`).join(' ')).length, 10);
+  });
+});
+
+describe('SemanticMemoryService supersession against the emulator', { skip: !process.env.FIRESTORE_EMULATOR_HOST }, () => {
+  const userId = `facts-${Date.now()}`;
+  const limitedUserId = `limited-${Date.now()}`;
+  let db: admin.firestore.Firestore;
+
+  before(() => {
+    // The service uses the default app, with the stub extractor and local embeddings
+    process.env.FACT_EXTRACTOR = 'stub';
+    process.env.EMBEDDING_BACKEND = 'hashing';
+    if (admin.apps.length === 0) {
+      admin.initializeApp({ projectId: 'demo-fact-extraction' });
+    }
+    db = admin.firestore();
+  });
+
+  after(async () => {
+    const snapshot = await db.collection('semanticMemories').where('userId', 'in', [userId, limitedUserId]).get();
+    await Promise.all(snapshot.docs.map(doc => doc.ref.delete()));
+  });
+
+  it('retires a memory when a later turn contradicts it', async () => {
+    const { SemanticMemoryService } = await import('../src/semantic-memory-service');
+    const service = SemanticMemoryService.getInstance();
+    const settings = { ...DEFAULT_MEMORY_SETTINGS };
+    const base = { userId, conversationId: 'text_1', response: 'Noted!', modelProvider: 'gemini' };
+
+    const [original] = await service.rememberFromTurn({ ...base, turnId: 'text_1:t1', userPrompt: 'I love watercolours' }, settings);
+    const [replacement] = await service.rememberFromTurn(
+      { ...base, turnId: 'text_1:t2', userPrompt: "I don't like watercolours anymore" },
+      settings
+    );
+
+    assert.notEqual(replacement, original);
+    const old = (await db.collection('semanticMemories').doc(original).get()).data();
+    const current = (await db.collection('semanticMemories').doc(replacement).get()).data();
+    assert.equal(old?.supersededBy, replacement);
+    assert.ok(old?.validUntil);
+    assert.deepEqual(current?.supersedes, [original]);
+    assert.equal(current?.supersededBy, null);
+  });
+
+  it('restores what an evicted memory had superseded when the user goes over their limit', async () => {
+    const { SemanticMemoryService } = await import('../src/semantic-memory-service');
+    const service = SemanticMemoryService.getInstance();
+    const settings = { ...DEFAULT_MEMORY_SETTINGS, maxSemanticMemories: 2 };
+    const base = { userId: limitedUserId, conversationId: 'text_2', response: 'Noted!', modelProvider: 'gemini' };
+
+    const [original] = await service.rememberFromTurn({ ...base, turnId: 'text_2:t1', userPrompt: 'I love watercolours' }, settings);
+    const [replacement] = await service.rememberFromTurn(
+      { ...base, turnId: 'text_2:t2', userPrompt: "I don't like watercolours anymore" },
+      settings
+    );
+    // A pinned memory is never evicted, so the least important current one goes instead
+    await db.collection('semanticMemories').doc(original).update({ pinned: true });
+    await db.collection('semanticMemories').doc(replacement).update({ importance: 0.1 });
+
+    const [added] = await service.rememberFromTurn({ ...base, turnId: 'text_2:t3', userPrompt: 'I work as a baker' }, settings);
+
+    assert.equal((await db.collection('semanticMemories').doc(replacement).get()).exists, false);
+    const restored = (await db.collection('semanticMemories').doc(original).get()).data();
+    assert.equal(restored?.supersededBy, null);
+    assert.equal(restored?.validUntil, null);
+    assert.ok((await db.collection('semanticMemories').doc(added).get()).exists);
+  });
+});
@@ -0,0 +1,159 @@
+// OpenAI and Anthropic adapters against a local mock server, reached through the *_BASE_URL settings
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AnthropicChatProvider, OpenAIChatProvider } from '../src/http-chat-providers';
+import { ChatModelError } from '../src/chat-model-types';
+
+interface RecordedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+// Each test sets how the server answers; every request it receives is recorded
+let reply: (response: http.ServerResponse) => void;
+const received: RecordedRequest[] = [];
+
+const sendJson = (status: number, body: unknown) => (response: http.ServerResponse) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+const server = http.createServer((request, response) => {
+  let raw = '';
+  request.on('data', chunk => { raw += chunk; });
+  request.on('end', () => {
+    received.push({ path: request.url || '', headers: request.headers, body: JSON.parse(raw || '{}') });
+    reply(response);
+  });
+});
+
+const pricing = { inputPer1kUsd: 10, outputPer1kUsd: 30 };
+const openai = new OpenAIChatProvider('gpt-test', pricing, 256, 200);
+const anthropic = new AnthropicChatProvider('claude-test', pricing, 512, 200);
+
+const rejectsWith = (promise: Promise<unknown>, errorType: string, status?: number) =>
+  assert.rejects(promise, (error: unknown) => {
+    assert.ok(error instanceof ChatModelError);
+    assert.equal(error.errorType, errorType);
+    assert.equal(error.status, status);
+    return true;
+  });
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  process.env.OPENAI_BASE_URL = baseUrl;
+  process.env.OPENAI_API_KEY = 'sk-test';
+  process.env.ANTHROPIC_BASE_URL = baseUrl;
+  process.env.ANTHROPIC_API_KEY = 'anthropic-test';
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  for (const name of ['OPENAI_BASE_URL', 'OPENAI_API_KEY', 'ANTHROPIC_BASE_URL', 'ANTHROPIC_API_KEY']) {
+    delete process.env[name];
+  }
+});
+
+beforeEach(() => {
+  received.length = 0;
+});
+
+describe('OpenAIChatProvider', () => {
+  it('sends a chat completion and reads the reply, usage and cost', async () => {
+    reply = sendJson(200, {
+      id: 'chatcmpl-1',
+      model: 'gpt-test-0125',
+      choices: [{ message: { content: 'Hello there' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 1000, completion_tokens: 500 }
+    });
+
+    const result = await openai.generate({ prompt: 'Say hello', temperature: 0.2 });
+
+    assert.equal(received[0].path, '/v1/chat/completions');
+    assert.equal(received[0].headers.authorization, 'Bearer sk-test');
+    assert.deepEqual(received[0].body, {
+      model: 'gpt-test',
+      messages: [{ role: 'user', content: 'Say hello' }],
+      max_tokens: 256,
+      temperature: 0.2
+    });
+    assert.deepEqual(result, {
+      text: 'Hello there',
+      providerId: 'gpt',
+      modelId: 'gpt-test-0125',
+      tokenCount: { input: 1000, output: 500 },
+      costUsd: 25,
+      finishReason: 'stop',
+      requestId: 'chatcmpl-1'
+    });
+  });
+
+  it('classifies error statuses and keeps the provider message', async () => {
+    reply = sendJson(429, { error: { message: 'Slow down' } });
+    await assert.rejects(openai.generate({ prompt: 'hi' }), { message: 'Slow down' });
+    await rejectsWith(openai.generate({ prompt: 'hi' }), 'rate_limit_error', 429);
+
+    reply = sendJson(401, { error: { message: 'Bad key' } });
+    await rejectsWith(openai.generate({ prompt: 'hi' }), 'authentication_error', 401);
+
+    reply = response => { response.writeHead(502); response.end('<html>Bad gateway</html>'); };
+    await rejectsWith(openai.generate({ prompt: 'hi' }), 'server_error', 502);
+  });
+
+  it('gives up on a slow response with a retryable timeout error', async () => {
+    reply = response => { setTimeout(() => sendJson(200, { choices: [] })(response), 1000); };
+    await rejectsWith(openai.generate({ prompt: 'hi' }), 'timeout_error');
+  });
+
+  it('reports a request the caller cancelled as a network error', async () => {
+    reply = response => { setTimeout(() => sendJson(200, { choices: [] })(response), 1000); };
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    await rejectsWith(openai.generate({ prompt: 'hi', signal: controller.signal }), 'network_error');
+  });
+
+  it('is not configured without an API key', async () => {
+    delete process.env.OPENAI_API_KEY;
+    try {
+      assert.equal(openai.isConfigured(), false);
+      await rejectsWith(openai.generate({ prompt: 'hi' }), 'configuration_error');
+      assert.equal(received.length, 0);
+    } finally {
+      process.env.OPENAI_API_KEY = 'sk-test';
+    }
+  });
+});
+
+describe('AnthropicChatProvider', () => {
+  it('sends a message and joins the text blocks of the reply', async () => {
+    reply = sendJson(200, {
+      id: 'msg_1',
+      model: 'claude-test-latest',
+      content: [{ type: 'text', text: 'Hello ' }, { type: 'tool_use' }, { type: 'text', text: 'there' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 200, output_tokens: 100 }
+    });
+
+    const result = await anthropic.generate({ prompt: 'Say hello' });
+
+    assert.equal(received[0].path, '/v1/messages');
+    assert.equal(received[0].headers['x-api-key'], 'anthropic-test');
+    assert.equal(received[0].headers['anthropic-version'], '2023-06-01');
+    assert.equal(received[0].body.max_tokens, 512);
+    assert.equal(result.text, 'Hello there');
+    assert.equal(result.modelId, 'claude-test-latest');
+    assert.deepEqual(result.tokenCount, { input: 200, output: 100 });
+    assert.equal(result.costUsd, 5);
+    assert.equal(result.finishReason, 'end_turn');
+  });
+
+  it('treats an overloaded API as a server error', async () => {
+    reply = sendJson(529, { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } });
+    await rejectsWith(anthropic.generate({ prompt: 'hi' }), 'server_error', 529);
+  });
+});
@@ -0,0 +1,54 @@
+// Image sizes read from hand-built headers of each supported format
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { imageDimensions, pngDimensions, PNG_SIGNATURE } from '../src/image-dimensions';
+
+const png = (width: number, height: number): Buffer => {
+  const ihdr = Buffer.alloc(16);
+  ihdr.writeUInt32BE(13, 0);
+  ihdr.write('IHDR', 4, 'ascii');
+  ihdr.writeUInt32BE(width, 8);
+  ihdr.writeUInt32BE(height, 12);
+  return Buffer.concat([PNG_SIGNATURE, ihdr]);
+};
+
+// SOI, an APP0 segment to skip, then a baseline start-of-frame
+const jpeg = (width: number, height: number): Buffer => {
+  const frame = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03]);
+  frame.writeUInt16BE(height, 5);
+  frame.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]), frame]);
+};
+
+const webpExtended = (width: number, height: number): Buffer => {
+  const buffer = Buffer.alloc(30);
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.write('WEBP', 8, 'ascii');
+  buffer.write('VP8X', 12, 'ascii');
+  buffer.writeUIntLE(width - 1, 24, 3);
+  buffer.writeUIntLE(height - 1, 27, 3);
+  return buffer;
+};
+
+describe('imageDimensions', () => {
+  it('reads PNG, JPEG, GIF and WebP headers', () => {
+    const gif = Buffer.from('GIF89a\x40\x01\xf0\x00', 'latin1');
+    assert.deepEqual(imageDimensions(png(640, 480)), { width: 640, height: 480 });
+    assert.deepEqual(imageDimensions(jpeg(1024, 768)), { width: 1024, height: 768 });
+    assert.deepEqual(imageDimensions(gif), { width: 320, height: 240 });
+    assert.deepEqual(imageDimensions(webpExtended(2000, 1500)), { width: 2000, height: 1500 });
+  });
+
+  it('returns null for unknown or truncated data', () => {
+    assert.equal(imageDimensions(Buffer.from('not an image')), null);
+    assert.equal(imageDimensions(png(10, 10).subarray(0, 20)), null);
+    assert.equal(imageDimensions(jpeg(10, 10).subarray(0, 12)), null);
+  });
+});
+
+describe('pngDimensions', () => {
+  it('only accepts PNGs', () => {
+    assert.deepEqual(pngDimensions(png(8, 4)), { width: 8, height: 4 });
+    assert.equal(pngDimensions(jpeg(8, 4)), null);
+  });
+});
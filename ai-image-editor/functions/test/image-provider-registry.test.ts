@@ -0,0 +1,189 @@
+// Image provider fallback chains, with the stub provider standing in for a working backend.
+// No Gemini key is configured here, so the Gemini providers fail the way an unavailable backend does.
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ImageProviderRegistry, describeImageProviderFailure } from '../src/image-provider-registry';
+import { StubImageProvider } from '../src/stub-image-provider';
+import {
+  ImageGenerationFailedError,
+  ImageProvider,
+  ImageProviderError,
+  DEFAULT_PROVIDER_CHAINS
+} from '../src/image-provider-types';
+
+// The registry only adds the stub itself under the emulator or NODE_ENV=test
+const registry = ImageProviderRegistry.getInstance();
+registry.register(new StubImageProvider());
+
+// A provider that always fails the same way, counting its calls
+const failing = (id: string, error: (id: string) => Error, inpaint = true) => {
+  const stub = new StubImageProvider();
+  const provider = {
+    id,
+    modelId: `${id}-model`,
+    capabilities: { ...stub.capabilities, inpaint },
+    cost: stub.cost,
+    calls: 0,
+    async generate(): Promise<never> {
+      provider.calls++;
+      throw error(id);
+    },
+    async edit(): Promise<never> {
+      provider.calls++;
+      throw error(id);
+    }
+  };
+  registry.register(provider as ImageProvider);
+  return provider;
+};
+
+const blocking = failing('blocking', id => new ImageProviderError('Prompt blocked', id, 'BLOCKED', { blockedReason: 'CONTENT_VIOLATION' }));
+const noImage = failing('no-image', id => new ImageProviderError('No image returned', id, 'NO_IMAGE', { text: 'I can only describe it' }));
+const crashing = failing('crashing', () => new Error('socket hang up'), false);
+
+// The stub's image, reported as coming from a provider metered against the given bucket
+const metered = (id: string, rateLimitKey: string) => {
+  const stub = new StubImageProvider();
+  registry.register({
+    id,
+    modelId: `${id}-model`,
+    capabilities: stub.capabilities,
+    cost: stub.cost,
+    rateLimitKey,
+    generate: async request => ({ ...await stub.generate(request), providerId: id, tokenCount: { input: 300, output: 1290 } }),
+    edit: request => stub.edit(request)
+  });
+};
+metered('metered-gemini', 'gemini');
+metered('metered-claude', 'claude');
+
+// Grants every bucket except the full ones, recording what each was charged
+const recordingLimiter = (full: string[] = []) => {
+  const charges: string[] = [];
+  return {
+    charges,
+    acquire: async (bucket: string, estimatedTokens: number) => {
+      charges.push(`${bucket} acquire ${estimatedTokens}`);
+      return full.includes(bucket)
+        ? { granted: false, waitedMs: 10000, retryAfterMs: full.indexOf(bucket) * 1000 + 2500 }
+        : { granted: true, waitedMs: 40 };
+    },
+    recordTokens: async (bucket: string, extraTokens: number) => { charges.push(`${bucket} record ${extraTokens}`); }
+  };
+};
+
+const source = { buffer: Buffer.from('source image'), mimeType: 'image/png' };
+
+// Each provider tried and each failure is logged; keep them out of the test output
+beforeEach(() => {
+  mock.method(console, 'log', () => {});
+  blocking.calls = noImage.calls = crashing.calls = 0;
+});
+afterEach(() => {
+  mock.restoreAll();
+  delete process.env.IMAGE_PROVIDER_CHAIN;
+});
+
+describe('ImageProviderRegistry.generate', () => {
+  it('falls through a failing primary and reports the provider that made the image', async () => {
+    process.env.IMAGE_PROVIDER_CHAIN = 'gemini-2.5-flash-image, local-stub';
+    const result = await registry.generate('pro', { prompt: 'A lighthouse at dusk' });
+
+    assert.equal(result.providerId, 'local-stub');
+    assert.equal(result.modelId, 'local-stub');
+    assert.match(result.imageUrl, /^data:image\/png;base64,/);
+    assert.deepEqual(result.attempts.map(({ providerId, code }) => ({ providerId, code })), [
+      { providerId: 'gemini-2.5-flash-image', code: 'UNAVAILABLE' }
+    ]);
+  });
+
+  it('records why each skipped or failed provider was passed over', async () => {
+    process.env.IMAGE_PROVIDER_CHAIN = 'missing,crashing,no-image,local-stub';
+    const result = await registry.generate('free', { prompt: 'Make it blue', images: [source], mask: source });
+
+    assert.equal(result.providerId, 'local-stub');
+    assert.match(result.text, /^Stub edit/);
+    assert.deepEqual(result.attempts, [
+      { providerId: 'missing', code: 'UNAVAILABLE', error: 'Provider not registered' },
+      { providerId: 'crashing', code: 'UNSUPPORTED', error: 'Provider does not support masked edits' },
+      { providerId: 'no-image', code: 'NO_IMAGE', error: 'No image returned', text: 'I can only describe it' }
+    ]);
+    assert.equal(crashing.calls, 0);
+    assert.equal(noImage.calls, 1);
+  });
+
+  it('does not route around a content block', async () => {
+    process.env.IMAGE_PROVIDER_CHAIN = 'blocking,local-stub';
+    const error = await registry.generate('pro', { prompt: 'Something disallowed' }).catch(caught => caught);
+
+    assert.ok(error instanceof ImageProviderError);
+    assert.equal(blocking.calls, 1);
+    assert.deepEqual(describeImageProviderFailure(error), {
+      status: 400,
+      body: { success: false, error: 'Prompt blocked', errorType: 'CONTENT_VIOLATION', isImageGeneration: true }
+    });
+  });
+
+  it('fails with every attempt once the chain runs out', async () => {
+    process.env.IMAGE_PROVIDER_CHAIN = 'crashing,gemini-2.0-flash-image';
+    const error = await registry.generate('pro', { prompt: 'A lighthouse at dusk' }).catch(caught => caught);
+
+    assert.ok(error instanceof ImageGenerationFailedError);
+    assert.deepEqual(error.attempts.map(attempt => attempt.providerId), ['crashing', 'gemini-2.0-flash-image']);
+    assert.equal(error.attempts[0].error, 'socket hang up');
+    const failure = describeImageProviderFailure(error);
+    assert.equal(failure?.status, 502);
+    assert.equal(failure?.body.errorType, 'PROVIDER_UNAVAILABLE');
+  });
+});
+
+describe('ImageProviderRegistry.generate with a rate limiter', () => {
+  it('charges only the bucket of the provider that served the image, with its real token use', async () => {
+    process.env.IMAGE_PROVIDER_CHAIN = 'crashing,metered-claude';
+    const limiter = recordingLimiter();
+    const result = await registry.generate('pro', { prompt: 'A lighthouse at dusk' }, { limiter, estimatedTokens: 500 });
+
+    assert.equal(result.providerId, 'metered-claude');
+    assert.equal(result.rateLimitWaitMs, 40);
+    assert.deepEqual(result.tokenCount, { input: 300, output: 1290 });
+    // The unmetered provider that failed first draws on no bucket
+    assert.deepEqual(limiter.charges, ['claude acquire 500', 'claude record 1090']);
+  });
+
+  it('passes over a provider whose bucket is empty', async () => {
+    process.env.IMAGE_PROVIDER_CHAIN = 'metered-gemini,local-stub';
+    const result = await registry.generate('pro', { prompt: 'A lighthouse at dusk' }, { limiter: recordingLimiter(['gemini']) });
+
+    assert.equal(result.providerId, 'local-stub');
+    assert.deepEqual(result.attempts, [
+      { providerId: 'metered-gemini', code: 'RATE_LIMITED', error: 'Rate limit reached, retry in 3s', retryAfterMs: 2500 }
+    ]);
+  });
+
+  it('asks the caller to retry when rate limits are all that stood in the way', async () => {
+    process.env.IMAGE_PROVIDER_CHAIN = 'metered-gemini,metered-claude';
+    const error = await registry.generate('pro', { prompt: 'A lighthouse at dusk' }, { limiter: recordingLimiter(['gemini', 'claude']) })
+      .catch(caught => caught);
+
+    assert.ok(error instanceof ImageGenerationFailedError);
+    assert.equal(error.retryAfterMs, 2500);
+    const failure = describeImageProviderFailure(error);
+    assert.equal(failure?.status, 429);
+    assert.deepEqual(failure?.headers, { 'Retry-After': '3' });
+    assert.equal(failure?.body.errorType, 'PROVIDER_RATE_LIMITED');
+
+    // A provider that actually failed means waiting won't help
+    process.env.IMAGE_PROVIDER_CHAIN = 'metered-gemini,crashing';
+    const failed = await registry.generate('pro', { prompt: 'A lighthouse at dusk' }, { limiter: recordingLimiter(['gemini']) })
+      .catch(caught => caught);
+    assert.equal(failed.retryAfterMs, null);
+    assert.equal(describeImageProviderFailure(failed)?.status, 502);
+  });
+});
+
+describe('ImageProviderRegistry.getChain', () => {
+  it('uses the plan default, falling back to the free chain for unknown plans', () => {
+    assert.deepEqual(registry.getChain('creator'), DEFAULT_PROVIDER_CHAINS.creator);
+    assert.deepEqual(registry.getChain('enterprise'), DEFAULT_PROVIDER_CHAINS.free);
+  });
+});
@@ -0,0 +1,69 @@
+// CSV export: cells are quoted and formula-looking values neutralized before zipping
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MemoryExportBundle, renderMemoryExport } from '../src/memory-export';
+import { readZip } from './zip-reader';
+
+const bundleWith = (semantic: MemoryExportBundle['memories']['semantic']): MemoryExportBundle => ({
+  exportDate: '2026-03-01T00:00:00.000Z',
+  userId: 'user-1',
+  settings: null,
+  memories: { semantic, episodic: [], shortTerm: [] },
+  summary: { totalSemanticMemories: semantic.length, totalEpisodicMemories: 0, totalShortTermContexts: 0 }
+});
+
+// The data rows of semantic-memories.csv, as `id -> content cell`
+const contentCells = (bundle: MemoryExportBundle): Map<string, string> => {
+  const file = renderMemoryExport(bundle, 'csv');
+  const csv = readZip(file.body).find(entry => entry.name.endsWith('/semantic-memories.csv'));
+  assert.ok(csv, 'semantic-memories.csv is in the archive');
+
+  const rows = csv.content.toString('utf8').split('\r\n').filter(Boolean).slice(1);
+  // Ids are plain, so the content cell runs from the first comma up to the category column
+  return new Map(rows.map(row => {
+    const id = row.substring(0, row.indexOf(','));
+    const rest = row.substring(id.length + 1);
+    return [id, rest.substring(0, rest.lastIndexOf(',preference,'))];
+  }));
+};
+
+describe('renderMemoryExport csv', () => {
+  it('is a zip named after the user and export date', () => {
+    const file = renderMemoryExport(bundleWith([]), 'csv');
+    assert.equal(file.contentType, 'application/zip');
+    assert.equal(file.filename, 'pixtorai-memories-user-1-2026-03-01-csv.zip');
+    assert.deepEqual(readZip(file.body).map(entry => entry.name), [
+      'pixtorai-memories-user-1-2026-03-01/semantic-memories.csv',
+      'pixtorai-memories-user-1-2026-03-01/episodic-memories.csv',
+      'pixtorai-memories-user-1-2026-03-01/short-term-messages.csv'
+    ]);
+  });
+
+  it('prefixes values a spreadsheet would run as a formula', () => {
+    const cells = contentCells(bundleWith([
+      { id: 'eq', content: '=HYPERLINK("http://example.com")', category: 'preference' },
+      { id: 'plus', content: '+1 555 0100', category: 'preference' },
+      { id: 'minus', content: '-2+3', category: 'preference' },
+      { id: 'at', content: '@SUM(A1:A2)', category: 'preference' },
+      { id: 'tab', content: '\t=1+1', category: 'preference' },
+      { id: 'plain', content: 'Prefers 2+2 layouts', category: 'preference' }
+    ]));
+
+    assert.equal(cells.get('eq'), '"\'=HYPERLINK(""http://example.com"")"');
+    assert.equal(cells.get('plus'), "'+1 555 0100");
+    assert.equal(cells.get('minus'), "'-2+3");
+    assert.equal(cells.get('at'), "'@SUM(A1:A2)");
+    assert.equal(cells.get('tab'), "'\t=1+1");
+    assert.equal(cells.get('plain'), 'Prefers 2+2 layouts');
+  });
+
+  it('quotes cells containing commas, quotes or line breaks', () => {
+    const cells = contentCells(bundleWith([
+      { id: 'comma', content: 'Tea, not coffee', category: 'preference' },
+      { id: 'newline', content: 'Line one\nline two', category: 'preference' }
+    ]));
+
+    assert.equal(cells.get('comma'), '"Tea, not coffee"');
+    assert.equal(cells.get('newline'), '"Line one\nline two"');
+  });
+});
@@ -0,0 +1,119 @@
+// Retention purge: policy selection, supersession relinking, and a full run against the
+// Firestore emulator when FIRESTORE_EMULATOR_HOST is set (e.g. under `firebase emulators:exec`)
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as admin from 'firebase-admin';
+import { purgeUserMemories, selectForPurge } from '../src/memory-retention';
+import { relinkSuperseded } from '../src/semantic-memory-service';
+import { DEFAULT_MEMORY_SETTINGS } from '../src/memory-types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+const daysAgo = (days: number): admin.firestore.Timestamp =>
+  admin.firestore.Timestamp.fromMillis(NOW.getTime() - days * DAY_MS);
+
+// Just enough of a query snapshot for the selection and relinking logic
+const fakeDoc = (id: string, data: admin.firestore.DocumentData): admin.firestore.QueryDocumentSnapshot =>
+  ({ id, ref: { id }, data: () => data }) as unknown as admin.firestore.QueryDocumentSnapshot;
+
+describe('selectForPurge', () => {
+  const policy = { retentionDays: 30, importanceThreshold: 0.3, maxCount: null };
+
+  it('expires memories inactive past the retention period, but never pinned ones', () => {
+    const reasons = selectForPurge([
+      fakeDoc('old', { createdAt: daysAgo(40), importance: 0.9 }),
+      fakeDoc('used', { createdAt: daysAgo(40), lastAccessedAt: daysAgo(2), importance: 0.9 }),
+      fakeDoc('pinned', { createdAt: daysAgo(400), importance: 0.1, pinned: true })
+    ], policy, NOW);
+
+    assert.deepEqual(Array.from(reasons), [['old', 'expired']]);
+  });
+
+  it('drops memories below the importance threshold', () => {
+    const reasons = selectForPurge([
+      fakeDoc('minor', { createdAt: daysAgo(1), importance: 0.2 }),
+      fakeDoc('major', { createdAt: daysAgo(1), importance: 0.8 })
+    ], policy, NOW);
+
+    assert.deepEqual(Array.from(reasons), [['minor', 'belowThreshold']]);
+  });
+
+  it('trims to the limit, superseded memories first, then the least important', () => {
+    const reasons = selectForPurge([
+      fakeDoc('current-high', { createdAt: daysAgo(3), importance: 0.9 }),
+      fakeDoc('current-low', { createdAt: daysAgo(2), importance: 0.5 }),
+      fakeDoc('superseded', { createdAt: daysAgo(1), importance: 0.9, supersededBy: 'current-high' })
+    ], { retentionDays: 0, importanceThreshold: null, maxCount: 1 }, NOW);
+
+    assert.deepEqual(Array.from(reasons), [['superseded', 'overLimit'], ['current-low', 'overLimit']]);
+  });
+});
+
+describe('relinkSuperseded', () => {
+  it('makes a memory current again when the memory that replaced it is deleted', () => {
+    const updates = relinkSuperseded([
+      fakeDoc('a', { supersededBy: 'b' }),
+      fakeDoc('b', { supersededBy: null })
+    ], new Set(['b']));
+
+    assert.deepEqual(updates.map(([ref, update]) => [ref.id, update]), [['a', { supersededBy: null, validUntil: null }]]);
+  });
+
+  it('points past deleted replacements to the latest surviving one', () => {
+    const updates = relinkSuperseded([
+      fakeDoc('a', { supersededBy: 'b' }),
+      fakeDoc('b', { supersededBy: 'c' }),
+      fakeDoc('c', { supersededBy: null })
+    ], new Set(['b']));
+
+    assert.deepEqual(updates.map(([ref, update]) => [ref.id, update]), [['a', { supersededBy: 'c' }]]);
+  });
+
+  it('leaves memories alone when nothing that replaced them is deleted', () => {
+    const updates = relinkSuperseded([
+      fakeDoc('a', { supersededBy: 'b' }),
+      fakeDoc('b', { supersededBy: null }),
+      fakeDoc('c', { supersededBy: null })
+    ], new Set(['c']));
+
+    assert.deepEqual(updates, []);
+  });
+});
+
+describe('purgeUserMemories against the emulator', { skip: !process.env.FIRESTORE_EMULATOR_HOST }, () => {
+  const userId = `retention-${Date.now()}`;
+  let app: admin.app.App;
+  let db: admin.firestore.Firestore;
+
+  before(() => {
+    app = admin.initializeApp({ projectId: 'demo-memory-retention' }, 'memory-retention-test');
+    db = app.firestore();
+  });
+
+  after(async () => {
+    const snapshot = await db.collection('semanticMemories').where('userId', '==', userId).get();
+    await Promise.all(snapshot.docs.map(doc => doc.ref.delete()));
+    await app.delete();
+  });
+
+  it('deletes expired memories and restores the facts they had superseded', async () => {
+    const memories = db.collection('semanticMemories');
+    await memories.doc(`${userId}-old`).set({
+      userId, content: 'Prefers dark mode', importance: 0.8, pinned: true,
+      createdAt: daysAgo(90), supersededBy: `${userId}-new`, validUntil: daysAgo(60)
+    });
+    await memories.doc(`${userId}-new`).set({
+      userId, content: 'Prefers light mode', importance: 0.8,
+      createdAt: daysAgo(60), supersededBy: null, validUntil: null
+    });
+
+    const result = await purgeUserMemories(db, userId, { ...DEFAULT_MEMORY_SETTINGS, dataRetentionDays: 30 }, NOW);
+
+    assert.equal(result.semantic.expired, 1);
+    assert.equal((await memories.doc(`${userId}-new`).get()).exists, false);
+    const restored = (await memories.doc(`${userId}-old`).get()).data();
+    assert.equal(restored?.supersededBy, null);
+    assert.equal(restored?.validUntil, null);
+  });
+});
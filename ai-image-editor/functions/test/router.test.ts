@@ -0,0 +1,167 @@
+// Path matching, dispatch and the OpenAPI document of the route table
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Request, Response } from 'firebase-functions';
+import { RouteDefinition, Router, matchPath } from '../src/router';
+
+describe('matchPath', () => {
+  it('matches literal segments and captures parameters', () => {
+    assert.deepEqual(matchPath('/memory/stats', '/memory/stats'), { params: {} });
+    assert.deepEqual(matchPath('/memory/semantic/:id/history', '/memory/semantic/mem_1/history'), { params: { id: 'mem_1' } });
+  });
+
+  it('ignores leading, trailing and repeated slashes', () => {
+    assert.deepEqual(matchPath('/conversations/:id', 'conversations//conv-1/'), { params: { id: 'conv-1' } });
+  });
+
+  it('returns null when the path has a different shape', () => {
+    assert.equal(matchPath('/memory/semantic/:id', '/memory/semantic/mem_1/history'), null);
+    assert.equal(matchPath('/memory/semantic/:id', '/memory/episodic/mem_1'), null);
+    assert.equal(matchPath('/memory/stats', '/memory'), null);
+  });
+
+  it('decodes percent-encoded parameters', () => {
+    assert.deepEqual(matchPath('/conversations/:id', '/conversations/image%5F1712%20x'), { params: { id: 'image_1712 x' } });
+  });
+
+  it('rejects parameters with malformed escapes or encoded slashes', () => {
+    assert.deepEqual(matchPath('/conversations/:id', '/conversations/%E0%A4%A'), { invalidParam: 'id' });
+    assert.deepEqual(matchPath('/conversations/:id', '/conversations/abc%2F..%2Fother'), { invalidParam: 'id' });
+  });
+});
+
+interface CapturedResponse {
+  statusCode: number;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+const fakeResponse = (): { response: Response; captured: CapturedResponse } => {
+  const captured: CapturedResponse = { statusCode: 200, body: undefined, headers: {} };
+  const response = {
+    status(code: number) { captured.statusCode = code; return response; },
+    json(body: unknown) { captured.body = body; return response; },
+    set(name: string, value: string) { captured.headers[name] = value; return response; }
+  };
+  return { response: response as unknown as Response, captured };
+};
+
+const fakeRequest = (method: string, path: string, authorization?: string): Request =>
+  ({ method, path, ip: '203.0.113.7', params: {}, headers: authorization ? { authorization } : {} }) as unknown as Request;
+
+const handled: string[] = [];
+const routes: RouteDefinition[] = [
+  {
+    method: 'GET',
+    path: '/memory/semantic/:id',
+    operationId: 'getSemanticMemory',
+    summary: 'Get a memory',
+    tag: 'memory',
+    auth: 'user',
+    rateLimit: 'standard',
+    handler: async (request, response, userId) => {
+      handled.push(`${userId}:${request.params.id}`);
+      response.status(200).json({ ok: true });
+    }
+  },
+  {
+    method: 'POST',
+    path: '/subscription/webhook',
+    operationId: 'subscriptionWebhook',
+    summary: 'Stripe webhook',
+    tag: 'subscription',
+    auth: 'public',
+    rateLimit: 'webhook',
+    handler: async (_request, response) => {
+      handled.push('webhook');
+      response.status(200).json({ received: true });
+    }
+  }
+];
+
+// Tokens are 'Bearer uid-<uid>'; buckets hold `capacity` requests each and never refill
+const createRouter = (capacity = 10) => {
+  const buckets = new Map<string, number>();
+  const charged: string[] = [];
+  const router = new Router(routes, async (bucketId) => {
+    charged.push(bucketId);
+    const used = (buckets.get(bucketId) || 0) + 1;
+    buckets.set(bucketId, used);
+    return used <= capacity ? { granted: true, waitedMs: 0 } : { granted: false, waitedMs: 0, retryAfterMs: 2500 };
+  }, async (authHeader) => authHeader?.startsWith('Bearer uid-') ? authHeader.substring('Bearer uid-'.length) : null);
+  return { router, charged };
+};
+
+describe('Router.dispatch', () => {
+  it('passes the verified user and path parameters to the handler', async () => {
+    handled.length = 0;
+    const { router, charged } = createRouter();
+    const { response, captured } = fakeResponse();
+    await router.dispatch(fakeRequest('GET', '/api/memory/semantic/mem_1', 'Bearer uid-alice'), response);
+    assert.equal(captured.statusCode, 200);
+    assert.deepEqual(handled, ['alice:mem_1']);
+    assert.deepEqual(charged, ['standard_user_alice']);
+  });
+
+  it('rejects user routes without a valid token before charging a bucket', async () => {
+    handled.length = 0;
+    const { router, charged } = createRouter();
+    const { response, captured } = fakeResponse();
+    await router.dispatch(fakeRequest('GET', '/memory/semantic/mem_1', 'Bearer forged'), response);
+    assert.equal(captured.statusCode, 401);
+    assert.deepEqual(handled, []);
+    assert.deepEqual(charged, []);
+  });
+
+  it('answers 429 with Retry-After once a caller has used its budget', async () => {
+    handled.length = 0;
+    const { router } = createRouter(1);
+    await router.dispatch(fakeRequest('GET', '/memory/semantic/mem_1', 'Bearer uid-alice'), fakeResponse().response);
+
+    const { response, captured } = fakeResponse();
+    await router.dispatch(fakeRequest('GET', '/memory/semantic/mem_2', 'Bearer uid-alice'), response);
+    assert.equal(captured.statusCode, 429);
+    assert.equal(captured.headers['Retry-After'], '3');
+    assert.deepEqual(handled, ['alice:mem_1']);
+
+    // Budgets are per caller
+    const other = fakeResponse();
+    await router.dispatch(fakeRequest('GET', '/memory/semantic/mem_2', 'Bearer uid-bob'), other.response);
+    assert.equal(other.captured.statusCode, 200);
+  });
+
+  it('does not limit webhook routes', async () => {
+    const { router, charged } = createRouter(0);
+    const { response, captured } = fakeResponse();
+    await router.dispatch(fakeRequest('POST', '/subscription/webhook'), response);
+    assert.equal(captured.statusCode, 200);
+    assert.deepEqual(charged, []);
+  });
+
+  it('answers 404, 405 and 400 without reaching a handler', async () => {
+    handled.length = 0;
+    const { router } = createRouter();
+    const statuses: number[] = [];
+    for (const [method, path] of [['GET', '/missing'], ['DELETE', '/memory/semantic/mem_1'], ['GET', '/memory/semantic/a%2Fb']]) {
+      const { response, captured } = fakeResponse();
+      await router.dispatch(fakeRequest(method, path, 'Bearer uid-alice'), response);
+      statuses.push(captured.statusCode);
+    }
+    assert.deepEqual(statuses, [404, 405, 400]);
+    assert.deepEqual(handled, []);
+  });
+});
+
+describe('Router.openApiDocument', () => {
+  it('reports each route\'s rate limit', () => {
+    type Operation = { 'x-rate-limit': unknown; responses: Record<string, unknown> };
+    const paths = createRouter().router.openApiDocument().paths as Record<string, Record<string, Operation>>;
+    const get = paths['/api/memory/semantic/{id}'].get;
+    assert.deepEqual(get['x-rate-limit'], { class: 'standard', requestsPerMinute: 120 });
+    assert.ok(get.responses[429]);
+
+    const webhook = paths['/api/subscription/webhook'].post;
+    assert.deepEqual(webhook['x-rate-limit'], { class: 'webhook', requestsPerMinute: null });
+    assert.equal(webhook.responses[429], undefined);
+  });
+});
@@ -0,0 +1,53 @@
+// createZip output read back entry by entry
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createZip } from '../src/zip-archive';
+import { readZip } from './zip-reader';
+
+const hasUnzip = (() => {
+  try {
+    execFileSync('unzip', ['-v'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+describe('createZip', () => {
+  const entries = [
+    { name: 'export/notes.csv', content: 'id,content\r\n1,"Likes ""quoted"" text"\r\n' },
+    { name: 'export/ünïcödé.txt', content: 'Ünïcödé names and content ✓' },
+    { name: 'export/binary.bin', content: Buffer.from([0, 1, 2, 253, 254, 255]) },
+    { name: 'export/empty.txt', content: '' }
+  ];
+
+  it('round-trips every entry with its name and content', () => {
+    const read = readZip(createZip(entries));
+
+    assert.deepEqual(read.map(entry => entry.name), entries.map(entry => entry.name));
+    read.forEach((entry, index) => {
+      const expected = entries[index].content;
+      assert.deepEqual(entry.content, typeof expected === 'string' ? Buffer.from(expected, 'utf8') : expected);
+    });
+  });
+
+  it('writes an empty archive when there are no entries', () => {
+    assert.deepEqual(readZip(createZip([])), []);
+  });
+
+  it('passes unzip -t', { skip: !hasUnzip && 'unzip is not installed' }, () => {
+    const dir = mkdtempSync(join(tmpdir(), 'zip-archive-'));
+    try {
+      const file = join(dir, 'archive.zip');
+      writeFileSync(file, createZip(entries, new Date(2026, 2, 1, 12, 30, 10)));
+      const output = execFileSync('unzip', ['-t', file], { encoding: 'utf8' });
+      assert.match(output, /No errors detected/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,41 @@
+// Reads back archives from createZip for tests, independently of the writer: entries are found
+// through the central directory and checked against their CRC-32 and sizes
+import * as zlib from 'zlib';
+
+export interface ReadEntry {
+  name: string;
+  content: Buffer;
+}
+
+export const readZip = (archive: Buffer): ReadEntry[] => {
+  const endOffset = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (endOffset < 0) throw new Error('No end of central directory record');
+
+  const count = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+  const entries: ReadEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (archive.readUInt32LE(offset) !== 0x02014b50) throw new Error(`Bad central header for entry ${i}`);
+    const method = archive.readUInt16LE(offset + 10);
+    const crc = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (archive.readUInt32LE(localOffset) !== 0x04034b50) throw new Error(`Bad local header for ${name}`);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    const content = method === 8 ? zlib.inflateRawSync(data) : Buffer.from(data);
+
+    if (content.length !== size) throw new Error(`Size mismatch for ${name}`);
+    if (zlib.crc32(content) !== crc) throw new Error(`CRC mismatch for ${name}`);
+    entries.push({ name, content });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
@@ -0,0 +1,50 @@
+// One-time upload of generated images that older versions kept in this browser's localStorage
+// Messages from those versions reference `local:generated_*` keys that no other device can
+// resolve; each entry is sent to the server, which stores it in Cloud Storage and re-points the
+// messages. Entries are removed once migrated; ones no message of this user claims are kept.
+
+import type { User } from 'firebase/auth';
+
+const LOCAL_IMAGE_PREFIX = 'generated_';
+
+export interface LocalImageMigrationResult {
+  migrated: number; // localStorage entries moved to Cloud Storage
+  failed: number;
+}
+
+export async function migrateLocalImages(user: User): Promise<LocalImageMigrationResult> {
+  const result: LocalImageMigrationResult = { migrated: 0, failed: 0 };
+  const keys = Object.keys(localStorage).filter(key => key.startsWith(LOCAL_IMAGE_PREFIX));
+
+  // One at a time: each request carries a whole image
+  for (const key of keys) {
+    const dataUrl = localStorage.getItem(key);
+    if (!dataUrl?.startsWith('data:image/')) continue;
+
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch('/api/images/migrate-local', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ localKey: key, dataUrl }),
+      });
+      if (!response.ok) {
+        throw new Error(`Migration request failed with ${response.status}`);
+      }
+
+      const { migrated } = await response.json();
+      if (migrated > 0) {
+        localStorage.removeItem(key);
+        result.migrated++;
+      }
+    } catch (error) {
+      console.warn(`Failed to migrate local image ${key}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
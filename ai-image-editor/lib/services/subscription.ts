@@ -51,11 +51,12 @@ export class SubscriptionService {
       const subscriptionDoc = await getDoc(subscriptionRef);
       
       if (!subscriptionDoc.exists()) {
-        // Create default free subscription for new users
+        // New users are on the free plan; the doc itself is created server-side, since
+        // subscriptions are read-only for clients
         const freePlan = getPlanById('free');
         if (!freePlan) throw new Error('Free plan not configured');
         
-        const newSubscription: UserSubscription = {
+        return {
           id: userId,
           userId,
           planId: 'free',
@@ -66,16 +67,6 @@ export class SubscriptionService {
           createdAt: new Date(),
           updatedAt: new Date()
         };
-        
-        await setDoc(subscriptionRef, {
-          ...newSubscription,
-          currentPeriodStart: Timestamp.fromDate(newSubscription.currentPeriodStart),
-          currentPeriodEnd: Timestamp.fromDate(newSubscription.currentPeriodEnd),
-          createdAt: Timestamp.fromDate(newSubscription.createdAt),
-          updatedAt: Timestamp.fromDate(newSubscription.updatedAt)
-        });
-        
-        return newSubscription;
       }
       
       const data = subscriptionDoc.data();
@@ -2,7 +2,7 @@
 // As specified in the PRD for continuous chat experience across model providers
 
 export interface ConversationMetadata {
-  id: string;
+  id: string; // the conversation id; the doc itself is keyed {userId}_{id}
   userId: string;
   title: string;
   description?: string;
@@ -13,6 +13,8 @@ export interface ConversationMetadata {
   messageCount: number;
   isActive: boolean;
   type: 'text' | 'image' | 'mixed';
+  lastMessage?: string; // preview of the latest message
+  thumbnail?: string | null;
   // Privacy and memory settings
   memoryEnabled: boolean;
   privacyLevel: 'full' | 'limited' | 'none';
@@ -32,7 +34,7 @@ export interface Message {
   imageUrls?: string[];
   attachments?: MessageAttachment[];
   // Context and memory
-  memoryReferences?: string[]; // IDs of memories used in this message
+  memoryReferences?: MemoryReference[]; // memories injected into the prompt for this reply
   intentCategory?: string; // e.g., 'creative', 'analytical', 'casual'
   emotionalTone?: string; // e.g., 'positive', 'neutral', 'concerned'
   // Processing metadata
@@ -42,6 +44,14 @@ export interface Message {
   errorMessage?: string;
 }
 
+// One memory item a reply was given; mirrors functions/src/memory-types.ts. Short-term
+// references point at a window message, or at the window itself for its running summary.
+export interface MemoryReference {
+  type: 'semantic' | 'episodic' | 'shortTerm';
+  id: string;
+  preview: string;
+}
+
 export interface MessageAttachment {
   id: string;
   type: 'image' | 'file' | 'url';
@@ -58,6 +68,7 @@ export interface ShortTermMemory {
   userId: string;
   messages: ShortTermMessage[];
   windowSize: number; // default 12
+  summary?: string; // running summary of messages that have left the window
   createdAt: Date;
   updatedAt: Date;
 }
@@ -79,7 +90,7 @@ export interface SemanticMemory {
   content: string;
   embedding: number[]; // vector embedding
   // Metadata for retrieval
-  category: string; // e.g., 'preference', 'fact', 'skill', 'context'
+  category: string; // 'preference', 'fact', 'skill', 'context' or 'style' for extracted facts
   keywords: string[];
   importance: number; // 0-1 scale
   confidence: number; // 0-1 scale for content accuracy
@@ -92,6 +103,14 @@ export interface SemanticMemory {
   sourceMessageIds: string[];
   // Privacy
   privacyLevel: 'full' | 'limited' | 'none';
+  // Pinned memories are never evicted by the per-user limit
+  pinned?: boolean;
+  // A memory contradicted by a newer one is kept as history and excluded from retrieval
+  supersedes?: string[];
+  supersededBy?: string | null;
+  validUntil?: Date | null;
+  // Marked "don't use again": kept and searchable, but never put in a prompt
+  excludeFromContext?: boolean;
 }
 
 // Episodic Memory (conversation summaries)
@@ -126,6 +145,8 @@ export interface EpisodicMemory {
   createdAt: Date;
   updatedAt: Date;
   lastAccessedAt?: Date;
+  pinned?: boolean; // exempt from the per-user episode limit
+  excludeFromContext?: boolean; // never put in a prompt
 }
 
 // Multi-model Adapter Types
@@ -181,6 +202,7 @@ export interface ConversationContext {
   totalTokenCount: number;
   memoryTokenCount: number;
   messageTokenCount: number;
+  tokenBreakdown?: TokenBreakdown;
   // Model selection
   recommendedModel: ModelConfig;
   modelSwitchReason?: string;
@@ -189,6 +211,27 @@ export interface ConversationContext {
   expiresAt?: Date; // for cache management
 }
 
+// Where a packed context's tokens went; memory sections are filled in this order of priority
+export interface TokenBreakdown {
+  model: string;
+  tokenizer: string;
+  contextWindow: number;
+  reservedForOutput: number;
+  system: number; // system prompt and other fixed instructions
+  facts: number;
+  summary: number; // running summary of this conversation's earlier turns
+  episodes: number;
+  recentMessages: number;
+  prompt: number;
+  total: number;
+  dropped: {
+    facts: number;
+    episodes: number;
+    recentMessages: number;
+  };
+  truncated: boolean;
+}
+
 // Memory Management and Privacy
 export interface MemorySettings {
   userId: string;